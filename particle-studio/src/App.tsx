@@ -31,7 +31,6 @@ export default function App() {
     return () => clearTimeout(timer);
   }, []);
 
-  const layers = useStudioStore((s) => s.layers);
   const global = useStudioStore((s) => s.global);
   const setIsRecording = useStudioStore((s) => s.setIsRecording);
   const setIsGifExporting = useStudioStore((s) => s.setIsGifExporting);
@@ -45,6 +44,7 @@ export default function App() {
 
     const engine = new ParticleEngine(canvas);
     engineRef.current = engine;
+    useStudioStore.getState().setFloatBlend(engine.floatBlend);
 
     // Set initial resolution from global state
     const resolution = getResolutionDimensions(useStudioStore.getState().global);
@@ -55,6 +55,9 @@ export default function App() {
       const tag = (e.target as HTMLElement)?.tagName;
       if (tag === "INPUT" || tag === "TEXTAREA" || tag === "SELECT") return;
 
+      // Layers whose morph targets advance on a key
+      engine.morphKeyPressed(e.key);
+
       if (e.key.toLowerCase() === " ") {
         useStudioStore.getState().togglePause();
       }
@@ -97,14 +100,18 @@ export default function App() {
     });
   }, [global.bufferEnabled, global.bufferDuration, global.bufferFps]);
 
+  // Render loop, created once; state is read from the store each frame so edits
+  // don't tear the loop down (the engine skips layers whose revision is unchanged)
   useEffect(() => {
     const engine = engineRef.current;
     if (!engine) return;
 
     let raf = 0;
+    let frame = 0;
     const tick = () => {
+      const { global, layers, layerRevisions } = useStudioStore.getState();
       engine.setGlobal(global);
-      engine.setLayers(layers);
+      engine.setLayers(layers, layerRevisions);
       
       // Get audio analysis and pass to engine
       const audioEngine = getAudioEngine();
@@ -116,6 +123,11 @@ export default function App() {
       }
       
       engine.step();
+
+      // Benchmark readout, throttled so the store isn't updated every frame
+      if (global.benchmarkMode && ++frame % 30 === 0) {
+        useStudioStore.getState().setFrameStats(engine.getFrameStats());
+      }
       
       // Capture frame to rolling buffer if enabled (after render completes)
       const canvas = canvasRef.current;
@@ -129,7 +141,7 @@ export default function App() {
     raf = requestAnimationFrame(tick);
 
     return () => cancelAnimationFrame(raf);
-  }, [global, layers]);
+  }, []);
 
   // one-way “commands” from UI -> engine
   const resetNonce = useStudioStore((s) => s.resetNonce);
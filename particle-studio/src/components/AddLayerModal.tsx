@@ -29,6 +29,14 @@ const kindOptions: { value: LayerKind; name: string; desc: string; icon: string
   }
 ];
 
+const countOptions: { value: number; label: string }[] = [
+  { value: 5000, label: "5K" },
+  { value: 20000, label: "20K" },
+  { value: 100000, label: "100K" },
+  { value: 250000, label: "250K" },
+  { value: 1048576, label: "1M" }
+];
+
 const typeOptions: { value: ParticleType; label: string }[] = [
   { value: "sand", label: "Sand" },
   { value: "dust", label: "Dust" },
@@ -45,15 +53,17 @@ export function AddLayerModal({ open, onClose }: Props) {
   const addLayer = useStudioStore((s) => s.addLayer);
   const [selectedKind, setSelectedKind] = useState<LayerKind>("foreground");
   const [selectedType, setSelectedType] = useState<ParticleType>("dust");
+  const [selectedCount, setSelectedCount] = useState(5000);
 
   if (!open) return null;
 
   const handleCreate = () => {
-    addLayer(selectedKind, selectedType);
+    addLayer(selectedKind, selectedType, selectedCount);
     onClose();
     // Reset to defaults for next time
     setSelectedKind("foreground");
     setSelectedType("dust");
+    setSelectedCount(5000);
   };
 
   return (
@@ -96,6 +106,21 @@ export function AddLayerModal({ open, onClose }: Props) {
               </div>
             </div>
           )}
+
+          <div className="section">
+            <h4 className="sectionTitle">Particles</h4>
+            <div className="segmented">
+              {countOptions.map((opt) => (
+                <button
+                  key={opt.value}
+                  className={selectedCount === opt.value ? "active" : ""}
+                  onClick={() => setSelectedCount(opt.value)}
+                >
+                  {opt.label}
+                </button>
+              ))}
+            </div>
+          </div>
         </div>
 
         <div className="modalFooter">
@@ -0,0 +1,154 @@
+import { useMemo } from "react";
+import { useStudioStore } from "../state/store";
+import { SliderRow } from "./ui/SliderRow";
+import type { ColorImageSampling, MaskTransform } from "../state/types";
+
+const defaultTransform: MaskTransform = {
+  x: 0,
+  y: 0,
+  scale: 1,
+  rotation: 0,
+  skewX: 0,
+  skewY: 0
+};
+
+const samplingOptions: { value: ColorImageSampling; label: string }[] = [
+  { value: "current", label: "Current" },
+  { value: "spawn", label: "Spawn" }
+];
+
+// Stored as a data URL so the picture survives layer and HTML scene exports
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+export function ColorImageEditor() {
+  const layers = useStudioStore((s) => s.layers);
+  const selectedLayerId = useStudioStore((s) => s.selectedLayerId);
+  const setLayer = useStudioStore((s) => s.setLayer);
+
+  const layer = useMemo(
+    () => layers.find((l) => l.id === selectedLayerId),
+    [layers, selectedLayerId]
+  );
+
+  if (!layer) return null;
+
+  // Layers imported from older exports have no image placement yet
+  const transform = layer.colorImageTransform ?? defaultTransform;
+  const sampling = layer.colorImageSampling ?? "current";
+
+  const updateTransform = (patch: Partial<MaskTransform>) => {
+    setLayer(layer.id, { colorImageTransform: { ...transform, ...patch } });
+  };
+
+  const loadImage = async (file: File | undefined) => {
+    if (!file) return;
+    setLayer(layer.id, { colorImageUrl: await readAsDataUrl(file) });
+  };
+
+  return (
+    <>
+      <div className="row">
+        <input
+          key={layer.id}
+          type="file"
+          accept="image/*"
+          style={{ flex: 1 }}
+          onChange={(e) => {
+            void loadImage(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+        />
+      </div>
+
+      {layer.colorImageUrl ? (
+        <div style={{ display: "flex", alignItems: "center", gap: 8, margin: "6px 0" }}>
+          <img
+            src={layer.colorImageUrl}
+            alt="Colour source"
+            style={{
+              width: 64,
+              height: 64,
+              objectFit: "contain",
+              background: "#222",
+              borderRadius: "var(--radius-sm)"
+            }}
+          />
+          <button
+            className="btn btnSm btnDanger"
+            onClick={() => setLayer(layer.id, { colorImageUrl: undefined })}
+          >
+            Remove
+          </button>
+        </div>
+      ) : (
+        <div className="small" style={{ opacity: 0.7, marginBottom: 8 }}>
+          Load a picture; particles take the colour beneath them. Outside it they keep the layer colour.
+        </div>
+      )}
+
+      <div className="row" title="Colour from where the particle is now, or from where it spawned">
+        <span className="rowLabel">Sample at</span>
+        <div className="segmented" style={{ width: 160 }}>
+          {samplingOptions.map((o) => (
+            <button
+              key={o.value}
+              className={sampling === o.value ? "active" : ""}
+              onClick={() => setLayer(layer.id, { colorImageSampling: o.value })}
+            >
+              {o.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="row">
+        <span className="small">Placement</span>
+        <button
+          className="btn btnSm"
+          style={{ marginLeft: "auto" }}
+          onClick={() => setLayer(layer.id, { colorImageTransform: defaultTransform })}
+        >
+          Reset
+        </button>
+      </div>
+      <SliderRow
+        label="Pan X"
+        value={transform.x}
+        min={-1}
+        max={1}
+        step={0.01}
+        onChange={(v) => updateTransform({ x: v })}
+      />
+      <SliderRow
+        label="Pan Y"
+        value={transform.y}
+        min={-1}
+        max={1}
+        step={0.01}
+        onChange={(v) => updateTransform({ y: v })}
+      />
+      <SliderRow
+        label="Scale"
+        value={transform.scale}
+        min={0.1}
+        max={3}
+        step={0.01}
+        onChange={(v) => updateTransform({ scale: v })}
+      />
+      <SliderRow
+        label="Rotation"
+        value={transform.rotation}
+        min={0}
+        max={360}
+        step={1}
+        onChange={(v) => updateTransform({ rotation: v })}
+      />
+    </>
+  );
+}
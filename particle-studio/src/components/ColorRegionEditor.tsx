@@ -0,0 +1,295 @@
+import { useRef, useEffect, useState, useMemo } from "react";
+import { useStudioStore } from "../state/store";
+import { SliderRow } from "./ui/SliderRow";
+import { SwitchRow } from "./ui/SwitchRow";
+import type { BorderEffect, ColorRegionEffect } from "../state/types";
+
+// Matches MAX_COLOR_REGIONS in the engine
+const MAX_REGIONS = 16;
+
+const borderEffects: { value: BorderEffect; label: string }[] = [
+  { value: "deflect", label: "Deflect" },
+  { value: "smear", label: "Smear" },
+  { value: "absorb", label: "Absorb" },
+  { value: "repel", label: "Repel" },
+  { value: "transform", label: "Transform color" },
+  { value: "fragment", label: "Fragment" },
+  { value: "passThrough", label: "Pass through" }
+];
+
+const toHex = (r: number, g: number, b: number) =>
+  "#" + [r, g, b].map((v) => v.toString(16).padStart(2, "0")).join("");
+
+export function ColorRegionEditor() {
+  const layers = useStudioStore((s) => s.layers);
+  const selectedLayerId = useStudioStore((s) => s.selectedLayerId);
+  const setLayer = useStudioStore((s) => s.setLayer);
+
+  const layer = useMemo(
+    () => layers.find((l) => l.id === selectedLayerId),
+    [layers, selectedLayerId]
+  );
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Region index whose colour the next click sets, or "new" to add a region
+  const [pickTarget, setPickTarget] = useState<number | "new" | null>(null);
+
+  // Draw the mask into the picker canvas
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !layer?.maskUrl) return;
+
+    const ctx = canvas.getContext("2d", { willReadFrequently: true });
+    if (!ctx) return;
+
+    canvas.width = 512;
+    canvas.height = 512;
+    const img = new Image();
+    img.onload = () => {
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    };
+    img.src = layer.maskUrl;
+  }, [layer?.maskUrl, pickTarget]);
+
+  if (!layer || !layer.maskUrl) return null;
+
+  const regions = layer.colorRegions || [];
+
+  // The engine skips regions for text masks, which are only black and white
+  if (layer.maskText?.enabled) {
+    return (
+      <div className="section">
+        <h3 className="sectionTitle">Color Regions</h3>
+        <div className="small" style={{ opacity: 0.7, marginBottom: 8 }}>
+          Off while the mask is drawn from text.
+          {regions.length > 0 && ` The ${regions.length} saved region${regions.length === 1 ? "" : "s"} apply again once text is switched off.`}
+        </div>
+      </div>
+    );
+  }
+
+  const updateRegion = (index: number, updates: Partial<ColorRegionEffect>) => {
+    setLayer(layer.id, {
+      colorRegions: regions.map((r, i) => (i === index ? { ...r, ...updates } : r))
+    });
+  };
+
+  const removeRegion = (index: number) => {
+    setLayer(layer.id, { colorRegions: regions.filter((_, i) => i !== index) });
+  };
+
+  const handlePick = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || pickTarget === null) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const x = Math.floor(((e.clientX - rect.left) / rect.width) * canvas.width);
+    const y = Math.floor(((e.clientY - rect.top) / rect.height) * canvas.height);
+    const [r, g, b] = ctx.getImageData(x, y, 1, 1).data;
+    const color = toHex(r, g, b);
+
+    if (pickTarget === "new") {
+      const region: ColorRegionEffect = {
+        color,
+        tolerance: 0.1,
+        borderEffect: "deflect",
+        effectStrength: 0.5
+      };
+      setLayer(layer.id, { colorRegions: [...regions, region] });
+    } else {
+      updateRegion(pickTarget, { color });
+    }
+    setPickTarget(null);
+  };
+
+  return (
+    <div className="section">
+      <h3 className="sectionTitle">
+        Color Regions
+        <button
+          className={`btn btnSm ${pickTarget === "new" ? "btnDanger" : "btnPrimary"}`}
+          style={{ marginLeft: "auto" }}
+          disabled={regions.length >= MAX_REGIONS}
+          onClick={() => setPickTarget(pickTarget === "new" ? null : "new")}
+        >
+          {pickTarget === "new" ? "Cancel" : "+ Pick Region"}
+        </button>
+      </h3>
+
+      <div className="small" style={{ marginBottom: 8 }}>
+        Each region matches a mask color. Crossing into a region applies its effect.
+      </div>
+
+      {pickTarget !== null && (
+        <div
+          style={{
+            marginBottom: 10,
+            border: "1px solid var(--stroke)",
+            borderRadius: "var(--radius-sm)",
+            overflow: "hidden",
+            background: "#222",
+            position: "relative"
+          }}
+        >
+          <canvas
+            ref={canvasRef}
+            style={{
+              width: "100%",
+              aspectRatio: "1",
+              cursor: "crosshair",
+              display: "block"
+            }}
+            onPointerDown={handlePick}
+          />
+          <div
+            className="small"
+            style={{
+              position: "absolute",
+              bottom: 4,
+              left: 4,
+              background: "rgba(0,0,0,0.7)",
+              padding: "2px 6px",
+              borderRadius: 4
+            }}
+          >
+            Click a mask color
+          </div>
+        </div>
+      )}
+
+      {regions.length === 0 ? (
+        <div className="small" style={{ opacity: 0.7, padding: "8px 0" }}>
+          No regions. Particles react wherever the mask color changes.
+        </div>
+      ) : (
+        regions.map((region, index) => (
+          <div
+            key={index}
+            style={{
+              marginBottom: 16,
+              padding: 12,
+              background: "rgba(255,255,255,0.05)",
+              borderRadius: "var(--radius-sm)",
+              border: "1px solid var(--stroke)"
+            }}
+          >
+            <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 8 }}>
+              <span className="small" style={{ fontWeight: 600 }}>Region {index + 1}</span>
+              <div style={{ display: "flex", gap: 6 }}>
+                <button
+                  className={`btn btnSm ${pickTarget === index ? "btnDanger" : ""}`}
+                  onClick={() => setPickTarget(pickTarget === index ? null : index)}
+                >
+                  Pick
+                </button>
+                <button
+                  className="btn btnSm btnDanger"
+                  onClick={() => removeRegion(index)}
+                >
+                  ✕
+                </button>
+              </div>
+            </div>
+
+            <div className="row">
+              <span className="rowLabel small">Match color</span>
+              <input
+                type="color"
+                className="colorInput"
+                value={region.color}
+                onChange={(e) => updateRegion(index, { color: e.target.value })}
+              />
+            </div>
+            <SliderRow
+              label="Tolerance"
+              value={region.tolerance}
+              min={0}
+              max={1}
+              step={0.01}
+              onChange={(v) => updateRegion(index, { tolerance: v })}
+              tooltip="How far a mask color may differ and still belong to this region"
+            />
+
+            <div className="row">
+              <span className="rowLabel small">Border effect</span>
+              <select
+                className="select inputSm"
+                style={{ width: 120 }}
+                value={region.borderEffect}
+                onChange={(e) => updateRegion(index, { borderEffect: e.target.value as BorderEffect })}
+              >
+                {borderEffects.map((b) => (
+                  <option key={b.value} value={b.value}>{b.label}</option>
+                ))}
+              </select>
+            </div>
+            <SliderRow
+              label="Effect strength"
+              value={region.effectStrength}
+              min={0}
+              max={1}
+              step={0.01}
+              onChange={(v) => updateRegion(index, { effectStrength: v })}
+            />
+
+            <SwitchRow
+              label="Particle color"
+              checked={region.particleColorOverride !== undefined}
+              onCheckedChange={(b) =>
+                updateRegion(index, { particleColorOverride: b ? region.color : undefined })
+              }
+            />
+            {region.particleColorOverride !== undefined && (
+              <div className="row">
+                <span className="rowLabel small">Color</span>
+                <input
+                  type="color"
+                  className="colorInput"
+                  value={region.particleColorOverride}
+                  onChange={(e) => updateRegion(index, { particleColorOverride: e.target.value })}
+                />
+              </div>
+            )}
+
+            <SwitchRow
+              label="Gravity override"
+              checked={region.gravityOverride !== undefined}
+              onCheckedChange={(b) =>
+                updateRegion(index, { gravityOverride: b ? layer.gravity : undefined })
+              }
+            />
+            {region.gravityOverride !== undefined && (
+              <SliderRow
+                label="Gravity"
+                value={region.gravityOverride}
+                min={-0.5}
+                max={1}
+                step={0.01}
+                onChange={(v) => updateRegion(index, { gravityOverride: v })}
+              />
+            )}
+
+            <SwitchRow
+              label="Flow direction"
+              checked={region.flowDirection !== undefined}
+              onCheckedChange={(b) => updateRegion(index, { flowDirection: b ? 0 : undefined })}
+              tooltip="Steers particles inside the region; strength follows effect strength"
+            />
+            {region.flowDirection !== undefined && (
+              <SliderRow
+                label="Direction (°)"
+                value={region.flowDirection}
+                min={0}
+                max={360}
+                step={1}
+                onChange={(v) => updateRegion(index, { flowDirection: v })}
+              />
+            )}
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
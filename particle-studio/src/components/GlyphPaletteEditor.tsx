@@ -0,0 +1,114 @@
+import { useMemo } from "react";
+import { useStudioStore } from "../state/store";
+import { SliderRow } from "./ui/SliderRow";
+import type { GlyphPaletteEntry, ParticleShape } from "../state/types";
+
+// Matches MAX_GLYPHS in the engine
+const MAX_ENTRIES = 8;
+
+export function GlyphPaletteEditor(props: { shapeOptions: { value: ParticleShape; label: string }[] }) {
+  const { shapeOptions } = props;
+  const layers = useStudioStore((s) => s.layers);
+  const selectedLayerId = useStudioStore((s) => s.selectedLayerId);
+  const setLayer = useStudioStore((s) => s.setLayer);
+
+  const layer = useMemo(
+    () => layers.find((l) => l.id === selectedLayerId),
+    [layers, selectedLayerId]
+  );
+
+  if (!layer) return null;
+
+  // A single-entry palette just mirrors the layer shape
+  const palette: GlyphPaletteEntry[] =
+    layer.glyphPalette && layer.glyphPalette.length > 0
+      ? layer.glyphPalette
+      : [{ shape: layer.shape ?? "dot", weight: 1.0 }];
+  const unused = shapeOptions.filter((o) => !palette.some((e) => e.shape === o.value));
+
+  const setPalette = (next: GlyphPaletteEntry[]) => {
+    // Keep layer.shape in sync with the first entry so single-shape views stay correct
+    setLayer(layer.id, { glyphPalette: next, shape: next[0]?.shape ?? layer.shape });
+  };
+
+  const addEntry = () => {
+    if (unused.length === 0 || palette.length >= MAX_ENTRIES) return;
+    setPalette([...palette, { shape: unused[0].value, weight: 1.0 }]);
+  };
+
+  const updateEntry = (index: number, updates: Partial<GlyphPaletteEntry>) => {
+    setPalette(palette.map((e, i) => (i === index ? { ...e, ...updates } : e)));
+  };
+
+  const removeEntry = (index: number) => {
+    setPalette(palette.filter((_, i) => i !== index));
+  };
+
+  const totalWeight = palette.reduce((sum, e) => sum + Math.max(0, e.weight), 0);
+
+  return (
+    <div style={{ marginBottom: 8 }}>
+      <div className="row">
+        <span className="rowLabel">Glyph palette</span>
+        <button
+          className="btn btnSm btnPrimary"
+          disabled={unused.length === 0 || palette.length >= MAX_ENTRIES}
+          onClick={addEntry}
+        >
+          + Add Shape
+        </button>
+      </div>
+
+      {palette.length > 1 &&
+        palette.map((entry, index) => (
+          <div
+            key={entry.shape}
+            style={{
+              marginBottom: 8,
+              padding: 8,
+              background: "rgba(255,255,255,0.05)",
+              borderRadius: "var(--radius-sm)",
+              border: "1px solid var(--stroke)"
+            }}
+          >
+            <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 6 }}>
+              <select
+                className="select inputSm"
+                style={{ width: 120 }}
+                value={entry.shape}
+                onChange={(e) => updateEntry(index, { shape: e.target.value as ParticleShape })}
+              >
+                {shapeOptions
+                  .filter((o) => o.value === entry.shape || !palette.some((p) => p.shape === o.value))
+                  .map((o) => (
+                    <option key={o.value} value={o.value}>
+                      {o.label}
+                    </option>
+                  ))}
+              </select>
+              <span className="small" style={{ opacity: 0.7 }}>
+                {totalWeight > 0 ? Math.round((Math.max(0, entry.weight) / totalWeight) * 100) : 0}%
+              </span>
+              <button className="btn btnSm btnDanger" onClick={() => removeEntry(index)}>
+                ✕
+              </button>
+            </div>
+            <SliderRow
+              label="Weight"
+              value={entry.weight}
+              min={0}
+              max={1}
+              step={0.01}
+              onChange={(v) => updateEntry(index, { weight: v })}
+            />
+          </div>
+        ))}
+
+      {palette.length <= 1 && (
+        <div className="small" style={{ opacity: 0.7 }}>
+          Add shapes to mix several glyphs in this layer.
+        </div>
+      )}
+    </div>
+  );
+}
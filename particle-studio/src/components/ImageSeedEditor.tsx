@@ -0,0 +1,136 @@
+import { useMemo } from "react";
+import { defaultImageSeedConfig, useStudioStore } from "../state/store";
+import { SliderRow } from "./ui/SliderRow";
+import { SwitchRow } from "./ui/SwitchRow";
+import type { ImageSeedConfig } from "../state/types";
+
+// Stored as a data URL so the picture survives layer and HTML scene exports
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+export function ImageSeedEditor() {
+  const layers = useStudioStore((s) => s.layers);
+  const selectedLayerId = useStudioStore((s) => s.selectedLayerId);
+  const setLayer = useStudioStore((s) => s.setLayer);
+  const requestResetAll = useStudioStore((s) => s.requestResetAll);
+
+  const layer = useMemo(
+    () => layers.find((l) => l.id === selectedLayerId),
+    [layers, selectedLayerId]
+  );
+
+  if (!layer) return null;
+
+  // Layers imported from older exports have no image seed yet
+  const seed = layer.imageSeed ?? defaultImageSeedConfig();
+  const update = (updates: Partial<ImageSeedConfig>) => {
+    setLayer(layer.id, { imageSeed: { ...seed, ...updates } });
+  };
+
+  const loadImage = async (file: File | undefined) => {
+    if (!file) return;
+    update({ url: await readAsDataUrl(file) });
+  };
+
+  return (
+    <div className="section">
+      <h3 className="sectionTitle">Image Seed</h3>
+
+      <SwitchRow
+        label="Seed from image"
+        checked={seed.enabled}
+        onCheckedChange={(enabled) => update({ enabled })}
+        tooltip="On reset, place particles on the picture, denser where it is brighter"
+      />
+
+      {seed.enabled && (
+        <>
+          <div className="row">
+            <input
+              key={layer.id}
+              type="file"
+              accept="image/*"
+              style={{ flex: 1 }}
+              onChange={(e) => {
+                void loadImage(e.target.files?.[0]);
+                e.target.value = "";
+              }}
+            />
+          </div>
+
+          {seed.url ? (
+            <div style={{ display: "flex", alignItems: "center", gap: 8, margin: "6px 0" }}>
+              <img
+                src={seed.url}
+                alt="Seed"
+                style={{
+                  width: 64,
+                  height: 64,
+                  objectFit: "contain",
+                  background: "#222",
+                  borderRadius: "var(--radius-sm)"
+                }}
+              />
+              <button className="btn btnSm" title="Reset the scene so the picture re-forms" onClick={requestResetAll}>
+                Reseed
+              </button>
+              <button className="btn btnSm btnDanger" onClick={() => update({ url: undefined })}>
+                Remove
+              </button>
+            </div>
+          ) : (
+            <div className="small" style={{ opacity: 0.7, marginBottom: 8 }}>
+              Load a picture; the layer's forces then blow it apart.
+            </div>
+          )}
+
+          <SwitchRow
+            label="Invert"
+            checked={seed.invert}
+            onCheckedChange={(invert) => update({ invert })}
+            tooltip="Place particles on dark pixels instead of bright ones"
+          />
+          <SwitchRow
+            label="Carry colour"
+            checked={seed.carryColor}
+            onCheckedChange={(carryColor) => update({ carryColor })}
+            tooltip="Particles keep the colour of the pixel they started on"
+          />
+          <SwitchRow
+            label="Reform"
+            checked={seed.reform}
+            onCheckedChange={(reform) => update({ reform })}
+            tooltip="Pull particles back to where they started"
+          />
+          {seed.reform && (
+            <>
+              <SliderRow
+                label="Strength"
+                value={seed.reformStrength}
+                min={0}
+                max={1}
+                step={0.01}
+                onChange={(reformStrength) => update({ reformStrength })}
+                tooltip="How hard particles are pulled back"
+              />
+              <SliderRow
+                label="Damping"
+                value={seed.reformDamping}
+                min={0}
+                max={1}
+                step={0.01}
+                onChange={(reformDamping) => update({ reformDamping })}
+                tooltip="Higher values settle without overshooting"
+              />
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
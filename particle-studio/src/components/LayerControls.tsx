@@ -1,6 +1,9 @@
 import { useMemo } from "react";
 import type { LayerConfig, ParticleType, ParticleShape } from "../state/types";
-import { useStudioStore } from "../state/store";
+import {
+  useStudioStore, MIN_LAYER_PARTICLES, MAX_LAYER_PARTICLES,
+  clampParticleCount, particleCountToSlider, sliderToParticleCount
+} from "../state/store";
 import { SliderRow } from "./ui/SliderRow";
 import { SwitchRow } from "./ui/SwitchRow";
 
@@ -19,11 +22,10 @@ const shapeOptions: { value: ParticleShape; label: string }[] = [
   { value: "square", label: "■ Square" },
   { value: "diamond", label: "◆ Diamond" },
   { value: "ring", label: "○ Ring" },
-  { value: "cross", label: "✚ Cross" }
+  { value: "cross", label: "✚ Cross" },
+  { value: "sprite", label: "✿ Sprite" }
 ];
 
-const MIN_PARTICLES = 50;
-const MAX_PARTICLES = 20000;
 
 export function LayerControls({ selected }: { selected?: LayerConfig }) {
   const layers = useStudioStore((s) => s.layers);
@@ -101,23 +103,20 @@ export function LayerControls({ selected }: { selected?: LayerConfig }) {
             <input
               type="range"
               style={{ flex: 1 }}
-              min={MIN_PARTICLES}
-              max={MAX_PARTICLES}
-              step={50}
-              value={layer.particleCount}
-              onChange={(e) => setLayer(layer.id, { particleCount: Number(e.target.value) })}
+              min={0}
+              max={1000}
+              step={1}
+              value={particleCountToSlider(layer.particleCount)}
+              onChange={(e) => setLayer(layer.id, { particleCount: sliderToParticleCount(Number(e.target.value)) })}
             />
             <input
               type="number"
               className="input"
-              style={{ width: 70 }}
-              min={MIN_PARTICLES}
-              max={MAX_PARTICLES}
+              style={{ width: 80 }}
+              min={MIN_LAYER_PARTICLES}
+              max={MAX_LAYER_PARTICLES}
               value={layer.particleCount}
-              onChange={(e) => {
-                const val = Math.max(MIN_PARTICLES, Math.min(MAX_PARTICLES, Number(e.target.value) || MIN_PARTICLES));
-                setLayer(layer.id, { particleCount: val });
-              }}
+              onChange={(e) => setLayer(layer.id, { particleCount: clampParticleCount(Number(e.target.value)) })}
             />
           </div>
         </div>
@@ -126,7 +125,7 @@ export function LayerControls({ selected }: { selected?: LayerConfig }) {
 
         <div className="cardTitle">
           <span>Mask (BW)</span>
-          <span className="value">{layer.maskUrl ? "Loaded" : "None"}</span>
+          <span className="value">{layer.maskText?.enabled ? "Text" : layer.maskUrl ? "Loaded" : "None"}</span>
         </div>
         <div className="small" style={{ marginBottom: 8 }}>
           Black = inside boundary, white = outside.
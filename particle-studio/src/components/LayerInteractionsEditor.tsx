@@ -0,0 +1,117 @@
+import { useMemo } from "react";
+import { useStudioStore } from "../state/store";
+import { SliderRow } from "./ui/SliderRow";
+import type { LayerInteraction } from "../state/types";
+
+// Matches MAX_LAYER_INTERACTIONS in the engine
+const MAX_INTERACTIONS = 4;
+
+export function LayerInteractionsEditor() {
+  const layers = useStudioStore((s) => s.layers);
+  const selectedLayerId = useStudioStore((s) => s.selectedLayerId);
+  const setLayer = useStudioStore((s) => s.setLayer);
+
+  const layer = useMemo(
+    () => layers.find((l) => l.id === selectedLayerId),
+    [layers, selectedLayerId]
+  );
+
+  if (!layer) return null;
+
+  // Layers imported from older exports have no interactions yet
+  const interactions = layer.interactions ?? [];
+  const others = layers.filter((l) => l.id !== layer.id);
+
+  const addInteraction = () => {
+    if (others.length === 0) return;
+    const next: LayerInteraction = { targetLayerId: others[0].id, strength: 0.3, radius: 0.08 };
+    setLayer(layer.id, { interactions: [...interactions, next] });
+  };
+
+  const updateInteraction = (index: number, updates: Partial<LayerInteraction>) => {
+    setLayer(layer.id, {
+      interactions: interactions.map((it, i) => (i === index ? { ...it, ...updates } : it))
+    });
+  };
+
+  const removeInteraction = (index: number) => {
+    setLayer(layer.id, { interactions: interactions.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="section">
+      <h3 className="sectionTitle">
+        Layer Interactions
+        <button
+          className="btn btnSm btnPrimary"
+          style={{ marginLeft: "auto" }}
+          onClick={addInteraction}
+          disabled={others.length === 0 || interactions.length >= MAX_INTERACTIONS}
+        >
+          + Add
+        </button>
+      </h3>
+
+      <div className="small" style={{ marginBottom: 8 }}>
+        React to another layer's particles. Negative strength treats them as an obstacle.
+      </div>
+
+      {interactions.length === 0 ? (
+        <div className="small" style={{ opacity: 0.7, padding: "8px 0" }}>
+          {others.length === 0 ? "Add another layer to interact with." : "This layer ignores other layers."}
+        </div>
+      ) : (
+        interactions.map((interaction, index) => {
+          const exists = others.some((l) => l.id === interaction.targetLayerId);
+          return (
+            <div
+              key={index}
+              style={{
+                marginBottom: 12,
+                padding: 8,
+                background: "rgba(255,255,255,0.05)",
+                borderRadius: "var(--radius-sm)",
+                border: "1px solid var(--stroke)"
+              }}
+            >
+              <div className="row">
+                <select
+                  className="select inputSm"
+                  style={{ flex: 1 }}
+                  value={exists ? interaction.targetLayerId : ""}
+                  onChange={(e) => updateInteraction(index, { targetLayerId: e.target.value })}
+                >
+                  {!exists && <option value="">(missing layer)</option>}
+                  {others.map((l) => (
+                    <option key={l.id} value={l.id}>{l.name}</option>
+                  ))}
+                </select>
+                <button className="btn btnSm btnDanger" onClick={() => removeInteraction(index)}>
+                  ✕
+                </button>
+              </div>
+              <SliderRow
+                label="Strength"
+                value={interaction.strength}
+                min={-1}
+                max={1}
+                step={0.01}
+                onChange={(v) => updateInteraction(index, { strength: v })}
+                tooltip="Positive = drawn toward that layer, negative = pushed away"
+              />
+              <SliderRow
+                label="Radius"
+                value={interaction.radius}
+                min={0.01}
+                max={0.3}
+                step={0.005}
+                onChange={(v) => updateInteraction(index, { radius: v })}
+                tooltip="How far away this layer feels the other one"
+              />
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
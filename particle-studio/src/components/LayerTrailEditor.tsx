@@ -0,0 +1,105 @@
+import { useMemo } from "react";
+import { useStudioStore } from "../state/store";
+import { SliderRow } from "./ui/SliderRow";
+import { SwitchRow } from "./ui/SwitchRow";
+import type { LayerTrailConfig } from "../state/types";
+
+// Layers imported from older exports have no trail config yet
+const fallbackTrail: LayerTrailConfig = {
+  enabled: false,
+  clearRate: 0.1,
+  fadeTint: "#ffffff",
+  feedbackZoom: 0,
+  feedbackRotation: 0,
+  feedbackDriftX: 0,
+  feedbackDriftY: 0
+};
+
+export function LayerTrailEditor() {
+  const layers = useStudioStore((s) => s.layers);
+  const selectedLayerId = useStudioStore((s) => s.selectedLayerId);
+  const setLayer = useStudioStore((s) => s.setLayer);
+
+  const layer = useMemo(
+    () => layers.find((l) => l.id === selectedLayerId),
+    [layers, selectedLayerId]
+  );
+
+  if (!layer) return null;
+
+  const trail = layer.trail ?? fallbackTrail;
+  const update = (updates: Partial<LayerTrailConfig>) => {
+    setLayer(layer.id, { trail: { ...trail, ...updates } });
+  };
+
+  return (
+    <>
+      <SwitchRow
+        label="Own trail buffer"
+        checked={trail.enabled}
+        onCheckedChange={(b) => update({ enabled: b })}
+        tooltip="Accumulate this layer separately instead of relying on the global clear rate"
+      />
+
+      {trail.enabled ? (
+        <>
+          <SliderRow
+            label="Clear rate"
+            value={trail.clearRate}
+            min={0}
+            max={1}
+            step={0.01}
+            onChange={(v) => update({ clearRate: v })}
+            tooltip="1 = no trail, lower values keep trails longer"
+          />
+          <div className="row">
+            <span className="rowLabel">Fade tint</span>
+            <input
+              type="color"
+              className="colorInput"
+              value={trail.fadeTint}
+              onChange={(e) => update({ fadeTint: e.target.value })}
+            />
+          </div>
+          <SliderRow
+            label="Feedback zoom"
+            value={trail.feedbackZoom}
+            min={-0.05}
+            max={0.05}
+            step={0.001}
+            onChange={(v) => update({ feedbackZoom: v })}
+          />
+          <SliderRow
+            label="Feedback rotation"
+            value={trail.feedbackRotation}
+            min={-5}
+            max={5}
+            step={0.1}
+            onChange={(v) => update({ feedbackRotation: v })}
+            tooltip="Degrees per frame"
+          />
+          <SliderRow
+            label="Drift X"
+            value={trail.feedbackDriftX}
+            min={-0.01}
+            max={0.01}
+            step={0.0005}
+            onChange={(v) => update({ feedbackDriftX: v })}
+          />
+          <SliderRow
+            label="Drift Y"
+            value={trail.feedbackDriftY}
+            min={-0.01}
+            max={0.01}
+            step={0.0005}
+            onChange={(v) => update({ feedbackDriftY: v })}
+          />
+        </>
+      ) : (
+        <div className="small" style={{ opacity: 0.7 }}>
+          Trails follow the global clear rate.
+        </div>
+      )}
+    </>
+  );
+}
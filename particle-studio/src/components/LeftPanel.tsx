@@ -1,15 +1,27 @@
 import { useState, useMemo, useRef } from "react";
-import { useStudioStore } from "../state/store";
-import type { LayerConfig, ParticleType } from "../state/types";
+import {
+  useStudioStore, MIN_LAYER_PARTICLES, MAX_LAYER_PARTICLES, BYTES_PER_PARTICLE,
+  clampParticleCount, particleCountToSlider, sliderToParticleCount, defaultLiquidConfig,
+  defaultGranularConfig
+} from "../state/store";
+import type { GranularConfig, LayerConfig, LiquidConfig, ParticleType } from "../state/types";
 import { SliderRow } from "./ui/SliderRow";
 import { SwitchRow } from "./ui/SwitchRow";
 import { LayerTabs } from "./LayerTabs";
 import { AddLayerModal } from "./AddLayerModal";
 import { MaskEditor } from "./MaskEditor";
 import { MaskEraser } from "./MaskEraser";
+import { MaskTextEditor } from "./MaskTextEditor";
 import { FlowPathEditor } from "./FlowPathEditor";
 import { AttractionPointsEditor } from "./AttractionPointsEditor";
+import { LayerInteractionsEditor } from "./LayerInteractionsEditor";
+import { SubEmitterEditor } from "./SubEmitterEditor";
+import { ColorRegionEditor } from "./ColorRegionEditor";
+import { SpawnRegionEditor } from "./SpawnRegionEditor";
+import { ImageSeedEditor } from "./ImageSeedEditor";
+import { MorphTargetsEditor } from "./MorphTargetsEditor";
 import { exportLayerSettings, importLayerSettings } from "../engine/LayerExporter";
+import { reducedEvadeRadius } from "../engine/ParticleEngine";
 
 const typeOptions: { value: ParticleType; label: string; desc: string }[] = [
   { value: "sand", label: "Sand", desc: "Heavy, resists wind, clings to surfaces" },
@@ -17,11 +29,9 @@ const typeOptions: { value: ParticleType; label: string; desc: string }[] = [
   { value: "sparks", label: "Sparks", desc: "Light, rises, erratic motion" },
   { value: "ink", label: "Ink", desc: "Medium weight, follows flow field" },
   { value: "crumbs", label: "Crumbs", desc: "Variable size, breaks on collision" },
-  { value: "liquid", label: "Liquid", desc: "Droplets with cohesion, pools" }
+  { value: "liquid", label: "Liquid", desc: "Fluid with pressure, viscosity, surface tension" }
 ];
 
-const MIN_PARTICLES = 50;
-const MAX_PARTICLES = 20000;
 
 export function LeftPanel() {
   const layers = useStudioStore((s) => s.layers);
@@ -31,6 +41,7 @@ export function LeftPanel() {
   const setGlobal = useStudioStore((s) => s.setGlobal);
   const requestResetAll = useStudioStore((s) => s.requestResetAll);
   const importLayer = useStudioStore((s) => s.importLayer);
+  const floatBlend = useStudioStore((s) => s.floatBlend);
 
   const [addModalOpen, setAddModalOpen] = useState(false);
   const importInputRef = useRef<HTMLInputElement>(null);
@@ -40,14 +51,33 @@ export function LeftPanel() {
     [layers, selectedLayerId]
   );
 
+  // Layers imported from older exports have no liquid config yet
+  const liquid = layer?.liquidConfig ?? defaultLiquidConfig();
+  const updateLiquid = (updates: Partial<LiquidConfig>) => {
+    if (layer) setLayer(layer.id, { liquidConfig: { ...liquid, ...updates } });
+  };
+  const granular = layer?.granularConfig ?? defaultGranularConfig();
+  const updateGranular = (updates: Partial<GranularConfig>) => {
+    if (layer) setLayer(layer.id, { granularConfig: { ...granular, ...updates } });
+  };
+
+  // Enabled layers count towards the particle budget
+  const totalParticles = layers.reduce((sum, l) => sum + (l.enabled ? l.particleCount : 0), 0);
+  const overBudget = totalParticles > global.particleBudget;
+
+  // Without float blending the engine narrows evade on crowded layers
+  const evadeLimit = layer ? reducedEvadeRadius(layer, floatBlend) : null;
+
   // Handle layer settings import
   const handleImportLayerSettings = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
     
     try {
-      const settings = await importLayerSettings(file);
+      const { settings, seed } = await importLayerSettings(file);
       importLayer(settings);
+      // Restore the seed the layer was exported with so it replays the same way
+      if (seed !== undefined) setGlobal({ seed });
     } catch (err) {
       alert(`Failed to import layer settings: ${err instanceof Error ? err.message : String(err)}`);
     }
@@ -102,7 +132,7 @@ export function LeftPanel() {
             <button
               className="btn btnSm"
               style={{ flex: 1, opacity: layer ? 1 : 0.5, cursor: layer ? "pointer" : "not-allowed" }}
-              onClick={() => layer && exportLayerSettings(layer)}
+              onClick={() => layer && exportLayerSettings(layer, global.seed)}
             >
               📤 Export Settings
             </button>
@@ -169,28 +199,48 @@ export function LeftPanel() {
                   <input
                     type="number"
                     className="input inputSm"
-                    style={{ width: 80 }}
-                    min={MIN_PARTICLES}
-                    max={MAX_PARTICLES}
+                    style={{ width: 90 }}
+                    min={MIN_LAYER_PARTICLES}
+                    max={MAX_LAYER_PARTICLES}
                     value={layer.particleCount}
-                    onChange={(e) => {
-                      const val = Math.max(MIN_PARTICLES, Math.min(MAX_PARTICLES, Number(e.target.value) || MIN_PARTICLES));
-                      setLayer(layer.id, { particleCount: val });
-                    }}
+                    onChange={(e) => setLayer(layer.id, { particleCount: clampParticleCount(Number(e.target.value)) })}
                   />
                 </div>
                 <input
                   type="range"
                   style={{ width: "100%", marginTop: 4 }}
-                  min={MIN_PARTICLES}
-                  max={MAX_PARTICLES}
-                  step={50}
-                  value={layer.particleCount}
-                  onChange={(e) => setLayer(layer.id, { particleCount: Number(e.target.value) })}
+                  min={0}
+                  max={1000}
+                  step={1}
+                  value={particleCountToSlider(layer.particleCount)}
+                  onChange={(e) => setLayer(layer.id, { particleCount: sliderToParticleCount(Number(e.target.value)) })}
                 />
                 <div className="small" style={{ marginTop: 4, opacity: 0.7 }}>
                   {layer.particleCount.toLocaleString()} particles
                 </div>
+
+                {/* Budget across all layers */}
+                <div className="row" style={{ marginTop: 8 }}>
+                  <span className="rowLabel small">Budget (all layers)</span>
+                  <input
+                    type="number"
+                    className="input inputSm"
+                    style={{ width: 90 }}
+                    min={MIN_LAYER_PARTICLES}
+                    step={10000}
+                    value={global.particleBudget}
+                    onChange={(e) => setGlobal({ particleBudget: Math.max(MIN_LAYER_PARTICLES, Number(e.target.value) || 0) })}
+                  />
+                </div>
+                <div
+                  className="small"
+                  style={{ color: overBudget ? "var(--warning)" : undefined, opacity: overBudget ? 1 : 0.7 }}
+                >
+                  {overBudget && "⚠ "}
+                  {totalParticles.toLocaleString()} / {global.particleBudget.toLocaleString()} particles,
+                  ≈{Math.round((totalParticles * BYTES_PER_PARTICLE) / (1024 * 1024))} MB GPU state
+                  {overBudget && " (may drop frames)"}
+                </div>
               </div>
             </>
           )}
@@ -253,6 +303,26 @@ export function LeftPanel() {
                 step={0.01}
                 onChange={(v) => setLayer(layer.id, { decayRate: v })}
               />
+              <SliderRow
+                label="Lifetime"
+                value={layer.lifetime ?? 0}
+                min={0}
+                max={20}
+                step={0.1}
+                onChange={(v) => setLayer(layer.id, { lifetime: v })}
+                tooltip="Seconds before a particle dies and respawns (0 = unlimited)"
+              />
+              {(layer.lifetime ?? 0) > 0 && (
+                <SliderRow
+                  label="Lifetime jitter"
+                  value={layer.lifetimeJitter ?? 0}
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  onChange={(v) => setLayer(layer.id, { lifetimeJitter: v })}
+                  tooltip="Random variation in lifetime between particles"
+                />
+              )}
             </div>
 
             <div className="hr" />
@@ -312,6 +382,103 @@ export function LeftPanel() {
 
             <div className="hr" />
 
+            {/* Liquid (SPH) */}
+            {layer.type === "liquid" && (
+              <>
+                <div className="section">
+                  <h3 className="sectionTitle">Liquid</h3>
+                  <div className="small" style={{ marginBottom: 8 }}>
+                    Particles push apart when crowded, share velocity and pull their surface inward.
+                  </div>
+                  <SliderRow
+                    label="Rest density"
+                    value={liquid.restDensity}
+                    min={0.5}
+                    max={10}
+                    step={0.1}
+                    onChange={(v) => updateLiquid({ restDensity: v })}
+                    tooltip="Density the fluid settles at; higher packs particles tighter"
+                  />
+                  <SliderRow
+                    label="Viscosity"
+                    value={liquid.viscosity}
+                    min={0}
+                    max={1}
+                    step={0.01}
+                    onChange={(v) => updateLiquid({ viscosity: v })}
+                    tooltip="0 = water, 1 = honey"
+                  />
+                  <SliderRow
+                    label="Stiffness"
+                    value={liquid.stiffness}
+                    min={0.1}
+                    max={5}
+                    step={0.1}
+                    onChange={(v) => updateLiquid({ stiffness: v })}
+                    tooltip="How hard compressed fluid pushes back"
+                  />
+                  <SliderRow
+                    label="Surface tension"
+                    value={liquid.surfaceTension}
+                    min={0}
+                    max={2}
+                    step={0.01}
+                    onChange={(v) => updateLiquid({ surfaceTension: v })}
+                    tooltip="Pulls droplets and pool edges together"
+                  />
+                </div>
+
+                <div className="hr" />
+              </>
+            )}
+
+            {layer.type === "sand" && (
+              <>
+                <div className="section">
+                  <h3 className="sectionTitle">Granular</h3>
+                  <SwitchRow
+                    label="Stack into piles"
+                    checked={granular.enabled}
+                    onCheckedChange={(b) => updateGranular({ enabled: b })}
+                    tooltip="Grains occupy cells and settle on the mask, ground plane and closed canvas edges"
+                  />
+                  {granular.enabled && (
+                    <>
+                      <SliderRow
+                        label="Angle of repose"
+                        value={granular.reposeAngle}
+                        min={20}
+                        max={70}
+                        step={1}
+                        onChange={(v) => updateGranular({ reposeAngle: v })}
+                        tooltip="Steepest slope a pile holds before it avalanches (degrees)"
+                      />
+                      <SliderRow
+                        label="Grain grid"
+                        value={granular.gridSize}
+                        min={64}
+                        max={512}
+                        step={32}
+                        onChange={(v) => updateGranular({ gridSize: v })}
+                        tooltip="Cells per side; more cells = finer grains and taller piles"
+                      />
+                      <SliderRow
+                        label="Grains per cell"
+                        value={granular.capacity}
+                        min={1}
+                        max={4}
+                        step={1}
+                        onChange={(v) => updateGranular({ capacity: v })}
+                        tooltip="Use more when the particle count is high for the grid"
+                      />
+                    </>
+                  )}
+                </div>
+
+                <div className="hr" />
+              </>
+            )}
+
             {/* Wind */}
             <div className="section">
               <h3 className="sectionTitle">Wind</h3>
@@ -413,6 +580,16 @@ export function LeftPanel() {
 
             <div className="hr" />
 
+            {/* Other layers as attractors / obstacles */}
+            <LayerInteractionsEditor />
+
+            <div className="hr" />
+
+            {/* Spawn into other layers on particle events */}
+            <SubEmitterEditor />
+
+            <div className="hr" />
+
             {/* Spawn Region */}
             <div className="section">
               <h3 className="sectionTitle">Spawn Region</h3>
@@ -441,8 +618,10 @@ export function LeftPanel() {
                   <option value="centerBurst">Center Burst</option>
                   <option value="mask">Within Mask</option>
                   <option value="maskEdge">Mask Edge</option>
+                  <option value="custom">Custom (Painted)</option>
                 </select>
               </div>
+              {layer.spawnConfig?.region === "custom" && <SpawnRegionEditor />}
               {(layer.spawnConfig?.region?.includes("offCanvas") || layer.spawnConfig?.region?.includes("Edge")) && (
                 <>
                   <SliderRow
@@ -483,6 +662,16 @@ export function LeftPanel() {
 
             <div className="hr" />
 
+            {/* Initial positions from a picture */}
+            <ImageSeedEditor />
+
+            <div className="hr" />
+
+            {/* Shapes the particles travel between */}
+            <MorphTargetsEditor />
+
+            <div className="hr" />
+
             {/* Movement Pattern */}
             <div className="section">
               <h3 className="sectionTitle">Movement Pattern</h3>
@@ -710,6 +899,12 @@ export function LeftPanel() {
                       setLayer(layer.id, { movementConfig: { ...layer.movementConfig, evadeRadius: v } })
                     }
                   />
+                  {evadeLimit !== null && (
+                    <div className="small" style={{ opacity: 0.7, marginBottom: 8 }}>
+                      This GPU limits the radius to {evadeLimit.toFixed(3)} at this particle count, to keep
+                      neighbour counts accurate.
+                    </div>
+                  )}
                 </>
               )}
               {layer.movementConfig?.pattern === "clusters" && (
@@ -785,6 +980,16 @@ export function LeftPanel() {
                   <option value="slowBounce">Slow Bounce</option>
                 </select>
               </div>
+              {layer.boundaryMode === "stick" && (
+                <div className="small" style={{ marginBottom: 8 }}>
+                  Particles stay pinned to the edge until they decay (Decay rate).
+                </div>
+              )}
+              {layer.boundaryMode === "destroy" && (
+                <div className="small" style={{ marginBottom: 8 }}>
+                  Destroyed particles only come back through Spawn density.
+                </div>
+              )}
               <SliderRow
                 label="Bounce"
                 value={layer.boundaryBounce}
@@ -826,6 +1031,8 @@ export function LeftPanel() {
                     </button>
                   </div>
 
+                  <MaskTextEditor />
+
                   <SwitchRow
                     label="Show mask (red overlay)"
                     checked={layer.showMask ?? false}
@@ -833,24 +1040,149 @@ export function LeftPanel() {
                   />
 
                   <div className="row">
-                    <span className="rowLabel">Mask mode</span>
+                    <span className="rowLabel">Behavior</span>
                     <select
                       className="select inputSm"
                       style={{ width: 140 }}
-                      value={layer.maskMode ?? "collision"}
+                      value={layer.maskBehavior ?? "containment"}
                       onChange={(e) =>
                         setLayer(layer.id, {
-                          maskMode: e.target.value as LayerConfig["maskMode"]
+                          maskBehavior: e.target.value as LayerConfig["maskBehavior"]
                         })
                       }
                     >
-                      <option value="ignore">Ignore (pass through)</option>
-                      <option value="visibility">Visibility only</option>
-                      <option value="collision">Collision (bounce)</option>
-                      <option value="accumulate">Accumulate (stick)</option>
+                      <option value="containment">Containment</option>
+                      <option value="borderEffect">Border effect</option>
+                      <option value="colorRegions">Color regions</option>
+                      <option value="pathing">Pathing (follow contours)</option>
                     </select>
                   </div>
 
+                  {(layer.maskBehavior ?? "containment") === "containment" && (
+                    <div className="row">
+                      <span className="rowLabel">Mask mode</span>
+                      <select
+                        className="select inputSm"
+                        style={{ width: 140 }}
+                        value={layer.maskMode ?? "collision"}
+                        onChange={(e) =>
+                          setLayer(layer.id, {
+                            maskMode: e.target.value as LayerConfig["maskMode"]
+                          })
+                        }
+                      >
+                        <option value="ignore">Ignore (pass through)</option>
+                        <option value="visibility">Visibility only</option>
+                        <option value="collision">Collision (bounce)</option>
+                        <option value="accumulate">Accumulate (stick)</option>
+                      </select>
+                    </div>
+                  )}
+
+                  {(layer.maskBehavior === "borderEffect" || layer.maskBehavior === "colorRegions") && (
+                    <>
+                      <div className="row">
+                        <span className="rowLabel">Border effect</span>
+                        <select
+                          className="select inputSm"
+                          style={{ width: 140 }}
+                          value={layer.borderEffectConfig?.effect ?? "deflect"}
+                          onChange={(e) =>
+                            setLayer(layer.id, {
+                              borderEffectConfig: {
+                                ...layer.borderEffectConfig,
+                                effect: e.target.value as LayerConfig["borderEffectConfig"]["effect"]
+                              }
+                            })
+                          }
+                        >
+                          <option value="deflect">Deflect</option>
+                          <option value="smear">Smear</option>
+                          <option value="absorb">Absorb</option>
+                          <option value="repel">Repel</option>
+                          <option value="transform">Transform color</option>
+                          <option value="fragment">Fragment</option>
+                          <option value="passThrough">Pass through</option>
+                        </select>
+                      </div>
+                      {layer.maskBehavior === "colorRegions" && (
+                        <div className="small" style={{ marginBottom: 8 }}>
+                          Applied where the mask color changes, unless a region below sets its own.
+                        </div>
+                      )}
+                    </>
+                  )}
+
+                  {layer.maskBehavior && layer.maskBehavior !== "containment" && (
+                    <SliderRow
+                      label={layer.maskBehavior === "pathing" ? "Path follow" : "Effect strength"}
+                      value={layer.borderEffectConfig?.strength ?? 0.5}
+                      min={0}
+                      max={1}
+                      step={0.01}
+                      onChange={(v) =>
+                        setLayer(layer.id, { borderEffectConfig: { ...layer.borderEffectConfig, strength: v } })
+                      }
+                    />
+                  )}
+
+                  {(layer.maskBehavior === "borderEffect" || layer.maskBehavior === "colorRegions") && (
+                    <>
+                      {layer.borderEffectConfig?.effect === "transform" && (
+                        <div className="row">
+                          <span className="rowLabel">Transform color</span>
+                          <input
+                            type="color"
+                            className="colorInput"
+                            value={layer.borderEffectConfig?.transformColor ?? "#ffffff"}
+                            onChange={(e) =>
+                              setLayer(layer.id, {
+                                borderEffectConfig: { ...layer.borderEffectConfig, transformColor: e.target.value }
+                              })
+                            }
+                          />
+                        </div>
+                      )}
+                      {layer.borderEffectConfig?.effect === "fragment" && (
+                        <SliderRow
+                          label="Fragments"
+                          value={layer.borderEffectConfig?.fragmentCount ?? 3}
+                          min={2}
+                          max={8}
+                          step={1}
+                          onChange={(v) =>
+                            setLayer(layer.id, { borderEffectConfig: { ...layer.borderEffectConfig, fragmentCount: v } })
+                          }
+                        />
+                      )}
+                      {layer.borderEffectConfig?.effect === "smear" && (
+                        <SliderRow
+                          label="Smear length"
+                          value={layer.borderEffectConfig?.smearLength ?? 0.3}
+                          min={0}
+                          max={1}
+                          step={0.01}
+                          onChange={(v) =>
+                            setLayer(layer.id, { borderEffectConfig: { ...layer.borderEffectConfig, smearLength: v } })
+                          }
+                        />
+                      )}
+                    </>
+                  )}
+
+                  {layer.maskBehavior && layer.maskBehavior !== "containment" && (
+                    <SliderRow
+                      label="Velocity scale"
+                      value={layer.borderEffectConfig?.velocityScale ?? 1.0}
+                      min={0}
+                      max={2}
+                      step={0.01}
+                      onChange={(v) =>
+                        setLayer(layer.id, { borderEffectConfig: { ...layer.borderEffectConfig, velocityScale: v } })
+                      }
+                    />
+                  )}
+
                   <SwitchRow
                     label="Invert mask"
                     checked={layer.maskInvert}
@@ -894,6 +1226,9 @@ export function LeftPanel() {
                   />
                 </div>
 
+                {/* Per-region overrides for the color regions behavior */}
+                {layer.maskBehavior === "colorRegions" && <ColorRegionEditor />}
+
                 {/* Mask transform controls */}
                 <MaskEditor />
 
@@ -0,0 +1,71 @@
+import { useMemo } from "react";
+import { defaultLifeCurves, useStudioStore } from "../state/store";
+import { CurveEditor } from "./ui/CurveEditor";
+import { GradientEditor } from "./ui/GradientEditor";
+import type { LifeCurves } from "../state/types";
+
+export function LifeCurvesEditor() {
+  const layers = useStudioStore((s) => s.layers);
+  const selectedLayerId = useStudioStore((s) => s.selectedLayerId);
+  const setLayer = useStudioStore((s) => s.setLayer);
+
+  const layer = useMemo(
+    () => layers.find((l) => l.id === selectedLayerId),
+    [layers, selectedLayerId]
+  );
+
+  if (!layer) return null;
+
+  // Layers imported from older exports have no curves yet
+  const curves = layer.lifeCurves ?? defaultLifeCurves();
+  const update = (updates: Partial<LifeCurves>) => {
+    setLayer(layer.id, { lifeCurves: { ...curves, ...updates } });
+  };
+
+  return (
+    <>
+      {(layer.lifetime ?? 0) <= 0 && (
+        <div className="small" style={{ opacity: 0.7, marginBottom: 8 }}>
+          Set a lifetime under Lifecycle for these curves to take effect.
+        </div>
+      )}
+      <div className="small" style={{ marginBottom: 8 }}>
+        Click to add a point, drag to move it, double-click to remove it.
+      </div>
+
+      <CurveEditor
+        label="Size"
+        points={curves.size}
+        min={0}
+        max={3}
+        defaultValue={1}
+        onChange={(size) => update({ size })}
+        tooltip="Size multiplier from birth to death"
+      />
+      <CurveEditor
+        label="Brightness"
+        points={curves.brightness}
+        min={0}
+        max={2}
+        defaultValue={1}
+        onChange={(brightness) => update({ brightness })}
+        tooltip="Brightness multiplier from birth to death"
+      />
+      <CurveEditor
+        label="Speed"
+        points={curves.speed}
+        min={0}
+        max={3}
+        defaultValue={1}
+        onChange={(speed) => update({ speed })}
+        tooltip="Movement speed multiplier from birth to death"
+      />
+      <GradientEditor
+        label="Colour"
+        stops={curves.color}
+        onChange={(color) => update({ color })}
+        tooltip="Replaces the layer colour over the particle's life"
+      />
+    </>
+  );
+}
@@ -0,0 +1,158 @@
+import { useMemo } from "react";
+import { defaultMaskTextConfig, useStudioStore } from "../state/store";
+import { SliderRow } from "./ui/SliderRow";
+import { SwitchRow } from "./ui/SwitchRow";
+import type { MaskTextAlign, MaskTextConfig } from "../state/types";
+
+const alignOptions: { value: MaskTextAlign; label: string }[] = [
+  { value: "left", label: "Left" },
+  { value: "center", label: "Center" },
+  { value: "right", label: "Right" }
+];
+
+const fontSuggestions = ["sans-serif", "serif", "monospace", "Arial", "Helvetica", "Georgia", "Impact", "Courier New"];
+
+// Stored as a data URL so the font survives layer exports
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+export function MaskTextEditor() {
+  const layers = useStudioStore((s) => s.layers);
+  const selectedLayerId = useStudioStore((s) => s.selectedLayerId);
+  const setLayer = useStudioStore((s) => s.setLayer);
+
+  const layer = useMemo(
+    () => layers.find((l) => l.id === selectedLayerId),
+    [layers, selectedLayerId]
+  );
+
+  if (!layer) return null;
+
+  // Layers imported from older exports have no text mask yet
+  const text = layer.maskText ?? defaultMaskTextConfig();
+  const update = (updates: Partial<MaskTextConfig>) => {
+    setLayer(layer.id, { maskText: { ...text, ...updates } });
+  };
+
+  // The uploaded face is registered under its file name
+  const loadFont = async (file: File | undefined) => {
+    if (!file) return;
+    update({ fontUrl: await readAsDataUrl(file), fontFamily: file.name.replace(/\.[^.]+$/, "") });
+  };
+
+  return (
+    <>
+      <SwitchRow
+        label="Mask from text"
+        checked={text.enabled}
+        onCheckedChange={(enabled) => update({ enabled })}
+        tooltip="Render text as the mask instead of the uploaded image"
+      />
+
+      {text.enabled && (
+        <>
+          <textarea
+            className="input"
+            rows={2}
+            style={{ width: "100%", resize: "vertical", marginBottom: 6 }}
+            value={text.text}
+            onChange={(e) => update({ text: e.target.value })}
+          />
+          <div className="row">
+            <span className="rowLabel">Font</span>
+            <input
+              type="text"
+              className="input inputSm"
+              style={{ flex: 1 }}
+              list="mask-font-families"
+              value={text.fontFamily}
+              onChange={(e) => update({ fontFamily: e.target.value, fontUrl: undefined })}
+            />
+            <select
+              className="select inputSm"
+              style={{ width: 70 }}
+              value={text.fontWeight}
+              onChange={(e) => update({ fontWeight: Number(e.target.value) })}
+            >
+              {[100, 200, 300, 400, 500, 600, 700, 800, 900].map((w) => (
+                <option key={w} value={w}>{w}</option>
+              ))}
+            </select>
+          </div>
+          <datalist id="mask-font-families">
+            {fontSuggestions.map((f) => (
+              <option key={f} value={f} />
+            ))}
+          </datalist>
+          <div className="row" title="Use a font file (.ttf, .otf, .woff, .woff2)">
+            <span className="rowLabel">Upload font</span>
+            <input
+              key={layer.id}
+              type="file"
+              accept=".ttf,.otf,.woff,.woff2"
+              style={{ flex: 1 }}
+              onChange={(e) => {
+                void loadFont(e.target.files?.[0]);
+                e.target.value = "";
+              }}
+            />
+          </div>
+          {text.fontUrl && (
+            <div className="small" style={{ opacity: 0.7, marginBottom: 8 }}>
+              Using uploaded font "{text.fontFamily}". Typing another family name drops it.
+            </div>
+          )}
+
+          <SliderRow
+            label="Size"
+            value={text.fontSize}
+            min={0.02}
+            max={0.5}
+            step={0.005}
+            onChange={(fontSize) => update({ fontSize })}
+            tooltip="Font size as a share of the scene height"
+          />
+          <SliderRow
+            label="Letter spacing"
+            value={text.letterSpacing}
+            min={-0.2}
+            max={1}
+            step={0.01}
+            onChange={(letterSpacing) => update({ letterSpacing })}
+            tooltip="Extra space between characters, in em"
+          />
+          <SliderRow
+            label="Line height"
+            value={text.lineHeight}
+            min={0.8}
+            max={2}
+            step={0.05}
+            onChange={(lineHeight) => update({ lineHeight })}
+          />
+          <div className="row">
+            <span className="rowLabel">Align</span>
+            <div className="segmented" style={{ width: 160 }}>
+              {alignOptions.map((o) => (
+                <button
+                  key={o.value}
+                  className={text.align === o.value ? "active" : ""}
+                  onClick={() => update({ align: o.value })}
+                >
+                  {o.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="small" style={{ opacity: 0.7, marginBottom: 8 }}>
+            Text is drawn black on white; the transform, invert and threshold settings still apply.
+          </div>
+        </>
+      )}
+    </>
+  );
+}
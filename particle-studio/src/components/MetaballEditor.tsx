@@ -0,0 +1,71 @@
+import { useMemo } from "react";
+import { defaultMetaballConfig, useStudioStore } from "../state/store";
+import { SliderRow } from "./ui/SliderRow";
+import { SwitchRow } from "./ui/SwitchRow";
+import type { MetaballConfig } from "../state/types";
+
+export function MetaballEditor() {
+  const layers = useStudioStore((s) => s.layers);
+  const selectedLayerId = useStudioStore((s) => s.selectedLayerId);
+  const setLayer = useStudioStore((s) => s.setLayer);
+
+  const layer = useMemo(
+    () => layers.find((l) => l.id === selectedLayerId),
+    [layers, selectedLayerId]
+  );
+
+  if (!layer) return null;
+
+  // Layers imported from older exports have no metaball config yet
+  const cfg = layer.metaball ?? defaultMetaballConfig();
+  const update = (updates: Partial<MetaballConfig>) => {
+    setLayer(layer.id, { metaball: { ...cfg, ...updates } });
+  };
+
+  return (
+    <>
+      <SwitchRow
+        label="Render as surface"
+        checked={cfg.enabled}
+        onCheckedChange={(b) => update({ enabled: b })}
+        tooltip="Blend particles into one blobby surface instead of drawing each glyph"
+      />
+
+      {cfg.enabled ? (
+        <>
+          <SliderRow
+            label="Blob radius"
+            value={cfg.blobRadius}
+            min={4}
+            max={48}
+            step={1}
+            onChange={(v) => update({ blobRadius: v })}
+            tooltip="Pixels each particle spreads over; larger blobs merge sooner"
+          />
+          <SliderRow
+            label="Threshold"
+            value={cfg.threshold}
+            min={0.1}
+            max={3}
+            step={0.05}
+            onChange={(v) => update({ threshold: v })}
+            tooltip="Density where the surface starts; higher = thinner, more separated blobs"
+          />
+          <SliderRow
+            label="Edge shading"
+            value={cfg.edgeShading}
+            min={0}
+            max={1}
+            step={0.01}
+            onChange={(v) => update({ edgeShading: v })}
+            tooltip="0 = flat pools, 1 = glossy highlights and refraction"
+          />
+        </>
+      ) : (
+        <div className="small" style={{ opacity: 0.7 }}>
+          Particles draw as individual glyphs.
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,300 @@
+import { useMemo } from "react";
+import { defaultMorphConfig, useStudioStore } from "../state/store";
+import { SliderRow } from "./ui/SliderRow";
+import { SwitchRow } from "./ui/SwitchRow";
+import type { MorphConfig, MorphTarget, MorphTargetKind, MorphTrigger } from "../state/types";
+
+// Matches MAX_MORPH_TARGETS in the engine
+const MAX_MORPH_TARGETS = 8;
+
+const uid = () => Math.random().toString(36).slice(2, 10);
+
+const targetKinds: { value: MorphTargetKind; label: string }[] = [
+  { value: "text", label: "Text" },
+  { value: "image", label: "Image" },
+  { value: "svg", label: "SVG" }
+];
+
+const triggers: { value: MorphTrigger; label: string }[] = [
+  { value: "time", label: "Time" },
+  { value: "beat", label: "Beat" },
+  { value: "key", label: "Key" }
+];
+
+const fontSuggestions = ["sans-serif", "serif", "monospace", "Arial", "Helvetica", "Georgia", "Impact", "Courier New"];
+
+// Keys the studio already uses for shortcuts
+const reservedKeys = new Set([" ", "r", "s", "h"]);
+
+// Stored as a data URL so the picture survives layer and HTML scene exports
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+export function MorphTargetsEditor() {
+  const layers = useStudioStore((s) => s.layers);
+  const selectedLayerId = useStudioStore((s) => s.selectedLayerId);
+  const setLayer = useStudioStore((s) => s.setLayer);
+
+  const layer = useMemo(
+    () => layers.find((l) => l.id === selectedLayerId),
+    [layers, selectedLayerId]
+  );
+
+  if (!layer) return null;
+
+  // Layers imported from older exports have no morph targets yet
+  const morph = layer.morph ?? defaultMorphConfig();
+  const targets = morph.targets;
+  const update = (updates: Partial<MorphConfig>) => {
+    setLayer(layer.id, { morph: { ...morph, ...updates } });
+  };
+
+  const addTarget = () => {
+    const next: MorphTarget = {
+      id: uid(),
+      kind: "text",
+      url: undefined,
+      invert: false,
+      text: "Hello",
+      fontFamily: "sans-serif",
+      fontWeight: 700
+    };
+    update({ targets: [...targets, next] });
+  };
+
+  const updateTarget = (index: number, updates: Partial<MorphTarget>) => {
+    update({ targets: targets.map((t, i) => (i === index ? { ...t, ...updates } : t)) });
+  };
+
+  const moveTarget = (index: number) => {
+    const next = [...targets];
+    [next[index - 1], next[index]] = [next[index], next[index - 1]];
+    update({ targets: next });
+  };
+
+  const loadFile = async (index: number, file: File | undefined) => {
+    if (!file) return;
+    updateTarget(index, { url: await readAsDataUrl(file) });
+  };
+
+  return (
+    <div className="section">
+      <h3 className="sectionTitle">
+        Morph Targets
+        <button
+          className="btn btnSm btnPrimary"
+          style={{ marginLeft: "auto" }}
+          onClick={addTarget}
+          disabled={targets.length >= MAX_MORPH_TARGETS}
+        >
+          + Add
+        </button>
+      </h3>
+
+      <SwitchRow
+        label="Enabled"
+        checked={morph.enabled}
+        onCheckedChange={(enabled) => update({ enabled })}
+        tooltip="Particles travel to each target in turn and hold its shape"
+      />
+
+      {targets.length === 0 ? (
+        <div className="small" style={{ opacity: 0.7, padding: "8px 0" }}>
+          No targets. Add text, an image or an SVG for the particles to form.
+        </div>
+      ) : (
+        targets.map((target, index) => (
+          <div
+            key={target.id}
+            style={{
+              marginBottom: 12,
+              padding: 8,
+              background: "rgba(255,255,255,0.05)",
+              borderRadius: "var(--radius-sm)",
+              border: "1px solid var(--stroke)"
+            }}
+          >
+            <div className="row">
+              <span className="rowLabel small">#{index + 1}</span>
+              <select
+                className="select inputSm"
+                style={{ flex: 1 }}
+                value={target.kind}
+                onChange={(e) => updateTarget(index, { kind: e.target.value as MorphTargetKind, url: undefined })}
+              >
+                {targetKinds.map((k) => (
+                  <option key={k.value} value={k.value}>{k.label}</option>
+                ))}
+              </select>
+              <button
+                className="btn btnSm"
+                title="Form this target earlier"
+                disabled={index === 0}
+                onClick={() => moveTarget(index)}
+              >
+                ↑
+              </button>
+              <button
+                className="btn btnSm btnDanger"
+                onClick={() => update({ targets: targets.filter((_, i) => i !== index) })}
+              >
+                ✕
+              </button>
+            </div>
+
+            {target.kind === "text" ? (
+              <>
+                <textarea
+                  className="input"
+                  rows={2}
+                  style={{ width: "100%", resize: "vertical", marginBottom: 6 }}
+                  value={target.text}
+                  onChange={(e) => updateTarget(index, { text: e.target.value })}
+                />
+                <div className="row">
+                  <span className="rowLabel small">Font</span>
+                  <input
+                    type="text"
+                    className="input inputSm"
+                    style={{ flex: 1 }}
+                    list="morph-font-families"
+                    value={target.fontFamily}
+                    onChange={(e) => updateTarget(index, { fontFamily: e.target.value })}
+                  />
+                  <select
+                    className="select inputSm"
+                    style={{ width: 70 }}
+                    value={target.fontWeight}
+                    onChange={(e) => updateTarget(index, { fontWeight: Number(e.target.value) })}
+                  >
+                    {[100, 200, 300, 400, 500, 600, 700, 800, 900].map((w) => (
+                      <option key={w} value={w}>{w}</option>
+                    ))}
+                  </select>
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="row">
+                  <input
+                    type="file"
+                    accept={target.kind === "svg" ? "image/svg+xml" : "image/*"}
+                    style={{ flex: 1 }}
+                    onChange={(e) => {
+                      void loadFile(index, e.target.files?.[0]);
+                      e.target.value = "";
+                    }}
+                  />
+                </div>
+                {target.url && (
+                  <img
+                    src={target.url}
+                    alt={`Target ${index + 1}`}
+                    style={{
+                      width: 64,
+                      height: 64,
+                      objectFit: "contain",
+                      background: "#222",
+                      borderRadius: "var(--radius-sm)",
+                      margin: "6px 0"
+                    }}
+                  />
+                )}
+                <SwitchRow
+                  label="Invert"
+                  checked={target.invert}
+                  onCheckedChange={(invert) => updateTarget(index, { invert })}
+                  tooltip="Form from dark pixels instead of bright ones (dark logos on white)"
+                />
+              </>
+            )}
+          </div>
+        ))
+      )}
+      <datalist id="morph-font-families">
+        {fontSuggestions.map((f) => (
+          <option key={f} value={f} />
+        ))}
+      </datalist>
+
+      <div className="row" title="What moves the particles on to the next target">
+        <span className="rowLabel">Next on</span>
+        <div className="segmented" style={{ width: 160 }}>
+          {triggers.map((t) => (
+            <button
+              key={t.value}
+              className={morph.trigger === t.value ? "active" : ""}
+              onClick={() => update({ trigger: t.value })}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      {morph.trigger === "time" && (
+        <SliderRow
+          label="Seconds per target"
+          value={morph.interval}
+          min={0.5}
+          max={20}
+          step={0.1}
+          onChange={(interval) => update({ interval })}
+        />
+      )}
+      {morph.trigger === "beat" && (
+        <div className="small" style={{ opacity: 0.7, marginBottom: 8 }}>
+          Advances on each beat of the playing audio.
+        </div>
+      )}
+      {morph.trigger === "key" && (
+        <>
+          <div className="row">
+            <span className="rowLabel">Key</span>
+            <input
+              type="text"
+              className="input inputSm"
+              style={{ width: 60 }}
+              title="Press the key to use"
+              readOnly
+              value={morph.key === " " ? "Space" : morph.key}
+              onKeyDown={(e) => {
+                if (e.key.length !== 1) return;
+                e.preventDefault();
+                update({ key: e.key.toLowerCase() });
+              }}
+            />
+          </div>
+          {reservedKeys.has(morph.key) && (
+            <div className="small" style={{ opacity: 0.7, marginBottom: 8 }}>
+              This key is also a studio shortcut.
+            </div>
+          )}
+        </>
+      )}
+
+      <SliderRow
+        label="Spring"
+        value={morph.strength}
+        min={0}
+        max={1}
+        step={0.01}
+        onChange={(strength) => update({ strength })}
+        tooltip="How hard particles are pulled toward the target"
+      />
+      <SliderRow
+        label="Damping"
+        value={morph.damping}
+        min={0}
+        max={1}
+        step={0.01}
+        onChange={(damping) => update({ damping })}
+        tooltip="Higher values settle without overshooting"
+      />
+    </div>
+  );
+}
@@ -1,10 +1,17 @@
 import { useMemo, useState, useCallback } from "react";
-import { useStudioStore } from "../state/store";
-import type { ParticleShape, ColorMode, ColorScheme, ResolutionPreset } from "../state/types";
+import { defaultColorGradient, useStudioStore } from "../state/store";
+import type { ParticleShape, ColorMode, ColorScheme, ColorPositionAxis, ResolutionPreset, BlendMode } from "../state/types";
 import { SliderRow } from "./ui/SliderRow";
 import { SwitchRow } from "./ui/SwitchRow";
 import { AudioControls } from "./AudioControls";
 import { AudioMappingEditor } from "./AudioMappingEditor";
+import { GlyphPaletteEditor } from "./GlyphPaletteEditor";
+import { SpriteAtlasEditor } from "./SpriteAtlasEditor";
+import { LayerTrailEditor } from "./LayerTrailEditor";
+import { MetaballEditor } from "./MetaballEditor";
+import { LifeCurvesEditor } from "./LifeCurvesEditor";
+import { GradientEditor } from "./ui/GradientEditor";
+import { ColorImageEditor } from "./ColorImageEditor";
 import type { AudioAnalysisData } from "../engine/AudioEngine";
 
 const shapeOptions: { value: ParticleShape; label: string }[] = [
@@ -15,14 +22,40 @@ const shapeOptions: { value: ParticleShape; label: string }[] = [
   { value: "square", label: "■ Square" },
   { value: "diamond", label: "◆ Diamond" },
   { value: "ring", label: "○ Ring" },
-  { value: "cross", label: "✚ Cross" }
+  { value: "cross", label: "✚ Cross" },
+  { value: "sprite", label: "✿ Sprite" }
 ];
 
 const colorModes: { value: ColorMode; label: string }[] = [
   { value: "single", label: "Single" },
   { value: "gradient", label: "Gradient" },
   { value: "scheme", label: "Scheme" },
-  { value: "range", label: "Range" }
+  { value: "range", label: "Range" },
+  { value: "velocity", label: "By velocity" },
+  { value: "age", label: "By age" },
+  { value: "position", label: "By position" },
+  { value: "depth", label: "By depth" },
+  { value: "random", label: "Random" },
+  { value: "image", label: "From image" }
+];
+
+// Modes that index the layer's own gradient stops
+const gradientColorModes = new Set<ColorMode>(["gradient", "velocity", "age", "position", "depth", "random"]);
+
+const colorPositionAxes: { value: ColorPositionAxis; label: string }[] = [
+  { value: "x", label: "X" },
+  { value: "y", label: "Y" },
+  { value: "radial", label: "Radial" }
+];
+
+const blendModes: { value: BlendMode; label: string }[] = [
+  { value: "additive", label: "Additive" },
+  { value: "alpha", label: "Alpha over" },
+  { value: "multiply", label: "Multiply" },
+  { value: "screen", label: "Screen" },
+  { value: "subtract", label: "Subtract" },
+  { value: "lighten", label: "Lighten" },
+  { value: "darken", label: "Darken" }
 ];
 
 const colorSchemes: { value: ColorScheme; label: string; colors: string[] }[] = [
@@ -65,6 +98,7 @@ export function RightPanel() {
   const setLayer = useStudioStore((s) => s.setLayer);
   const global = useStudioStore((s) => s.global);
   const setGlobal = useStudioStore((s) => s.setGlobal);
+  const frameStats = useStudioStore((s) => s.frameStats);
   
   const [audioAnalysis, setAudioAnalysis] = useState<AudioAnalysisData | null>(null);
   
@@ -192,6 +226,71 @@ export function RightPanel() {
             step={0.01}
             onChange={(v) => setGlobal({ clearRate: v })}
           />
+
+          <div className="row">
+            <span className="rowLabel">Seed</span>
+            <div style={{ display: "flex", gap: 6 }}>
+              <input
+                type="number"
+                className="input inputSm"
+                style={{ width: 100 }}
+                value={global.seed}
+                min={0}
+                step={1}
+                onChange={(e) => setGlobal({ seed: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+              />
+              <button
+                className="btn btnSm"
+                title="Pick a random seed"
+                onClick={() => setGlobal({ seed: Math.floor(Math.random() * 1000000) })}
+              >
+                🎲
+              </button>
+            </div>
+          </div>
+          <SwitchRow
+            label="Fixed timestep"
+            checked={global.fixedTimestep}
+            onCheckedChange={(b) => setGlobal({ fixedTimestep: b })}
+            tooltip="Advance the simulation by a fixed amount each frame so the same seed reproduces the same frames"
+          />
+          {global.fixedTimestep && (
+            <>
+              <SliderRow
+                label="Step rate (fps)"
+                value={global.fixedStepRate}
+                min={12}
+                max={120}
+                step={1}
+                onChange={(v) => setGlobal({ fixedStepRate: v })}
+              />
+              <SliderRow
+                label="Substeps"
+                value={global.substeps}
+                min={1}
+                max={8}
+                step={1}
+                onChange={(v) => setGlobal({ substeps: v })}
+                tooltip="Simulation steps per frame; more steps keep fast particles stable"
+              />
+            </>
+          )}
+          <div className="small" style={{ marginTop: 8, opacity: 0.7 }}>
+            Reset after changing the seed to replay the scene from the start.
+          </div>
+          <SwitchRow
+            label="Benchmark mode"
+            checked={global.benchmarkMode}
+            onCheckedChange={(b) => setGlobal({ benchmarkMode: b })}
+            tooltip="Alternate between per-frame uniform lookups and cached uniforms, and report CPU time per frame for each"
+          />
+          {global.benchmarkMode && (
+            <div className="small" style={{ opacity: 0.7 }}>
+              {frameStats
+                ? `CPU per frame: ${frameStats.legacyMs.toFixed(2)} ms before, ${frameStats.cachedMs.toFixed(2)} ms after`
+                : "Measuring…"}
+            </div>
+          )}
         </div>
 
         <div className="hr" />
@@ -222,53 +321,33 @@ export function RightPanel() {
 
             {/* Particle appearance */}
             <CollapsibleSection title="Particle" defaultOpen={true}>
-              <div className="row">
-                <span className="rowLabel">Shape</span>
-                <select
-                  className="select inputSm"
-                  style={{ width: 140 }}
-                  value={layer.shape ?? "dot"}
-                  onChange={(e) => {
-                    const newShape = e.target.value as ParticleShape;
-                    
-                    // TEMPORARY LOGGING: Track shape change flow
-                    console.log("=== PARTICLE SHAPE CHANGE START ===");
-                    console.log("Previous shape:", layer.shape);
-                    console.log("New shape selected:", newShape);
-                    console.log("Layer ID:", layer.id);
-                    console.log("Layer name:", layer.name);
-                    console.log("Layer type (particle type):", layer.type);
-                    
-                    // Simple shape update - shape parameter directly controls rendering
-                    // glyphPalette is always synced to match the shape parameter
-                    const update = { 
-                      shape: newShape,
-                      glyphPalette: [{ shape: newShape, weight: 1.0 }]
-                    };
-                    
-                    console.log("Update payload:", JSON.stringify(update, null, 2));
-                    console.log("Calling setLayer with update...");
-                    
-                    setLayer(layer.id, update);
-                    
-                    // Verify the update after a tick
-                    setTimeout(() => {
-                      const currentLayers = useStudioStore.getState().layers;
-                      const updatedLayer = currentLayers.find(l => l.id === layer.id);
-                      console.log("=== POST-UPDATE VERIFICATION ===");
-                      console.log("Updated layer shape:", updatedLayer?.shape);
-                      console.log("Updated glyphPalette:", JSON.stringify(updatedLayer?.glyphPalette));
-                      console.log("=== PARTICLE SHAPE CHANGE END ===");
-                    }, 0);
-                  }}
-                >
-                  {shapeOptions.map((o) => (
-                    <option key={o.value} value={o.value}>
-                      {o.label}
-                    </option>
-                  ))}
-                </select>
-              </div>
+              {(layer.glyphPalette?.length ?? 0) <= 1 && (
+                <div className="row">
+                  <span className="rowLabel">Shape</span>
+                  <select
+                    className="select inputSm"
+                    style={{ width: 140 }}
+                    value={layer.shape ?? "dot"}
+                    onChange={(e) => {
+                      const newShape = e.target.value as ParticleShape;
+                      // Single-shape palette mirrors the shape parameter
+                      setLayer(layer.id, {
+                        shape: newShape,
+                        glyphPalette: [{ shape: newShape, weight: 1.0 }]
+                      });
+                    }}
+                  >
+                    {shapeOptions.map((o) => (
+                      <option key={o.value} value={o.value}>
+                        {o.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <GlyphPaletteEditor shapeOptions={shapeOptions} />
+              <SpriteAtlasEditor />
 
               <SliderRow
                 label="Point size"
@@ -366,17 +445,35 @@ export function RightPanel() {
             <CollapsibleSection title="Color" defaultOpen={false}>
               <div className="row">
                 <span className="rowLabel">Mode</span>
-                <div className="segmented" style={{ width: 200 }}>
+                <select
+                  className="select inputSm"
+                  style={{ width: 140 }}
+                  value={layer.colorMode}
+                  onChange={(e) => setLayer(layer.id, { colorMode: e.target.value as ColorMode })}
+                >
                   {colorModes.map((m) => (
-                    <button
-                      key={m.value}
-                      className={layer.colorMode === m.value ? "active" : ""}
-                      onClick={() => setLayer(layer.id, { colorMode: m.value })}
-                    >
+                    <option key={m.value} value={m.value}>
                       {m.label}
-                    </button>
+                    </option>
                   ))}
-                </div>
+                </select>
+              </div>
+
+              <div className="row">
+                <span className="rowLabel">Blend</span>
+                <select
+                  className="select inputSm"
+                  style={{ width: 140 }}
+                  value={layer.blendMode ?? "additive"}
+                  onChange={(e) => setLayer(layer.id, { blendMode: e.target.value as BlendMode })}
+                  title="How this layer combines with the layers below it in the list"
+                >
+                  {blendModes.map((m) => (
+                    <option key={m.value} value={m.value}>
+                      {m.label}
+                    </option>
+                  ))}
+                </select>
               </div>
 
               {layer.colorMode === "single" && (
@@ -391,42 +488,58 @@ export function RightPanel() {
                 </div>
               )}
 
-              {layer.colorMode === "gradient" && (
+              {gradientColorModes.has(layer.colorMode) && (
                 <>
-                  <div className="row">
-                    <span className="rowLabel">Primary</span>
-                    <input
-                      type="color"
-                      className="colorInput"
-                      value={layer.color}
-                      onChange={(e) => setLayer(layer.id, { color: e.target.value })}
-                    />
-                  </div>
-                  <div className="row">
-                    <span className="rowLabel">Secondary</span>
-                    <input
-                      type="color"
-                      className="colorInput"
-                      value={layer.colorSecondary ?? "#888888"}
-                      onChange={(e) =>
-                        setLayer(layer.id, { colorSecondary: e.target.value })
-                      }
-                    />
-                  </div>
-                  <div className="row">
-                    <span className="rowLabel">Tertiary</span>
-                    <input
-                      type="color"
-                      className="colorInput"
-                      value={layer.colorTertiary ?? "#444444"}
-                      onChange={(e) =>
-                        setLayer(layer.id, { colorTertiary: e.target.value })
-                      }
+                  {layer.colorMode === "velocity" && (
+                    <SliderRow
+                      label="Full-gradient speed"
+                      value={layer.colorVelocityMax ?? 0.05}
+                      min={0.005}
+                      max={0.3}
+                      step={0.005}
+                      onChange={(v) => setLayer(layer.id, { colorVelocityMax: v })}
+                      tooltip="Particles at this speed or faster take the last gradient colour"
                     />
-                  </div>
+                  )}
+                  {layer.colorMode === "position" && (
+                    <div className="row">
+                      <span className="rowLabel">Axis</span>
+                      <div className="segmented" style={{ width: 160 }}>
+                        {colorPositionAxes.map((a) => (
+                          <button
+                            key={a.value}
+                            className={(layer.colorPositionAxis ?? "x") === a.value ? "active" : ""}
+                            onClick={() => setLayer(layer.id, { colorPositionAxis: a.value })}
+                          >
+                            {a.label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  {layer.colorMode === "age" && (layer.lifetime ?? 0) <= 0 && (
+                    <div className="small" style={{ opacity: 0.7, marginBottom: 8 }}>
+                      Without a lifetime the gradient spans a particle's first 10 seconds.
+                    </div>
+                  )}
+                  {layer.colorMode === "depth" && !layer.depthEnabled && (
+                    <div className="small" style={{ opacity: 0.7, marginBottom: 8 }}>
+                      Enable the depth field under Material System to colour by depth.
+                    </div>
+                  )}
+                  <GradientEditor
+                    label="Gradient"
+                    stops={
+                      layer.colorGradient ??
+                      defaultColorGradient(layer.color, layer.colorSecondary, layer.colorTertiary)
+                    }
+                    onChange={(colorGradient) => setLayer(layer.id, { colorGradient })}
+                  />
                 </>
               )}
 
+              {layer.colorMode === "image" && <ColorImageEditor />}
+
               {layer.colorMode === "scheme" && (
                 <div style={{ display: "flex", flexWrap: "wrap", gap: 8 }}>
                   {colorSchemes.map((scheme) => (
@@ -495,6 +608,31 @@ export function RightPanel() {
 
             <div className="hr" />
 
+            {/* Per-layer trail buffer */}
+            <CollapsibleSection title="Trail" defaultOpen={false}>
+              <LayerTrailEditor />
+            </CollapsibleSection>
+
+            <div className="hr" />
+
+            {/* Size / brightness / colour / speed over the particle's lifetime */}
+            <CollapsibleSection title="Over Life" defaultOpen={false}>
+              <LifeCurvesEditor />
+            </CollapsibleSection>
+
+            <div className="hr" />
+
+            {/* Metaball surface (liquid / ink) */}
+            {(layer.type === "liquid" || layer.type === "ink") && (
+              <>
+                <CollapsibleSection title="Surface" defaultOpen={false}>
+                  <MetaballEditor />
+                </CollapsibleSection>
+
+                <div className="hr" />
+              </>
+            )}
+
             {/* ============ MATERIAL SYSTEM ============ */}
             <CollapsibleSection title="Material System" defaultOpen={false}>
               {/* Depth Field */}
@@ -0,0 +1,191 @@
+import { useRef, useEffect, useState, useCallback, useMemo } from "react";
+import { useStudioStore } from "../state/store";
+import { SliderRow } from "./ui/SliderRow";
+
+export function SpawnRegionEditor() {
+  const layers = useStudioStore((s) => s.layers);
+  const selectedLayerId = useStudioStore((s) => s.selectedLayerId);
+  const setLayer = useStudioStore((s) => s.setLayer);
+
+  const layer = useMemo(
+    () => layers.find((l) => l.id === selectedLayerId),
+    [layers, selectedLayerId]
+  );
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [isPainting, setIsPainting] = useState(false);
+  const [brushSize, setBrushSize] = useState(30);
+  const [brushOpacity, setBrushOpacity] = useState(1);
+  const [isActive, setIsActive] = useState(false);
+
+  // Initialize or load existing spawn region
+  useEffect(() => {
+    if (!layer) return;
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    canvas.width = 512;
+    canvas.height = 512;
+
+    // Clear to transparent (nowhere to spawn)
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    const customMask = layer.spawnConfig?.customMask;
+    if (customMask) {
+      const img = new Image();
+      img.onload = () => {
+        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      };
+      img.src = customMask;
+    }
+  }, [layer?.id, isActive]);
+
+  const saveSpawnMask = useCallback(() => {
+    if (!layer) return;
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const dataUrl = canvas.toDataURL("image/png");
+    setLayer(layer.id, { spawnConfig: { ...layer.spawnConfig, customMask: dataUrl } });
+  }, [layer, setLayer]);
+
+  const draw = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const scaleX = canvas.width / rect.width;
+    const scaleY = canvas.height / rect.height;
+    const x = (e.clientX - rect.left) * scaleX;
+    const y = (e.clientY - rect.top) * scaleY;
+
+    // Paint additively: alpha builds up with overlapping dabs and becomes the spawn weight
+    ctx.globalAlpha = brushOpacity;
+    ctx.fillStyle = "white";
+    ctx.beginPath();
+    ctx.arc(x, y, brushSize * scaleX, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.globalAlpha = 1;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isActive) return;
+    setIsPainting(true);
+    draw(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isPainting || !isActive) return;
+    draw(e);
+  };
+
+  const handlePointerUp = () => {
+    if (isPainting) {
+      setIsPainting(false);
+      saveSpawnMask();
+    }
+  };
+
+  const clearSpawnMask = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (canvas && ctx) ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    if (layer) {
+      setLayer(layer.id, { spawnConfig: { ...layer.spawnConfig, customMask: undefined } });
+    }
+  };
+
+  if (!layer) return null;
+
+  return (
+    <div style={{ marginTop: 8 }}>
+      <div className="row">
+        <span className="rowLabel">Painted region</span>
+        <div style={{ display: "flex", gap: 6 }}>
+          <button
+            className={`btn btnSm ${isActive ? "btnDanger" : "btnPrimary"}`}
+            onClick={() => setIsActive(!isActive)}
+          >
+            {isActive ? "Done" : "Paint"}
+          </button>
+          <button className="btn btnSm" onClick={clearSpawnMask}>
+            Clear
+          </button>
+        </div>
+      </div>
+
+      {isActive && (
+        <>
+          <SliderRow
+            label="Brush size"
+            value={brushSize}
+            min={5}
+            max={100}
+            step={1}
+            onChange={setBrushSize}
+          />
+          <SliderRow
+            label="Brush opacity"
+            value={brushOpacity}
+            min={0.05}
+            max={1}
+            step={0.05}
+            onChange={setBrushOpacity}
+            tooltip="Lower opacity spawns fewer particles; overlapping strokes add up"
+          />
+
+          <div
+            style={{
+              marginTop: 10,
+              border: "1px solid var(--stroke)",
+              borderRadius: "var(--radius-sm)",
+              overflow: "hidden",
+              background: "#222",
+              position: "relative"
+            }}
+          >
+            <canvas
+              ref={canvasRef}
+              style={{
+                width: "100%",
+                aspectRatio: "1",
+                cursor: "crosshair",
+                display: "block"
+              }}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerLeave={handlePointerUp}
+            />
+            <div
+              className="small"
+              style={{
+                position: "absolute",
+                bottom: 4,
+                left: 4,
+                background: "rgba(0,0,0,0.7)",
+                padding: "2px 6px",
+                borderRadius: 4
+              }}
+            >
+              Paint where particles spawn
+            </div>
+          </div>
+        </>
+      )}
+
+      {!isActive && !layer.spawnConfig?.customMask && (
+        <div className="small" style={{ marginTop: 8 }}>
+          Nothing painted yet; particles spawn anywhere. Click "Paint" to draw a region.
+        </div>
+      )}
+    </div>
+  );
+}
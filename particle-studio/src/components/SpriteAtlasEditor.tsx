@@ -0,0 +1,157 @@
+import { useMemo } from "react";
+import { useStudioStore } from "../state/store";
+import { SwitchRow } from "./ui/SwitchRow";
+import type { SpriteConfig, SpriteSource } from "../state/types";
+
+// Matches MAX_SPRITE_FRAMES in the engine
+const MAX_FRAMES = 64;
+
+const fontOptions = ["serif", "sans-serif", "monospace", "cursive", "fantasy"];
+
+// Sprites are stored as data URLs so they survive layer and scene exports
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+export function SpriteAtlasEditor() {
+  const layers = useStudioStore((s) => s.layers);
+  const selectedLayerId = useStudioStore((s) => s.selectedLayerId);
+  const setLayer = useStudioStore((s) => s.setLayer);
+
+  const layer = useMemo(
+    () => layers.find((l) => l.id === selectedLayerId),
+    [layers, selectedLayerId]
+  );
+
+  if (!layer) return null;
+
+  const usesSprite = layer.shape === "sprite" || (layer.glyphPalette ?? []).some((e) => e.shape === "sprite");
+  if (!usesSprite) return null;
+
+  // Layers imported from older exports have no sprite config yet
+  const cfg: SpriteConfig = layer.spriteConfig ?? { source: "images", images: [], text: "", font: "serif", tint: true };
+  const update = (updates: Partial<SpriteConfig>) => {
+    setLayer(layer.id, { spriteConfig: { ...cfg, ...updates } });
+  };
+
+  const addImages = async (files: FileList | null) => {
+    if (!files) return;
+    const urls = await Promise.all(Array.from(files).map(readAsDataUrl));
+    update({ images: [...cfg.images, ...urls].slice(0, MAX_FRAMES) });
+  };
+
+  return (
+    <div
+      style={{
+        marginBottom: 8,
+        padding: 8,
+        background: "rgba(255,255,255,0.05)",
+        borderRadius: "var(--radius-sm)",
+        border: "1px solid var(--stroke)"
+      }}
+    >
+      <div className="row">
+        <span className="rowLabel">Sprite frames</span>
+        <select
+          className="select inputSm"
+          style={{ width: 120 }}
+          value={cfg.source}
+          onChange={(e) => update({ source: e.target.value as SpriteSource })}
+        >
+          <option value="images">Images</option>
+          <option value="text">Text</option>
+        </select>
+      </div>
+
+      {cfg.source === "images" && (
+        <>
+          <div className="row">
+            <input
+              key={layer.id}
+              type="file"
+              accept="image/png,image/*"
+              multiple
+              style={{ flex: 1 }}
+              disabled={cfg.images.length >= MAX_FRAMES}
+              onChange={(e) => {
+                void addImages(e.target.files);
+                e.target.value = "";
+              }}
+            />
+          </div>
+          {cfg.images.length > 0 ? (
+            <div style={{ display: "flex", flexWrap: "wrap", gap: 6, marginTop: 6 }}>
+              {cfg.images.map((url, index) => (
+                <div key={index} style={{ position: "relative", width: 40, height: 40 }}>
+                  <img
+                    src={url}
+                    alt={`Frame ${index + 1}`}
+                    style={{
+                      width: "100%",
+                      height: "100%",
+                      objectFit: "contain",
+                      background: "#222",
+                      borderRadius: "var(--radius-sm)"
+                    }}
+                  />
+                  <button
+                    className="btn btnSm btnDanger"
+                    style={{ position: "absolute", top: -4, right: -4, padding: "0 4px", lineHeight: 1.2 }}
+                    onClick={() => update({ images: cfg.images.filter((_, i) => i !== index) })}
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="small" style={{ opacity: 0.7 }}>
+              Upload PNGs (brush dabs, leaves, logos). Each image is one frame.
+            </div>
+          )}
+        </>
+      )}
+
+      {cfg.source === "text" && (
+        <>
+          <div className="row">
+            <span className="rowLabel small">Characters</span>
+            <input
+              className="input inputSm"
+              style={{ width: 140 }}
+              value={cfg.text}
+              onChange={(e) => update({ text: e.target.value })}
+            />
+          </div>
+          <div className="row">
+            <span className="rowLabel small">Font</span>
+            <select
+              className="select inputSm"
+              style={{ width: 140 }}
+              value={cfg.font}
+              onChange={(e) => update({ font: e.target.value })}
+            >
+              {fontOptions.map((f) => (
+                <option key={f} value={f}>{f}</option>
+              ))}
+            </select>
+          </div>
+          <div className="small" style={{ opacity: 0.7 }}>
+            Each character becomes one frame; spaces are ignored.
+          </div>
+        </>
+      )}
+
+      <SwitchRow
+        label="Tint with layer color"
+        checked={cfg.tint}
+        onCheckedChange={(b) => update({ tint: b })}
+        tooltip="Off keeps the sprite's own colors"
+      />
+    </div>
+  );
+}
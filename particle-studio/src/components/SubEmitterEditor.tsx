@@ -0,0 +1,154 @@
+import { useMemo } from "react";
+import { useStudioStore } from "../state/store";
+import { SliderRow } from "./ui/SliderRow";
+import type { SubEmitter, SubEmitterEvent } from "../state/types";
+
+// Matches MAX_SUB_EMITTERS in the engine
+const MAX_SUB_EMITTERS = 4;
+
+const subEmitterEvents: { value: SubEmitterEvent; label: string }[] = [
+  { value: "maskCollision", label: "Mask collision" },
+  { value: "attractorDespawn", label: "Despawn at point" },
+  { value: "decay", label: "Death by decay" },
+  { value: "boundaryDestroy", label: "Boundary destroy" }
+];
+
+export function SubEmitterEditor() {
+  const layers = useStudioStore((s) => s.layers);
+  const selectedLayerId = useStudioStore((s) => s.selectedLayerId);
+  const setLayer = useStudioStore((s) => s.setLayer);
+
+  const layer = useMemo(
+    () => layers.find((l) => l.id === selectedLayerId),
+    [layers, selectedLayerId]
+  );
+
+  if (!layer) return null;
+
+  // Layers imported from older exports have no sub-emitters yet
+  const emitters = layer.subEmitters ?? [];
+
+  const addEmitter = () => {
+    const target = layers.find((l) => l.id !== layer.id) ?? layer;
+    const next: SubEmitter = {
+      event: "maskCollision",
+      targetLayerId: target.id,
+      count: 4,
+      inheritVelocity: 0.5,
+      spread: 0.05
+    };
+    setLayer(layer.id, { subEmitters: [...emitters, next] });
+  };
+
+  const updateEmitter = (index: number, updates: Partial<SubEmitter>) => {
+    setLayer(layer.id, {
+      subEmitters: emitters.map((e, i) => (i === index ? { ...e, ...updates } : e))
+    });
+  };
+
+  const removeEmitter = (index: number) => {
+    setLayer(layer.id, { subEmitters: emitters.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="section">
+      <h3 className="sectionTitle">
+        Sub-emitters
+        <button
+          className="btn btnSm btnPrimary"
+          style={{ marginLeft: "auto" }}
+          onClick={addEmitter}
+          disabled={emitters.length >= MAX_SUB_EMITTERS}
+        >
+          + Add
+        </button>
+      </h3>
+
+      <div className="small" style={{ marginBottom: 8 }}>
+        Spawn particles into a layer when something happens to this layer's particles.
+        Spawned particles are recycled from the target layer.
+      </div>
+
+      {emitters.length === 0 ? (
+        <div className="small" style={{ opacity: 0.7, padding: "8px 0" }}>
+          No sub-emitters.
+        </div>
+      ) : (
+        emitters.map((emitter, index) => {
+          const exists = layers.some((l) => l.id === emitter.targetLayerId);
+          return (
+            <div
+              key={index}
+              style={{
+                marginBottom: 12,
+                padding: 8,
+                background: "rgba(255,255,255,0.05)",
+                borderRadius: "var(--radius-sm)",
+                border: "1px solid var(--stroke)"
+              }}
+            >
+              <div className="row">
+                <span className="rowLabel small">On</span>
+                <select
+                  className="select inputSm"
+                  style={{ flex: 1 }}
+                  value={emitter.event}
+                  onChange={(e) => updateEmitter(index, { event: e.target.value as SubEmitterEvent })}
+                >
+                  {subEmitterEvents.map((ev) => (
+                    <option key={ev.value} value={ev.value}>{ev.label}</option>
+                  ))}
+                </select>
+                <button className="btn btnSm btnDanger" onClick={() => removeEmitter(index)}>
+                  ✕
+                </button>
+              </div>
+              <div className="row">
+                <span className="rowLabel small">Into</span>
+                <select
+                  className="select inputSm"
+                  style={{ flex: 1 }}
+                  value={exists ? emitter.targetLayerId : ""}
+                  onChange={(e) => updateEmitter(index, { targetLayerId: e.target.value })}
+                >
+                  {!exists && <option value="">(missing layer)</option>}
+                  {layers.map((l) => (
+                    <option key={l.id} value={l.id}>
+                      {l.id === layer.id ? `${l.name} (this layer)` : l.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <SliderRow
+                label="Particles per event"
+                value={emitter.count}
+                min={1}
+                max={16}
+                step={1}
+                onChange={(v) => updateEmitter(index, { count: v })}
+              />
+              <SliderRow
+                label="Inherit velocity"
+                value={emitter.inheritVelocity}
+                min={0}
+                max={1}
+                step={0.01}
+                onChange={(v) => updateEmitter(index, { inheritVelocity: v })}
+                tooltip="How much of the original particle's velocity the new ones keep"
+              />
+              <SliderRow
+                label="Spread"
+                value={emitter.spread}
+                min={0}
+                max={0.2}
+                step={0.005}
+                onChange={(v) => updateEmitter(index, { spread: v })}
+                tooltip="Random burst speed in every direction"
+              />
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
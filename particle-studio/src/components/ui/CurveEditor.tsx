@@ -0,0 +1,127 @@
+import { useRef, useState } from "react";
+import type { CurvePoint } from "../../state/types";
+
+const WIDTH = 240;
+const HEIGHT = 80;
+const PAD = 6;
+
+export function CurveEditor(props: {
+  label: string;
+  points: CurvePoint[];
+  min: number;
+  max: number;
+  defaultValue: number;
+  onChange: (points: CurvePoint[]) => void;
+  tooltip?: string;
+}) {
+  const { label, points, min, max, defaultValue, onChange, tooltip } = props;
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const toX = (t: number) => PAD + t * (WIDTH - PAD * 2);
+  const toY = (v: number) => HEIGHT - PAD - ((v - min) / (max - min)) * (HEIGHT - PAD * 2);
+
+  // Pointer position in curve space, clamped to the editable range
+  const fromEvent = (e: React.PointerEvent | React.MouseEvent): CurvePoint => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * WIDTH;
+    const y = ((e.clientY - rect.top) / rect.height) * HEIGHT;
+    const t = Math.min(1, Math.max(0, (x - PAD) / (WIDTH - PAD * 2)));
+    const value = min + Math.min(1, Math.max(0, (HEIGHT - PAD - y) / (HEIGHT - PAD * 2))) * (max - min);
+    return { t, value };
+  };
+
+  const sorted = [...points].sort((a, b) => a.t - b.t);
+  const line =
+    sorted.length === 0
+      ? `${toX(0)},${toY(defaultValue)} ${toX(1)},${toY(defaultValue)}`
+      : [
+          `${toX(0)},${toY(sorted[0].value)}`,
+          ...sorted.map((p) => `${toX(p.t)},${toY(p.value)}`),
+          `${toX(1)},${toY(sorted[sorted.length - 1].value)}`
+        ].join(" ");
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (e.button !== 0) return;
+    svgRef.current!.setPointerCapture(e.pointerId);
+    onChange([...points, fromEvent(e)]);
+    setDragIndex(points.length);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragIndex === null) return;
+    const p = fromEvent(e);
+    onChange(points.map((q, i) => (i === dragIndex ? p : q)));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (svgRef.current?.hasPointerCapture(e.pointerId)) svgRef.current.releasePointerCapture(e.pointerId);
+    setDragIndex(null);
+  };
+
+  return (
+    <div style={{ marginBottom: 10 }} title={tooltip}>
+      <div className="row" style={{ marginBottom: 4 }}>
+        <span className="small">{label}</span>
+        {points.length > 0 && (
+          <button className="btn btnSm" style={{ marginLeft: "auto" }} onClick={() => onChange([])}>
+            Reset
+          </button>
+        )}
+      </div>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        style={{
+          width: "100%",
+          height: HEIGHT,
+          background: "rgba(255,255,255,0.05)",
+          borderRadius: "var(--radius-sm)",
+          border: "1px solid var(--stroke)",
+          touchAction: "none",
+          cursor: "crosshair"
+        }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <line
+          x1={PAD}
+          x2={WIDTH - PAD}
+          y1={toY(defaultValue)}
+          y2={toY(defaultValue)}
+          stroke="rgba(255,255,255,0.12)"
+          strokeDasharray="3 3"
+        />
+        <polyline points={line} fill="none" stroke="rgba(124,58,237,0.9)" strokeWidth={2} />
+        {points.map((p, i) => (
+          <circle
+            key={i}
+            cx={toX(p.t)}
+            cy={toY(p.value)}
+            r={4}
+            fill={i === dragIndex ? "#ffffff" : "rgba(255,255,255,0.85)"}
+            stroke="rgba(0,0,0,0.35)"
+            style={{ cursor: "grab" }}
+            onPointerDown={(e) => {
+              if (e.button !== 0) return;
+              e.stopPropagation();
+              svgRef.current!.setPointerCapture(e.pointerId);
+              setDragIndex(i);
+            }}
+            onDoubleClick={(e) => {
+              e.stopPropagation();
+              onChange(points.filter((_, j) => j !== i));
+              setDragIndex(null);
+            }}
+          />
+        ))}
+      </svg>
+      <div className="small" style={{ display: "flex", justifyContent: "space-between", opacity: 0.6 }}>
+        <span>birth</span>
+        <span>death</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import type { GradientStop } from "../../state/types";
+import { SliderRow } from "./SliderRow";
+
+export function GradientEditor(props: {
+  label: string;
+  stops: GradientStop[];
+  onChange: (stops: GradientStop[]) => void;
+  tooltip?: string;
+}) {
+  const { label, stops, onChange, tooltip } = props;
+
+  const sorted = [...stops].sort((a, b) => a.t - b.t);
+  const background =
+    sorted.length === 0
+      ? "rgba(255,255,255,0.05)"
+      : sorted.length === 1
+        ? sorted[0].color
+        : `linear-gradient(to right, ${sorted.map((s) => `${s.color} ${(s.t * 100).toFixed(1)}%`).join(", ")})`;
+
+  // Clicking the bar adds a stop there, coloured like its nearest neighbour
+  const addStop = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const t = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    const nearest = sorted.reduce<GradientStop | null>(
+      (best, s) => (!best || Math.abs(s.t - t) < Math.abs(best.t - t) ? s : best),
+      null
+    );
+    onChange([...stops, { t, color: nearest?.color ?? "#ffffff" }]);
+  };
+
+  const updateStop = (index: number, updates: Partial<GradientStop>) => {
+    onChange(stops.map((s, i) => (i === index ? { ...s, ...updates } : s)));
+  };
+
+  return (
+    <div style={{ marginBottom: 10 }} title={tooltip}>
+      <div className="row" style={{ marginBottom: 4 }}>
+        <span className="small">{label}</span>
+        {stops.length > 0 && (
+          <button className="btn btnSm" style={{ marginLeft: "auto" }} onClick={() => onChange([])}>
+            Reset
+          </button>
+        )}
+      </div>
+      <div
+        onClick={addStop}
+        style={{
+          height: 20,
+          background,
+          borderRadius: "var(--radius-sm)",
+          border: "1px solid var(--stroke)",
+          cursor: "copy",
+          marginBottom: 6
+        }}
+      />
+      {stops.length === 0 ? (
+        <div className="small" style={{ opacity: 0.7 }}>
+          Click the bar to add a colour stop.
+        </div>
+      ) : (
+        stops.map((stop, index) => (
+          <div key={index} style={{ display: "flex", alignItems: "center", gap: 6 }}>
+            <input
+              type="color"
+              className="colorInput"
+              value={stop.color}
+              onChange={(e) => updateStop(index, { color: e.target.value })}
+            />
+            <div style={{ flex: 1 }}>
+              <SliderRow
+                label="Position"
+                value={stop.t}
+                min={0}
+                max={1}
+                step={0.01}
+                onChange={(v) => updateStop(index, { t: v })}
+              />
+            </div>
+            <button
+              className="btn btnSm btnDanger"
+              onClick={() => onChange(stops.filter((_, i) => i !== index))}
+            >
+              ✕
+            </button>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -9,7 +9,7 @@
  * - Movement patterns (spiral, orbit, wave, vortex, etc.)
  * - Spawn regions and spawn velocities
  * - All physics parameters
- * - Color modes (single, gradient, scheme, range)
+ * - Color modes (single, the gradient-indexed modes, image - the picture is embedded as a data URL)
  * - Particle shapes (dot, star, dash, tilde, square, diamond, ring, cross)
  * - Trail length / motion blur effects
  * - Proper curl noise implementation
@@ -150,6 +150,19 @@ const SCENE_DATA = ${sceneDataJson};
 // This implementation matches the studio's ParticleEngine with all effects
 // ============================================================================
 
+// Seeded PRNG (mulberry32) so a scene replays identically for the same global seed
+function createRandom(seed) {
+  let a = seed >>> 0;
+  return function () {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+let random = createRandom(SCENE_DATA.global.seed ?? 0);
+
 // Color scheme presets (matching studio)
 const COLOR_SCHEMES = {
   warm: [{ r: 1.0, g: 0.4, b: 0.2 }, { r: 1.0, g: 0.7, b: 0.0 }, { r: 1.0, g: 0.2, b: 0.4 }],
@@ -159,6 +172,13 @@ const COLOR_SCHEMES = {
   mono: [{ r: 1.0, g: 1.0, b: 1.0 }, { r: 0.7, g: 0.7, b: 0.7 }, { r: 0.4, g: 0.4, b: 0.4 }],
 };
 
+// Colour mode indices (matching studio); every mode but single and image indexes the layer gradient
+const COLOR_MODE_MAP = {
+  single: 0, gradient: 1, scheme: 2, range: 3, velocity: 4, age: 5, position: 6, depth: 7, random: 8, image: 9,
+};
+const COLOR_AXIS_MAP = { x: 0, y: 1, radial: 2 };
+const COLOR_LUT_SIZE = 256;
+
 // Type-specific physical properties (matching studio)
 const TYPE_PROPS = {
   sand: { mass: 2.5, airResistance: 0.3, windResponse: 0.2, attractResponse: 0.4, curlResponse: 0.15, jitterScale: 0.3, cling: 0.7, buoyancy: 0.0 },
@@ -182,6 +202,11 @@ const PATTERN_BROWNIAN = 8;
 const PATTERN_FOLLOW_CURL = 9;
 const PATTERN_VORTEX = 10;
 
+// Layer blend modes (matching studio)
+const BLEND_MODE_MAP = {
+  additive: 0, alpha: 1, multiply: 2, screen: 3, subtract: 4, lighten: 5, darken: 6,
+};
+
 const PATTERN_MAP = {
   still: PATTERN_STILL, linear: PATTERN_LINEAR, spiral: PATTERN_SPIRAL, orbit: PATTERN_ORBIT,
   radialOut: PATTERN_RADIAL_OUT, radialIn: PATTERN_RADIAL_IN, wave: PATTERN_WAVE,
@@ -228,21 +253,39 @@ class StandaloneParticleEngine {
       in vec2 aPosition;
       in vec2 aVelocity;
       in float aSeed;
+      in vec2 aOrigin;  // spawn position (image colour sampled at spawn)
+      in float aBirth;  // scene time of the last spawn (age colour mode)
       
       uniform vec2 uResolution;
+      uniform float uTime;
       uniform float uPointSize;
       uniform float uPointSizeMin;
       uniform float uPointSizeMax;
       uniform float uSizeJitter;
       uniform float uTrailLength;
       uniform int uType;
+      uniform int uGlyphCount;       // 0 = use uShape
+      uniform int uGlyphPalette[8];  // shape index per palette entry
+      uniform float uGlyphWeights[8]; // normalized weights
+      uniform int uImageSpawn;       // 1 = image colour from the spawn position
+      uniform int uColorMode;
+      uniform int uColorAxis;        // position mode: x, y, radial
+      uniform float uColorVelocityMax;
       
       out float vSeed;
       out vec2 vVelocity;
       out float vSpeed;
+      flat out int vShape;
+      out vec2 vImagePos;  // 0-1, y up (matching the studio)
+      out float vColorT;   // where the particle indexes the layer gradient, -1 = not used
+      
+      // Seconds over which age sweeps the gradient (the studio's span for layers without a lifetime)
+      const float AGE_COLOR_SPAN = 10.0;
       
       void main() {
         vec2 pos = aPosition / uResolution;
+        vec2 imagePos = (uImageSpawn == 1 ? aOrigin : aPosition) / uResolution;
+        vImagePos = vec2(imagePos.x, 1.0 - imagePos.y);
         // Flip Y to convert from screen coordinates (y down) to WebGL (y up)
         vec2 clip = vec2(pos.x * 2.0 - 1.0, 1.0 - pos.y * 2.0);
         gl_Position = vec4(clip, 0.0, 1.0);
@@ -251,6 +294,41 @@ class StandaloneParticleEngine {
         vVelocity = aVelocity;
         vSpeed = length(aVelocity);
         
+        // Gradient index per colour mode (matching the studio)
+        vec2 p = vec2(pos.x, 1.0 - pos.y);
+        vColorT = -1.0;
+        if(uColorMode == 1) { // gradient: seed + velocity
+          vColorT = fract(aSeed + vSpeed * 2.0);
+        } else if(uColorMode == 2) { // scheme: the LUT holds one band per scheme colour
+          vColorT = fract(aSeed * 3.14159);
+        } else if(uColorMode == 3) { // range
+          vColorT = fract(aSeed + vSpeed);
+        } else if(uColorMode == 4) { // velocity, in scene widths per second
+          vColorT = vSpeed / uResolution.x / max(uColorVelocityMax, 1e-5);
+        } else if(uColorMode == 5) { // age
+          vColorT = (uTime - aBirth) / AGE_COLOR_SPAN;
+        } else if(uColorMode == 6) { // position
+          vColorT = uColorAxis == 0 ? p.x : uColorAxis == 1 ? p.y : length(p - 0.5) * 1.41421;
+        } else if(uColorMode == 7) { // depth: the export has no depth field, like a studio layer without one
+          vColorT = 1.0;
+        } else if(uColorMode == 8) { // per-particle random
+          vColorT = fract(sin(aSeed * 29.1931) * 43758.5453);
+        }
+        if(vColorT > -0.5) vColorT = clamp(vColorT, 0.0, 1.0);
+        
+        // Weighted glyph pick, stable per particle
+        vShape = 0;
+        if(uGlyphCount > 0) {
+          float r = fract(sin(aSeed * 43.789) * 43758.5453);
+          float cumWeight = 0.0;
+          for(int i = 0; i < 8; i++) {
+            if(i >= uGlyphCount) break;
+            cumWeight += uGlyphWeights[i];
+            vShape = uGlyphPalette[i];
+            if(r < cumWeight) break;
+          }
+        }
+        
         // Calculate size range from base size + offsets
         float minSize = max(0.5, uPointSize + uPointSizeMin);
         float maxSize = uPointSize + uPointSizeMax;
@@ -287,6 +365,9 @@ class StandaloneParticleEngine {
       in float vSeed;
       in vec2 vVelocity;
       in float vSpeed;
+      flat in int vShape;
+      in vec2 vImagePos;
+      in float vColorT;
       
       uniform float uBrightness;
       uniform float uExposure;
@@ -294,17 +375,35 @@ class StandaloneParticleEngine {
       uniform int uMonochrome;
       uniform int uInvert;
       uniform vec3 uTint;
-      uniform vec3 uTintSecondary;
-      uniform vec3 uTintTertiary;
+      uniform sampler2D uColorLUT;  // layer gradient, baked like the studio's colour LUT
       uniform int uColorMode;
       uniform int uShape;
       uniform int uType;
       uniform float uTrailLength;
+      uniform int uGlyphCount;
+      uniform int uBlendMode;
+      uniform sampler2D uImage;   // image colour mode, row 0 at the top
+      uniform int uHasImage;
+      uniform vec2 uImagePan;
+      uniform float uImageScale;
+      uniform float uImageRotation;
+      uniform vec2 uImageSkew;
       
       out vec4 oCol;
       
       float hash(float n) { return fract(sin(n) * 43758.5453123); }
       
+      // Inverse of the image placement (same as the studio's mask transform)
+      vec2 imageUV(vec2 uv) {
+        vec2 p = uv - 0.5;
+        p = vec2(p.x - p.y * uImageSkew.x, p.y - p.x * uImageSkew.y);
+        float c = cos(-uImageRotation), s = sin(-uImageRotation);
+        p = vec2(c*p.x - s*p.y, s*p.x + c*p.y);
+        p /= max(uImageScale, 0.01);
+        p -= uImagePan * 0.5;
+        return p + 0.5;
+      }
+      
       // Shape SDFs
       float sdCircle(vec2 p, float r) { return length(p) - r; }
       
@@ -351,23 +450,24 @@ class StandaloneParticleEngine {
         
         float sdf = 0.0;
         
-        // Shape selection
-        if(uShape == 0) { // dot
+        // Shape selection (per-particle when a glyph palette is active)
+        int shape = uGlyphCount > 0 ? vShape : uShape;
+        if(shape == 0) { // dot
           sdf = sdCircle(p, 0.7);
-        } else if(uShape == 1) { // star
+        } else if(shape == 1) { // star
           sdf = sdStar(p, 0.5, 5, 2.5);
-        } else if(uShape == 2) { // dash
+        } else if(shape == 2) { // dash
           sdf = sdBox(p, vec2(0.8, 0.15));
-        } else if(uShape == 3) { // tilde
+        } else if(shape == 3) { // tilde
           float wave = sin(p.x * 4.0) * 0.2;
           sdf = abs(p.y - wave) - 0.15;
-        } else if(uShape == 4) { // square
+        } else if(shape == 4) { // square
           sdf = sdBox(p, vec2(0.6, 0.6));
-        } else if(uShape == 5) { // diamond
+        } else if(shape == 5) { // diamond
           sdf = sdDiamond(p, 0.7);
-        } else if(uShape == 6) { // ring
+        } else if(shape == 6) { // ring
           sdf = sdRing(p, 0.5, 0.15);
-        } else if(uShape == 7) { // cross
+        } else if(shape == 7) { // cross
           sdf = sdCross(p, 0.7, 0.15);
         }
         
@@ -407,25 +507,14 @@ class StandaloneParticleEngine {
         if(uMonochrome == 0) {
           if(uColorMode == 0) { // Single color
             col = vec3(v) * uTint;
-          } else if(uColorMode == 1) { // Gradient
-            float t = fract(vSeed + vSpeed * 2.0);
-            if(t < 0.5) {
-              col = mix(uTint, uTintSecondary, t * 2.0) * v;
-            } else {
-              col = mix(uTintSecondary, uTintTertiary, (t - 0.5) * 2.0) * v;
+          } else if(vColorT > -0.5) { // Gradient-indexed modes
+            col = texture(uColorLUT, vec2((vColorT * 255.0 + 0.5) / 256.0, 0.5)).rgb * v;
+          } else if(uColorMode == 9) { // Image: outside the picture keeps the layer colour
+            vec2 t = imageUV(vImagePos);
+            col = uTint * v;
+            if(uHasImage == 1 && t.x >= 0.0 && t.x <= 1.0 && t.y >= 0.0 && t.y <= 1.0) {
+              col = texture(uImage, vec2(t.x, 1.0 - t.y)).rgb * v;
             }
-          } else if(uColorMode == 2) { // Scheme
-            float pick = fract(vSeed * 3.14159);
-            if(pick < 0.33) {
-              col = uTint * v;
-            } else if(pick < 0.66) {
-              col = uTintSecondary * v;
-            } else {
-              col = uTintTertiary * v;
-            }
-          } else if(uColorMode == 3) { // Range
-            float t = fract(vSeed + vSpeed);
-            col = mix(uTint, uTintSecondary, t) * v;
           }
           
           // Type-specific coloring
@@ -439,11 +528,19 @@ class StandaloneParticleEngine {
           if(uType == 5) { // liquid: slight blue tint
             col = mix(col, vec3(0.6, 0.8, 1.0) * v, 0.2);
           }
+        } else if(uColorMode == 9 && uHasImage == 1) {
+          // Monochrome: the picture only contributes its brightness
+          vec2 t = imageUV(vImagePos);
+          if(t.x >= 0.0 && t.x <= 1.0 && t.y >= 0.0 && t.y <= 1.0) {
+            col = vec3(dot(texture(uImage, vec2(t.x, 1.0 - t.y)).rgb, vec3(0.299, 0.587, 0.114)) * v);
+          }
         }
         
         if(uInvert == 1) col = vec3(1.0) - col;
         
         if(v < 0.01) discard;
+        // Darken blends with MIN, so composite over white first
+        if(uBlendMode == 6) col += vec3(1.0 - v);
         oCol = vec4(col, v);
       }
     \`;
@@ -466,13 +563,17 @@ class StandaloneParticleEngine {
     this.aPosition = gl.getAttribLocation(this.program, 'aPosition');
     this.aVelocity = gl.getAttribLocation(this.program, 'aVelocity');
     this.aSeed = gl.getAttribLocation(this.program, 'aSeed');
+    this.aOrigin = gl.getAttribLocation(this.program, 'aOrigin');
+    this.aBirth = gl.getAttribLocation(this.program, 'aBirth');
     
     // Get uniform locations
     this.uniforms = {};
     const uniformNames = [
       'uResolution', 'uPointSize', 'uPointSizeMin', 'uPointSizeMax', 'uSizeJitter',
       'uTrailLength', 'uType', 'uBrightness', 'uExposure', 'uDither', 'uMonochrome',
-      'uInvert', 'uTint', 'uTintSecondary', 'uTintTertiary', 'uColorMode', 'uShape'
+      'uInvert', 'uTint', 'uColorLUT', 'uColorMode', 'uColorAxis', 'uColorVelocityMax', 'uTime', 'uShape',
+      'uGlyphCount', 'uGlyphPalette', 'uGlyphWeights', 'uBlendMode',
+      'uImage', 'uHasImage', 'uImagePan', 'uImageScale', 'uImageRotation', 'uImageSkew', 'uImageSpawn'
     ];
     for (const name of uniformNames) {
       this.uniforms[name] = gl.getUniformLocation(this.program, name);
@@ -501,11 +602,16 @@ class StandaloneParticleEngine {
     const positions = new Float32Array(count * 2);
     const velocities = new Float32Array(count * 2);
     const seeds = new Float32Array(count);
+    const origins = new Float32Array(count * 2);
+    const births = new Float32Array(count);
+    // Boundary state per particle: 0 alive, 1 destroyed, 2 stuck; hits drive slowBounce
+    const states = new Uint8Array(count);
+    const hits = new Uint16Array(count);
     
     // Initialize particles
     for (let i = 0; i < count; i++) {
-      seeds[i] = Math.random();
-      this.initParticle(i, positions, velocities, seeds, config);
+      seeds[i] = random();
+      this.initParticle(i, positions, velocities, seeds, config, origins, births);
     }
     
     const gl = this.gl;
@@ -532,22 +638,82 @@ class StandaloneParticleEngine {
     gl.enableVertexAttribArray(this.aSeed);
     gl.vertexAttribPointer(this.aSeed, 1, gl.FLOAT, false, 0, 0);
     
+    const originBuffer = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, originBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, origins, gl.DYNAMIC_DRAW);
+    gl.enableVertexAttribArray(this.aOrigin);
+    gl.vertexAttribPointer(this.aOrigin, 2, gl.FLOAT, false, 0, 0);
+    
+    const birthBuffer = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, birthBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, births, gl.DYNAMIC_DRAW);
+    gl.enableVertexAttribArray(this.aBirth);
+    gl.vertexAttribPointer(this.aBirth, 1, gl.FLOAT, false, 0, 0);
+    
     gl.bindVertexArray(null);
     
-    return {
+    const layer = {
       config,
       count,
       positions,
       velocities,
       seeds,
+      states,
+      hits,
       vao,
       positionBuffer,
       velocityBuffer,
       seedBuffer,
+      origins,
+      originBuffer,
+      births,
+      birthBuffer,
+      imageTex: null,
+      colorLUT: this.createColorLUT(config),
     };
+    if (config.colorMode === 'image' && config.colorImageUrl) this.loadColorImage(layer, config.colorImageUrl);
+    return layer;
   }
   
-  initParticle(i, positions, velocities, seeds, config) {
+  // Bake the colours a gradient-indexed colour mode looks up (matching the studio's colour LUT)
+  createColorLUT(config) {
+    const gl = this.gl;
+    const stops = layerGradientStops(config);
+    const data = new Uint8Array(COLOR_LUT_SIZE * 4);
+    for (let i = 0; i < COLOR_LUT_SIZE; i++) {
+      const c = sampleGradient(stops, i / (COLOR_LUT_SIZE - 1));
+      data.set([c.r * 255, c.g * 255, c.b * 255, 255], i * 4);
+    }
+    const tex = gl.createTexture();
+    gl.bindTexture(gl.TEXTURE_2D, tex);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, COLOR_LUT_SIZE, 1, 0, gl.RGBA, gl.UNSIGNED_BYTE, data);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+    return tex;
+  }
+  
+  // Image colour mode: the picture is embedded in SCENE_DATA as a data URL
+  loadColorImage(layer, url) {
+    const img = new Image();
+    img.onload = () => {
+      const gl = this.gl;
+      const tex = gl.createTexture();
+      gl.bindTexture(gl.TEXTURE_2D, tex);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, gl.RGBA, gl.UNSIGNED_BYTE, img);
+      gl.bindTexture(gl.TEXTURE_2D, null);
+      layer.imageTex = tex;
+    };
+    img.src = url;
+  }
+  
+  initParticle(i, positions, velocities, seeds, config, origins, births) {
     const w = this.canvas.width;
     const h = this.canvas.height;
     const region = config.spawnConfig?.region || 'random';
@@ -558,7 +724,7 @@ class StandaloneParticleEngine {
     const burstSpeed = spawnConfig.burstSpeed ?? 0.3;
     
     let x, y;
-    const rand = Math.random;
+    const rand = random;
     const spread = edgeSpread;
     const offset = edgeOffset;
     
@@ -614,6 +780,9 @@ class StandaloneParticleEngine {
     
     positions[i * 2] = x;
     positions[i * 2 + 1] = y;
+    origins[i * 2] = x;
+    origins[i * 2 + 1] = y;
+    births[i] = this.time;
     
     // Get spawn velocity based on region and type
     const seed = seeds[i];
@@ -799,8 +968,8 @@ class StandaloneParticleEngine {
       }
       
       case PATTERN_BROWNIAN: {
-        const angle = Math.random() * 6.28318;
-        const mag = patternSpeed * (0.5 + Math.random() * 0.5);
+        const angle = random() * 6.28318;
+        const mag = patternSpeed * (0.5 + random() * 0.5);
         fx = Math.cos(angle) * mag * w;
         fy = Math.sin(angle) * mag * h;
         break;
@@ -846,11 +1015,20 @@ class StandaloneParticleEngine {
       
       gl.bindBuffer(gl.ARRAY_BUFFER, layer.velocityBuffer);
       gl.bufferSubData(gl.ARRAY_BUFFER, 0, layer.velocities);
+      
+      if (layer.config.colorMode === 'image') {
+        gl.bindBuffer(gl.ARRAY_BUFFER, layer.originBuffer);
+        gl.bufferSubData(gl.ARRAY_BUFFER, 0, layer.origins);
+      }
+      if (layer.config.colorMode === 'age') {
+        gl.bindBuffer(gl.ARRAY_BUFFER, layer.birthBuffer);
+        gl.bufferSubData(gl.ARRAY_BUFFER, 0, layer.births);
+      }
     }
   }
   
   updateLayer(layer, dt) {
-    const { config, positions, velocities, seeds, count } = layer;
+    const { config, positions, velocities, seeds, origins, births, states, hits, count } = layer;
     const w = this.canvas.width;
     const h = this.canvas.height;
     
@@ -869,6 +1047,7 @@ class StandaloneParticleEngine {
     const boundaryBounce = config.boundaryBounce ?? 0.5;
     const spawnRate = config.spawnRate ?? 0;
     const decayRate = config.decayRate ?? 0.3;
+    const accumulationTime = config.accumulationTime ?? 2.0;
     
     // Get type-specific properties
     const typeProps = TYPE_PROPS[config.type] || TYPE_PROPS.dust;
@@ -884,6 +1063,28 @@ class StandaloneParticleEngine {
       let vy = velocities[i * 2 + 1];
       const seed = seeds[i];
       
+      // ===== DESTROYED / STUCK PARTICLES =====
+      // States only persist while their boundary mode is active
+      if (states[i] === 1 && boundaryMode === 'destroy') {
+        // Hidden until spawnRate replenishes it
+        if (random() < spawnRate * dt * 6.0) {
+          states[i] = 0;
+          hits[i] = 0;
+          this.initParticle(i, positions, velocities, seeds, config, origins, births);
+        }
+        continue;
+      }
+      if (states[i] === 2 && boundaryMode === 'stick') {
+        // Pinned to the edge until it decays
+        if (random() < decayRate * dt * 0.5 / Math.max(accumulationTime, 0.1)) {
+          states[i] = 0;
+          hits[i] = 0;
+          this.initParticle(i, positions, velocities, seeds, config, origins, births);
+        }
+        continue;
+      }
+      states[i] = 0;
+      
       // ===== FORCE CALCULATIONS =====
       
       // Gravity with type-specific mass and buoyancy (screen coords: +y is down)
@@ -922,8 +1123,8 @@ class StandaloneParticleEngine {
       // Jitter with type-specific scaling
       if (jitter > 0) {
         const jt = jitter * typeProps.jitterScale;
-        vx += (Math.random() - 0.5) * jt * w * 0.1 * dt;
-        vy += (Math.random() - 0.5) * jt * h * 0.1 * dt;
+        vx += (random() - 0.5) * jt * w * 0.1 * dt;
+        vy += (random() - 0.5) * jt * h * 0.1 * dt;
       }
       
       // Movement pattern force
@@ -980,7 +1181,7 @@ class StandaloneParticleEngine {
         
         // Pooling behavior
         if (slowFactor > 0.5) {
-          vx += (Math.random() - 0.5) * 0.015 * w * slowFactor * dt;
+          vx += (random() - 0.5) * 0.015 * w * slowFactor * dt;
           vy *= 0.98;
         }
       }
@@ -1013,15 +1214,15 @@ class StandaloneParticleEngine {
       // Type-specific respawn
       if (type === 'sand') {
         // Sand settles at bottom (y near h in screen coords)
-        if (y > 0.99 * h && Math.abs(vy) < 0.001 * h && Math.random() < spawnRate) shouldRespawn = true;
+        if (y > 0.99 * h && Math.abs(vy) < 0.001 * h && random() < spawnRate) shouldRespawn = true;
       } else if (type === 'sparks') {
-        if (speedMag < 0.003 && Math.random() < spawnRate * 0.5 + decayRate * 0.1) shouldRespawn = true;
+        if (speedMag < 0.003 && random() < spawnRate * 0.5 + decayRate * 0.1) shouldRespawn = true;
       } else if (type === 'crumbs') {
-        if (Math.random() < spawnRate * 0.01) shouldRespawn = true;
+        if (random() < spawnRate * 0.01) shouldRespawn = true;
       } else if (type === 'liquid') {
-        if (speedMag < 0.005 && Math.random() < decayRate * 0.2 * dt) shouldRespawn = true;
+        if (speedMag < 0.005 && random() < decayRate * 0.2 * dt) shouldRespawn = true;
       } else {
-        if (Math.random() < spawnRate * 0.02) shouldRespawn = true;
+        if (random() < spawnRate * 0.02) shouldRespawn = true;
       }
       
       // ===== BOUNDARY HANDLING =====
@@ -1033,18 +1234,42 @@ class StandaloneParticleEngine {
           if (x > w) x -= w;
           if (y < 0) y += h;
           if (y > h) y -= h;
-        } else if (boundaryMode === 'bounce') {
-          if (x < 0) { x = 0; vx = -vx * boundaryBounce; }
-          if (x > w) { x = w; vx = -vx * boundaryBounce; }
-          if (y < 0) { y = 0; vy = -vy * boundaryBounce; }
-          if (y > h) { y = h; vy = -vy * boundaryBounce; }
+        } else if (boundaryMode === 'bounce' || boundaryMode === 'slowBounce') {
+          let bounce = boundaryBounce;
+          if (boundaryMode === 'slowBounce') {
+            // Every hit keeps less energy than the last
+            hits[i]++;
+            bounce *= Math.pow(0.7, hits[i]);
+            vx *= 0.9;
+            vy *= 0.9;
+          }
+          if (x < 0) { x = 0; vx = -vx * bounce; }
+          if (x > w) { x = w; vx = -vx * bounce; }
+          if (y < 0) { y = 0; vy = -vy * bounce; }
+          if (y > h) { y = h; vy = -vy * bounce; }
+        } else if (boundaryMode === 'stick') {
+          x = Math.min(Math.max(x, 0), w);
+          y = Math.min(Math.max(y, 0), h);
+          vx = 0;
+          vy = 0;
+          states[i] = 2;
+          shouldRespawn = false;
+        } else if (boundaryMode === 'destroy') {
+          // Park the particle off-screen so it is not drawn
+          x = -w;
+          y = -h;
+          vx = 0;
+          vy = 0;
+          states[i] = 1;
+          shouldRespawn = false;
         } else { // respawn
           shouldRespawn = true;
         }
       }
       
       if (shouldRespawn) {
-        this.initParticle(i, positions, velocities, seeds, config);
+        hits[i] = 0;
+        this.initParticle(i, positions, velocities, seeds, config, origins, births);
         continue;
       }
       
@@ -1065,21 +1290,26 @@ class StandaloneParticleEngine {
     gl.clearColor(0, 0, 0, fade);
     gl.clear(gl.COLOR_BUFFER_BIT);
     
-    // Enable blending (additive)
     gl.enable(gl.BLEND);
-    gl.blendFunc(gl.ONE, gl.ONE);
     
     gl.useProgram(this.program);
     gl.uniform2f(this.uniforms.uResolution, this.canvas.width, this.canvas.height);
     gl.uniform1f(this.uniforms.uExposure, this.global.exposure ?? 1);
     gl.uniform1i(this.uniforms.uMonochrome, this.global.monochrome ? 1 : 0);
     gl.uniform1i(this.uniforms.uInvert, this.global.invert ? 1 : 0);
+    gl.uniform1f(this.uniforms.uTime, this.time);
     
-    // Render each layer
-    for (const layer of this.layers) {
+    // Render each layer bottom-up: background kinds, then the rest, then foreground
+    // (within a kind the first layer in the list is the top one)
+    const kindRank = (layer) => ({ background: 0, foreground: 2 })[layer.config.kind] ?? 1;
+    const stack = [...this.layers].reverse().sort((a, b) => kindRank(a) - kindRank(b));
+    for (const layer of stack) {
       if (!layer.config.enabled) continue;
       
       const config = layer.config;
+      const blendMode = BLEND_MODE_MAP[config.blendMode] ?? 0;
+      this.setBlendMode(blendMode);
+      gl.uniform1i(this.uniforms.uBlendMode, blendMode);
       
       // Point size parameters
       gl.uniform1f(this.uniforms.uPointSize, config.pointSize ?? 3);
@@ -1096,36 +1326,52 @@ class StandaloneParticleEngine {
       const shapeMap = { dot: 0, star: 1, dash: 2, tilde: 3, square: 4, diamond: 5, ring: 6, cross: 7 };
       gl.uniform1i(this.uniforms.uShape, shapeMap[config.shape] ?? 0);
       
+      // Glyph palette: a single entry just mirrors config.shape
+      const palette = (config.glyphPalette || []).filter(e => e.weight > 0).slice(0, 8);
+      const glyphShapes = new Int32Array(8);
+      const glyphWeights = new Float32Array(8);
+      let glyphCount = 0;
+      if (palette.length > 1) {
+        const total = palette.reduce((sum, e) => sum + e.weight, 0);
+        palette.forEach((e, i) => {
+          glyphShapes[i] = shapeMap[e.shape] ?? 0;
+          glyphWeights[i] = e.weight / total;
+        });
+        glyphCount = palette.length;
+      }
+      gl.uniform1i(this.uniforms.uGlyphCount, glyphCount);
+      gl.uniform1iv(this.uniforms.uGlyphPalette, glyphShapes);
+      gl.uniform1fv(this.uniforms.uGlyphWeights, glyphWeights);
+      
       // Visual parameters
       gl.uniform1f(this.uniforms.uBrightness, config.brightness ?? 1);
       gl.uniform1f(this.uniforms.uDither, config.dither ?? 0);
       
-      // Color mode and colors
-      const colorModeMap = { single: 0, gradient: 1, scheme: 2, range: 3 };
-      gl.uniform1i(this.uniforms.uColorMode, colorModeMap[config.colorMode] ?? 0);
-      
-      // Primary color
+      // Color mode: a single tint, an index into the layer's gradient LUT, or the colour image
+      gl.uniform1i(this.uniforms.uColorMode, COLOR_MODE_MAP[config.colorMode] ?? 0);
       const tint = hexToRGB(config.color || '#ffffff');
       gl.uniform3f(this.uniforms.uTint, tint.r, tint.g, tint.b);
+      gl.activeTexture(gl.TEXTURE1);
+      gl.bindTexture(gl.TEXTURE_2D, layer.colorLUT);
+      gl.uniform1i(this.uniforms.uColorLUT, 1);
+      gl.uniform1i(this.uniforms.uColorAxis, COLOR_AXIS_MAP[config.colorPositionAxis] ?? 0);
+      gl.uniform1f(this.uniforms.uColorVelocityMax, config.colorVelocityMax ?? 0.05);
       
-      // Secondary and tertiary colors based on color mode
-      let secondary = { r: 0.5, g: 0.5, b: 0.5 };
-      let tertiary = { r: 0.3, g: 0.3, b: 0.3 };
-      
-      if (config.colorMode === 'gradient') {
-        secondary = hexToRGB(config.colorSecondary || '#888888');
-        tertiary = hexToRGB(config.colorTertiary || '#444444');
-      } else if (config.colorMode === 'scheme') {
-        const scheme = COLOR_SCHEMES[config.colorScheme] || COLOR_SCHEMES.warm;
-        gl.uniform3f(this.uniforms.uTint, scheme[0].r, scheme[0].g, scheme[0].b);
-        secondary = scheme[1];
-        tertiary = scheme[2];
-      } else if (config.colorMode === 'range') {
-        secondary = hexToRGB(config.colorRangeEnd || '#ffffff');
-      }
-      
-      gl.uniform3f(this.uniforms.uTintSecondary, secondary.r, secondary.g, secondary.b);
-      gl.uniform3f(this.uniforms.uTintTertiary, tertiary.r, tertiary.g, tertiary.b);
+      // Image colour mode placement (matching the studio's colorImageTransform)
+      const imageTransform = config.colorImageTransform || { x: 0, y: 0, scale: 1, rotation: 0, skewX: 0, skewY: 0 };
+      gl.activeTexture(gl.TEXTURE0);
+      gl.bindTexture(gl.TEXTURE_2D, layer.imageTex);
+      gl.uniform1i(this.uniforms.uImage, 0);
+      gl.uniform1i(this.uniforms.uHasImage, layer.imageTex ? 1 : 0);
+      gl.uniform1i(this.uniforms.uImageSpawn, config.colorImageSampling === 'spawn' ? 1 : 0);
+      gl.uniform2f(this.uniforms.uImagePan, imageTransform.x, imageTransform.y);
+      gl.uniform1f(this.uniforms.uImageScale, imageTransform.scale);
+      gl.uniform1f(this.uniforms.uImageRotation, imageTransform.rotation * Math.PI / 180);
+      gl.uniform2f(
+        this.uniforms.uImageSkew,
+        Math.tan(imageTransform.skewX * Math.PI / 180),
+        Math.tan(imageTransform.skewY * Math.PI / 180)
+      );
       
       gl.bindVertexArray(layer.vao);
       gl.drawArrays(gl.POINTS, 0, layer.count);
@@ -1134,12 +1380,34 @@ class StandaloneParticleEngine {
     gl.bindVertexArray(null);
   }
   
+  // Per-layer blend state (matching studio); particle colour is premultiplied by alpha
+  setBlendMode(mode) {
+    const gl = this.gl;
+    const rgbEquation =
+      mode === 4 ? gl.FUNC_REVERSE_SUBTRACT : mode === 5 ? gl.MAX : mode === 6 ? gl.MIN : gl.FUNC_ADD;
+    gl.blendEquationSeparate(rgbEquation, gl.FUNC_ADD);
+    if (mode === 1) {
+      gl.blendFuncSeparate(gl.ONE, gl.ONE_MINUS_SRC_ALPHA, gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+    } else if (mode === 2) {
+      gl.blendFuncSeparate(gl.DST_COLOR, gl.ONE_MINUS_SRC_ALPHA, gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+    } else if (mode === 3) {
+      gl.blendFuncSeparate(gl.ONE, gl.ONE_MINUS_SRC_COLOR, gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+    } else {
+      gl.blendFuncSeparate(gl.ONE, gl.ONE, gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+    }
+  }
+  
   animate() {
     const now = performance.now();
-    const dt = Math.min((now - this.lastTime) / 1000, 0.1);
+    // Fixed-timestep scenes ignore the wall clock so they replay the same way
+    const fixed = this.global.fixedTimestep;
+    const dt = fixed
+      ? 1 / Math.max(1, this.global.fixedStepRate ?? 60)
+      : Math.min((now - this.lastTime) / 1000, 0.1);
+    const substeps = fixed ? Math.max(1, Math.min(8, Math.round(this.global.substeps ?? 1))) : 1;
     this.lastTime = now;
     
-    this.update(dt);
+    for (let s = 0; s < substeps; s++) this.update(dt / substeps);
     this.render();
     
     requestAnimationFrame(() => this.animate());
@@ -1151,10 +1419,19 @@ class StandaloneParticleEngine {
   }
   
   reset() {
+    // Restart the random stream and redo initialisation in createLayer order
+    random = createRandom(this.global.seed ?? 0);
+    this.time = 0;
+    const gl = this.gl;
     for (const layer of this.layers) {
+      layer.states.fill(0);
+      layer.hits.fill(0);
       for (let i = 0; i < layer.count; i++) {
-        this.initParticle(i, layer.positions, layer.velocities, layer.seeds, layer.config);
+        layer.seeds[i] = random();
+        this.initParticle(i, layer.positions, layer.velocities, layer.seeds, layer.config, layer.origins, layer.births);
       }
+      gl.bindBuffer(gl.ARRAY_BUFFER, layer.seedBuffer);
+      gl.bufferData(gl.ARRAY_BUFFER, layer.seeds, gl.STATIC_DRAW);
     }
   }
 }
@@ -1169,6 +1446,46 @@ function hexToRGB(hex) {
   } : { r: 1, g: 1, b: 1 };
 }
 
+// Gradient a layer's colour mode indexes (matching studio): scheme colours as hard bands,
+// the range end points, or the layer gradient (rebuilt from the old three colours if missing)
+function layerGradientStops(config) {
+  if (config.colorMode === 'scheme') {
+    const [a, b, c] = COLOR_SCHEMES[config.colorScheme] || COLOR_SCHEMES.mono;
+    return [
+      { t: 0, color: a }, { t: 0.33, color: a },
+      { t: 0.33, color: b }, { t: 0.66, color: b },
+      { t: 0.66, color: c }, { t: 1, color: c },
+    ];
+  }
+  if (config.colorMode === 'range') {
+    return [
+      { t: 0, color: hexToRGB(config.colorRangeStart || '#ff0000') },
+      { t: 1, color: hexToRGB(config.colorRangeEnd || '#0000ff') },
+    ];
+  }
+  const stops = config.colorGradient || [
+    { t: 0, color: config.color || '#ffffff' },
+    { t: 0.5, color: config.colorSecondary || '#888888' },
+    { t: 1, color: config.colorTertiary || '#444444' },
+  ];
+  if (stops.length === 0) return [{ t: 0, color: hexToRGB(config.color || '#ffffff') }];
+  return stops.map(s => ({ t: s.t, color: hexToRGB(s.color) }));
+}
+
+// Gradient colour at t, interpolated between the surrounding stops
+function sampleGradient(stops, t) {
+  const sorted = [...stops].sort((a, b) => a.t - b.t);
+  if (t <= sorted[0].t) return sorted[0].color;
+  for (let i = 1; i < sorted.length; i++) {
+    if (t > sorted[i].t) continue;
+    const a = sorted[i - 1].color;
+    const b = sorted[i].color;
+    const f = (t - sorted[i - 1].t) / Math.max(sorted[i].t - sorted[i - 1].t, 1e-6);
+    return { r: a.r + (b.r - a.r) * f, g: a.g + (b.g - a.g) * f, b: a.b + (b.b - a.b) * f };
+  }
+  return sorted[sorted.length - 1].color;
+}
+
 // Initialize
 document.addEventListener('DOMContentLoaded', () => {
   const canvas = document.getElementById('canvas');
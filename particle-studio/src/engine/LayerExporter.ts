@@ -14,13 +14,19 @@ export type LayerSettingsFile = {
   version: string;
   exportedAt: string;
   layerName: string;
+  seed?: number; // global seed at export time, so the layer can be replayed exactly
   settings: Omit<LayerConfig, "id">;
 };
 
+export type ImportedLayerSettings = {
+  settings: Omit<LayerConfig, "id">;
+  seed?: number;
+};
+
 /**
  * Export a layer's settings to a JSON file
  */
-export function exportLayerSettings(layer: LayerConfig): void {
+export function exportLayerSettings(layer: LayerConfig, seed?: number): void {
   // Create a copy without the id (will be regenerated on import)
   const { id, ...settings } = layer;
   
@@ -28,6 +34,7 @@ export function exportLayerSettings(layer: LayerConfig): void {
     version: LAYER_SETTINGS_VERSION,
     exportedAt: new Date().toISOString(),
     layerName: layer.name,
+    seed,
     settings: settings as Omit<LayerConfig, "id">,
   };
   
@@ -46,9 +53,9 @@ export function exportLayerSettings(layer: LayerConfig): void {
 
 /**
  * Import layer settings from a JSON file
- * Returns the parsed settings or throws an error if invalid
+ * Returns the parsed settings (and seed, if the file has one) or throws an error if invalid
  */
-export async function importLayerSettings(file: File): Promise<Omit<LayerConfig, "id">> {
+export async function importLayerSettings(file: File): Promise<ImportedLayerSettings> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     
@@ -69,7 +76,7 @@ export async function importLayerSettings(file: File): Promise<Omit<LayerConfig,
         }
         
         // Return the settings (id will be generated by the store)
-        resolve(settings);
+        resolve({ settings, seed: typeof data.seed === "number" ? data.seed : undefined });
       } catch (err) {
         reject(new Error(`Failed to parse layer settings: ${err instanceof Error ? err.message : String(err)}`));
       }
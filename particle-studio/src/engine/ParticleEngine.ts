@@ -1,7 +1,15 @@
-import type { GlobalConfig, LayerConfig, AudioMapping, AudioSource } from "../state/types";
-import { createFbo, createProgram, createTexture, makeQuadVAO, must, loadImageBitmap } from "./gl";
+import type {
+  GlobalConfig, LayerConfig, AudioMapping, AudioSource, ColorRegionEffect, SpriteConfig, FrameStats, FlowPath, SubEmitter,
+  CurvePoint, GradientStop, LifeCurves, MorphTarget
+} from "../state/types";
+import {
+  attachColorTextures, createFbo, createProgram, createTexture, makeQuadVAO, must, loadImageBitmap,
+  getUniformLocations, getUniformBlockLayout, UniformBlockData, type UniformBlockLayout
+} from "./gl";
 import { 
   simVS, simFS, renderVS, renderFS, blitVS, blitFS,
+  binVS, binFS, densityVS, densityFS, subEmitVS, subEmitFS,
+  trailUpdateFS, layerCompositeFS, metaballShadeFS, originFS,
   depthGenVS, depthGenFS,
   smearUpdateVS, smearUpdateFS,
   rippleUpdateVS, rippleUpdateFS,
@@ -9,10 +17,34 @@ import {
   fieldCompositeVS, fieldCompositeFS
 } from "./shaders";
 import type { AudioAnalysisData } from "./AudioEngine";
+import { renderTextCanvas } from "./textCanvas";
+import { MIN_LAYER_PARTICLES, MAX_LAYER_PARTICLES, defaultColorGradient } from "../state/store";
 
 // Constants
 const MAX_ATTRACTION_POINTS = 8;
 
+// Maximum number of shapes in a layer's glyph palette
+const MAX_GLYPHS = 8;
+
+// Maximum number of colour regions per layer (columns of the region data texture)
+const MAX_COLOR_REGIONS = 16;
+
+// Longest side of the CPU-classified region lookup texture
+const REGION_LOOKUP_SIZE = 512;
+
+// Longest side of the downsized picture image seeds and morph targets pick positions from
+const SEED_SAMPLE_SIZE = 256;
+
+// Morph targets: at most MAX_MORPH_TARGETS, text rasterised at MORPH_TEXT_SIZE px,
+// shapes fitted inside the canvas with MORPH_MARGIN left on each side
+const MAX_MORPH_TARGETS = 8;
+const MORPH_TEXT_SIZE = 160;
+const MORPH_MARGIN = 0.1;
+
+// Sprite atlas: square cells of SPRITE_CELL_SIZE px, at most MAX_SPRITE_FRAMES of them
+const SPRITE_CELL_SIZE = 128;
+const MAX_SPRITE_FRAMES = 64;
+
 // Attraction type and effect mappings (constant to avoid recreation)
 const ATTRACTION_TYPE_MAP: Record<string, number> = { 
   direct: 0, spiral: 1, blackhole: 2, pulsing: 3, magnetic: 4 
@@ -21,6 +53,55 @@ const ATTRACTION_EFFECT_MAP: Record<string, number> = {
   none: 0, despawn: 1, orbit: 2, concentrate: 3, transform: 4, passToNext: 5 
 };
 
+const BOUNDARY_MODE_MAP: Record<string, number> = {
+  respawn: 0, bounce: 1, wrap: 2, stick: 3, destroy: 4, slowBounce: 5
+};
+
+// Mask behavior and border effect mappings
+const MASK_BEHAVIOR_MAP: Record<string, number> = {
+  containment: 0, borderEffect: 1, colorRegions: 2, pathing: 3
+};
+const BORDER_EFFECT_MAP: Record<string, number> = {
+  deflect: 0, smear: 1, absorb: 2, repel: 3, transform: 4, fragment: 5, passThrough: 6
+};
+
+const SPAWN_REGION_MAP: Record<string, number> = {
+  random: 0, topEdge: 1, bottomEdge: 2, leftEdge: 3, rightEdge: 4,
+  offCanvasTop: 5, offCanvasBottom: 6, offCanvasLeft: 7, offCanvasRight: 8,
+  center: 9, centerBurst: 10, mask: 11, maskEdge: 12, custom: 13
+};
+const PARTICLE_TYPE_MAP: Record<string, number> = {
+  sand: 0, dust: 1, sparks: 2, ink: 3, crumbs: 4, liquid: 5
+};
+const MOVEMENT_PATTERN_MAP: Record<string, number> = {
+  still: 0, linear: 1, spiral: 2, orbit: 3, radialOut: 4, radialIn: 5,
+  wave: 6, figure8: 7, brownian: 8, followCurl: 9, vortex: 10,
+  evade: 11, clusters: 12
+};
+
+// Uniform buffer binding point of simFS's LayerParams block
+const LAYER_PARAMS_BINDING = 0;
+
+// Benchmark mode alternates between the legacy and cached uniform paths every
+// BENCHMARK_WINDOW frames and keeps a moving average of step()'s CPU time for each
+const BENCHMARK_WINDOW = 60;
+const BENCHMARK_SMOOTHING = 0.05;
+
+// Draw order, bottom-up: background layers, then the rest, then foreground layers.
+// Within a group the first layer in the list is the top one.
+const KIND_STACK_RANK: Record<string, number> = { background: 0, foreground: 2 };
+
+function stackOrder(layers: LayerConfig[]): LayerConfig[] {
+  return [...layers]
+    .reverse()
+    .sort((a, b) => (KIND_STACK_RANK[a.kind] ?? 1) - (KIND_STACK_RANK[b.kind] ?? 1));
+}
+
+// Layer blend modes (renderFS special-cases darken)
+const BLEND_MODE_MAP: Record<string, number> = {
+  additive: 0, alpha: 1, multiply: 2, screen: 3, subtract: 4, lighten: 5, darken: 6
+};
+
 // Apply audio mapping to a base value
 function applyAudioMapping(
   baseValue: number,
@@ -54,9 +135,9 @@ type PingPong = {
 
 type MaskTex = { tex: WebGLTexture; w: number; h: number; url: string };
 
-type FlowTex = { tex: WebGLTexture; pathHash: string };
+type FlowTex = { tex: WebGLTexture; paths: FlowPath[] };
 
-type DepthTex = { tex: WebGLTexture; w: number; h: number; maskUrl: string; config: string };
+type DepthTex = { tex: WebGLTexture; w: number; h: number; maskSource: string; config: string };
 
 type SurfaceField = {
   pingpong: PingPong;
@@ -64,13 +145,150 @@ type SurfaceField = {
   h: number;
 };
 
+// Per-particle auxiliary state, written alongside sim as an extra render target
+// (shares sim's FBOs; texA pairs with sim.texA and so on)
+type AuxTex = { texA: WebGLTexture; texB: WebGLTexture };
+
+// Coarse spatial grid that particles are scattered into for neighbour queries
+type NeighbourBins = {
+  tex: WebGLTexture;    // RG = summed in-cell offset, B = count, A = summed size key
+  velTex: WebGLTexture; // RG = summed velocity, B = summed colour key, A = summed brightness key
+  fbo: WebGLFramebuffer;
+  grid: number;
+};
+
+// Colour region lookup: mask pixels classified to region indices, plus a small
+// parameter table (see colorRegionsGLSL for the layout)
+type RegionTex = {
+  tex: WebGLTexture;     // R = region index + 1, 0 = no region
+  dataTex: WebGLTexture; // RGBA32F, MAX_COLOR_REGIONS x 3
+  lookupKey: string;     // mask url + region colours/tolerances
+  dataKey: string;       // full region config
+};
+
+type SingleBuffer = { tex: WebGLTexture; fbo: WebGLFramebuffer; w: number; h: number };
+
+// A layer's own accumulation target (LayerTrailConfig): particles are drawn into
+// scratch, then faded/warped into acc, which is composited into the scene
+type LayerTrail = {
+  acc: PingPong;
+  scratch: SingleBuffer;
+};
+
+// Inter-layer interactions: one source layer per channel of an RGBA density grid
+const MAX_LAYER_INTERACTIONS = 4;
+const INTERACTION_GRID = 128;
+
+// Sub-emitters: each target layer queues up to MAX_SUB_EMITTER_ROWS incoming
+// sub-emitters, SUB_EMIT_QUEUE_SIZE events per row per step
+const MAX_SUB_EMITTERS = 4;
+const MAX_SUB_EMITTER_ROWS = 4;
+const SUB_EMIT_QUEUE_SIZE = 64;
+const SUB_EMIT_EVENT_MAP: Record<string, number> = {
+  maskCollision: 1, attractorDespawn: 2, decay: 3, boundaryDestroy: 4
+};
+
+// Over-life curve lookup resolution (see u_lifeLUT)
+const LIFE_LUT_SIZE = 64;
+
+// Layer gradient lookup resolution (see u_colorLUT)
+const COLOR_LUT_SIZE = 256;
+
+// Colour modes as indexed by renderVS; 0 draws the single colour, the rest sample the LUT
+const COLOR_MODE_MAP: Record<string, number> = {
+  single: 0, gradient: 1, scheme: 2, range: 3, velocity: 4, age: 5, position: 6, depth: 7, random: 8, image: 9
+};
+const COLOR_AXIS_MAP: Record<string, number> = { x: 0, y: 1, radial: 2 };
+
+// Layer types that can render as a metaball surface (MetaballConfig)
+const METABALL_TYPES = new Set(["liquid", "ink"]);
+
+// Sprite shape frames packed into a grid, row 0 at the top
+type SpriteAtlas = {
+  tex: WebGLTexture;
+  cols: number;
+  rows: number;
+  frames: number;
+  key: string; // spriteConfig the atlas was built from
+};
+
+// Other layers' particle densities as seen by this layer (LayerConfig.interactions)
+type LayerInteractions = {
+  field: SingleBuffer;         // RGBA16F, INTERACTION_GRID square, one source per channel
+  strength: Float32Array;      // per channel, 0 when the source is missing or disabled
+  radius: Float32Array;
+};
+
+// Events queued for this layer by sub-emitters on other layers (or itself)
+type SpawnQueue = {
+  queue: SingleBuffer;     // RGBA32F, SUB_EMIT_QUEUE_SIZE x MAX_SUB_EMITTER_ROWS, texel = pos, vel
+  rows: number;            // incoming sub-emitters this step
+  count: Float32Array;     // per row: particles per event
+  inherit: Float32Array;   // per row: share of the event velocity
+  spread: Float32Array;    // per row: random burst speed
+  cursor: number;          // first particle claimed next step
+};
+
+// Where particles may be placed on a picture (see buildPickWeights)
+type PickWeights = {
+  weights: Float32Array;   // cumulative pick weight per pixel of the downsized picture
+  w: number;
+  h: number;
+  aspect: number;          // picture width / height
+};
+
+// Picture a layer seeds its particles from (LayerConfig.imageSeed)
+type ImageSeed = PickWeights & {
+  tex: WebGLTexture;       // full picture, row 0 at the top (carried colour)
+  key: string;             // url and invert the weights were built from
+  rect: Float32Array;      // placement used by the last seeding: xy = corner, zw = size
+};
+
+// Shapes a layer's particles travel between (LayerConfig.morph)
+type MorphTargets = {
+  tex: WebGLTexture;               // RGBA32F side x side, target position per particle, z = 1
+  keys: string[];                  // per target: the settings its picks were built from
+  picks: (PickWeights | null)[];   // per target, null while loading
+  index: number;                   // target being formed
+  shown: number;                   // target currently in tex (-1 = none yet)
+  elapsed: number;                 // seconds since the last switch
+  beat: boolean;                   // audio beat seen last step (switches on rising edges)
+  keyPressed: boolean;             // trigger key pressed since the last step
+};
+
+// The layer's LayerParams uniform block
+type LayerParamsBlock = {
+  buffer: WebGLBuffer;
+  data: UniformBlockData;
+};
+
 type LayerGPU = {
   id: string;
+  revision: number; // store revision the resources below were last synced to (-1 = never)
+  config: LayerConfig | null; // the config that revision referred to
   particleCount: number;
   side: number; // texture dimension (sqrt of particle count, rounded up)
   sim: PingPong;
+  meta: AuxTex; // RGBA16F; X = cluster bond
+  life: AuxTex; // X = boundary hits, Y = destroyed / stuck state
+  events: AuxTex; // RGBA32F sub-emitter event of the last step (see subEmitEventGLSL)
+  bins: NeighbourBins | null;
+  regions: RegionTex | null;
   mask: MaskTex | null;
   eraseMask: MaskTex | null;
+  spawnMask: MaskTex | null;
+  sprites: SpriteAtlas | null;
+  trail: LayerTrail | null;
+  metaball: SingleBuffer | null; // RGBA16F density field, canvas sized
+  interactions: LayerInteractions | null;
+  spawnQueue: SpawnQueue | null;
+  lifeLUT: WebGLTexture | null; // RGBA16F, LIFE_LUT_SIZE x 2; null without a lifetime or curves
+  colorLUT: WebGLTexture | null; // RGBA16F, COLOR_LUT_SIZE x 1; null in single and image colour modes
+  colorImage: MaskTex | null; // image colour mode picture
+  origin: PingPong | null; // RGBA32F spawn positions (see originFS); only kept while something reads them
+  imageSeed: ImageSeed | null;
+  morph: MorphTargets | null;
+  params: LayerParamsBlock;
   flowTex: FlowTex | null;
   // Material system
   depthTex: DepthTex | null;
@@ -81,7 +299,52 @@ type LayerGPU = {
 
 // Calculate optimal texture dimension from particle count
 function calculateTextureSide(particleCount: number): number {
-  return Math.ceil(Math.sqrt(Math.max(50, Math.min(20000, particleCount))));
+  return Math.ceil(Math.sqrt(Math.max(MIN_LAYER_PARTICLES, Math.min(MAX_LAYER_PARTICLES, particleCount))));
+}
+
+// Half-float bins count exactly only up to 2048 and their sums blur long before that.
+// Without EXT_float_blend, evade grows its grid to keep about this many particles per cell.
+const HALF_FLOAT_BIN_LOAD = 256;
+
+// Neighbour grid layout for layers that need to see nearby particles, or null.
+// Liquid uses half-radius cells so binned centroids stay close to the particles
+// (evade / clusters on a liquid layer share that grid). Evade sizes cells from
+// its radius; clusters aim for a few particles per cell.
+// floatBins: the bins are RGBA32F (blendable through EXT_float_blend).
+function neighbourBinLayout(l: LayerConfig, floatBins: boolean): { grid: number; reach: number; radius: number } | null {
+  if (l.type === "liquid") {
+    // SPH smoothing radius follows the mean particle spacing
+    const radius = Math.max(0.01, Math.min(0.05, 2.5 / Math.sqrt(l.particleCount)));
+    return { grid: Math.round(2 / radius), reach: 2, radius };
+  }
+  if (l.type === "sand" && l.granularConfig?.enabled) {
+    // Occupancy grid: one cell per grain (takes over from neighbour patterns)
+    const grid = Math.max(64, Math.min(512, Math.round(l.granularConfig.gridSize)));
+    return { grid, reach: 1, radius: 1 / grid };
+  }
+  const pattern = l.movementConfig?.pattern;
+  if (pattern === "evade") {
+    const wanted = Math.max(0.01, l.movementConfig.evadeRadius ?? 0.1);
+    // Half-float bins need finer cells; the radius then shrinks to what the search covers
+    const minGrid = floatBins ? 4 : Math.ceil(Math.sqrt(l.particleCount / HALF_FLOAT_BIN_LOAD));
+    const grid = Math.max(4, minGrid, Math.min(128, Math.round(2 / wanted)));
+    const reach = Math.max(1, Math.min(3, Math.ceil(wanted * grid)));
+    return { grid, reach, radius: Math.min(wanted, reach / grid) };
+  }
+  if (pattern === "clusters") {
+    const grid = Math.max(8, Math.min(128, Math.round(Math.sqrt(l.particleCount) / 2)));
+    return { grid, reach: 1, radius: 1.5 / grid };
+  }
+  return null;
+}
+
+// The evade radius a layer is cut to because its bins are half-float, or null when
+// it searches the configured radius (the evade controls warn with this)
+export function reducedEvadeRadius(l: LayerConfig, floatBins: boolean): number | null {
+  if (floatBins) return null;
+  const half = neighbourBinLayout(l, false);
+  const full = neighbourBinLayout(l, true);
+  return half && full && half.radius < full.radius ? half.radius : null;
 }
 
 export class ParticleEngine {
@@ -93,6 +356,13 @@ export class ParticleEngine {
   private simProg: WebGLProgram;
   private renderProg: WebGLProgram;
   private blitProg: WebGLProgram;
+  private binProg: WebGLProgram;
+  private densityProg: WebGLProgram;
+  private subEmitProg: WebGLProgram;
+  private trailUpdateProg: WebGLProgram;
+  private layerCompositeProg: WebGLProgram;
+  private metaballShadeProg: WebGLProgram;
+  private originProg: WebGLProgram;
   // Material system programs
   private depthGenProg: WebGLProgram;
   private smearUpdateProg: WebGLProgram;
@@ -100,6 +370,18 @@ export class ParticleEngine {
   private dentUpdateProg: WebGLProgram;
   private fieldCompositeProg: WebGLProgram;
 
+  // EXT_float_blend: RGBA32F targets can blend (neighbour bins)
+  readonly floatBlend: boolean;
+
+  // Active uniform locations per program, resolved once after linking
+  private uniforms = new Map<WebGLProgram, Map<string, WebGLUniformLocation>>();
+  private layerParamsLayout: UniformBlockLayout;
+
+  // Benchmark mode: legacyUniforms re-resolves every location and re-packs every
+  // layer's parameters each frame, the way the engine used to
+  private legacyUniforms = false;
+  private bench = { frame: 0, legacyMs: 0, cachedMs: 0 };
+
   private layersCPU: LayerConfig[] = [];
   private layersGPU: Map<string, LayerGPU> = new Map();
   private global: GlobalConfig | null = null;
@@ -108,7 +390,7 @@ export class ParticleEngine {
   // accumulation buffers (for trails) - ping-pong between two buffers
   private acc: PingPong;
   // scratch buffer for particle rendering - avoids feedback loop in composite pass
-  private scratch: { tex: WebGLTexture; fbo: WebGLFramebuffer; w: number; h: number } | null = null;
+  private scratch: SingleBuffer | null = null;
 
   private t0 = performance.now();
   private time = 0;
@@ -124,12 +406,20 @@ export class ParticleEngine {
     // Required extensions for float textures as render targets
     const extColorFloat = gl.getExtension("EXT_color_buffer_float");
     if (!extColorFloat) throw new Error("Missing EXT_color_buffer_float (needed for RGBA32F simulation).");
+    this.floatBlend = Boolean(gl.getExtension("EXT_float_blend"));
 
     this.quad = makeQuadVAO(gl);
 
     this.simProg = createProgram(gl, simVS, simFS);
     this.renderProg = createProgram(gl, renderVS, renderFS);
     this.blitProg = createProgram(gl, blitVS, blitFS);
+    this.binProg = createProgram(gl, binVS, binFS);
+    this.densityProg = createProgram(gl, densityVS, densityFS);
+    this.subEmitProg = createProgram(gl, subEmitVS, subEmitFS);
+    this.trailUpdateProg = createProgram(gl, blitVS, trailUpdateFS);
+    this.layerCompositeProg = createProgram(gl, blitVS, layerCompositeFS);
+    this.metaballShadeProg = createProgram(gl, blitVS, metaballShadeFS);
+    this.originProg = createProgram(gl, blitVS, originFS);
     // Material system programs
     this.depthGenProg = createProgram(gl, depthGenVS, depthGenFS);
     this.smearUpdateProg = createProgram(gl, smearUpdateVS, smearUpdateFS);
@@ -137,6 +427,16 @@ export class ParticleEngine {
     this.dentUpdateProg = createProgram(gl, dentUpdateVS, dentUpdateFS);
     this.fieldCompositeProg = createProgram(gl, fieldCompositeVS, fieldCompositeFS);
 
+    for (const prog of [
+      this.simProg, this.renderProg, this.blitProg, this.binProg, this.densityProg, this.subEmitProg,
+      this.trailUpdateProg, this.layerCompositeProg,
+      this.metaballShadeProg, this.originProg,
+      this.depthGenProg, this.smearUpdateProg, this.rippleUpdateProg, this.dentUpdateProg, this.fieldCompositeProg
+    ]) {
+      this.uniforms.set(prog, getUniformLocations(gl, prog));
+    }
+    this.layerParamsLayout = getUniformBlockLayout(gl, this.simProg, "LayerParams", LAYER_PARAMS_BINDING);
+
     // create accumulation ping-pong (RGBA8 is fine)
     this.acc = this.makePingPong(canvas.width || 2, canvas.height || 2, gl.RGBA8, gl.RGBA, gl.UNSIGNED_BYTE);
     // create scratch buffer for particle rendering (avoids feedback loop)
@@ -155,6 +455,13 @@ export class ParticleEngine {
     gl.deleteProgram(this.simProg);
     gl.deleteProgram(this.renderProg);
     gl.deleteProgram(this.blitProg);
+    gl.deleteProgram(this.binProg);
+    gl.deleteProgram(this.densityProg);
+    gl.deleteProgram(this.subEmitProg);
+    gl.deleteProgram(this.trailUpdateProg);
+    gl.deleteProgram(this.layerCompositeProg);
+    gl.deleteProgram(this.metaballShadeProg);
+    gl.deleteProgram(this.originProg);
     gl.deleteProgram(this.depthGenProg);
     gl.deleteProgram(this.smearUpdateProg);
     gl.deleteProgram(this.rippleUpdateProg);
@@ -175,34 +482,7 @@ export class ParticleEngine {
     }
     
     // Delete layer GPU resources
-    for (const lg of this.layersGPU.values()) {
-      gl.deleteTexture(lg.sim.texA);
-      gl.deleteTexture(lg.sim.texB);
-      gl.deleteFramebuffer(lg.sim.fboA);
-      gl.deleteFramebuffer(lg.sim.fboB);
-      if (lg.mask) gl.deleteTexture(lg.mask.tex);
-      if (lg.eraseMask) gl.deleteTexture(lg.eraseMask.tex);
-      if (lg.flowTex) gl.deleteTexture(lg.flowTex.tex);
-      if (lg.depthTex) gl.deleteTexture(lg.depthTex.tex);
-      if (lg.smearField) {
-        gl.deleteTexture(lg.smearField.pingpong.texA);
-        gl.deleteTexture(lg.smearField.pingpong.texB);
-        gl.deleteFramebuffer(lg.smearField.pingpong.fboA);
-        gl.deleteFramebuffer(lg.smearField.pingpong.fboB);
-      }
-      if (lg.rippleField) {
-        gl.deleteTexture(lg.rippleField.pingpong.texA);
-        gl.deleteTexture(lg.rippleField.pingpong.texB);
-        gl.deleteFramebuffer(lg.rippleField.pingpong.fboA);
-        gl.deleteFramebuffer(lg.rippleField.pingpong.fboB);
-      }
-      if (lg.dentField) {
-        gl.deleteTexture(lg.dentField.pingpong.texA);
-        gl.deleteTexture(lg.dentField.pingpong.texB);
-        gl.deleteFramebuffer(lg.dentField.pingpong.fboA);
-        gl.deleteFramebuffer(lg.dentField.pingpong.fboB);
-      }
-    }
+    for (const lg of this.layersGPU.values()) this.deleteLayerGPU(lg);
     this.layersGPU.clear();
     
     // Delete quad VAO/VBO
@@ -224,10 +504,15 @@ export class ParticleEngine {
     this.audioData = data;
   }
 
-  setLayers(layers: LayerConfig[]) {
+  // revisions: per-layer counters from the store, bumped whenever that layer's
+  // config changes. Unchanged layers are skipped entirely.
+  setLayers(layers: LayerConfig[], revisions: Record<string, number>) {
+    // The store hands out a new array whenever a layer is added, changed or moved
+    if (layers === this.layersCPU) return;
     this.layersCPU = layers;
 
     if (layers.length === 0) {
+      for (const lg of this.layersGPU.values()) this.deleteLayerGPU(lg);
       this.layersGPU.clear();
       this.clearAccumulation();
       return;
@@ -235,18 +520,44 @@ export class ParticleEngine {
 
     // sync gpu layers
     for (const l of layers) {
-      const existing = this.layersGPU.get(l.id);
-      if (!existing || existing.particleCount !== l.particleCount) {
+      let lg = this.layersGPU.get(l.id);
+      if (!lg || lg.particleCount !== l.particleCount) {
         // rebuild layer buffers when particle count changes
+        if (lg) this.deleteLayerGPU(lg);
         const side = calculateTextureSide(l.particleCount);
         const sim = this.makePingPong(side, side, this.gl.RGBA32F, this.gl.RGBA, this.gl.FLOAT);
-        const lg: LayerGPU = { 
+        // Meta values are small mixes and levels, so half floats are enough
+        const meta = this.makeAuxTex(sim, this.gl.RGBA16F, this.gl.HALF_FLOAT);
+        const life = this.makeAuxTex(sim, this.gl.RGBA32F, this.gl.FLOAT);
+        const events = this.makeAuxTex(sim, this.gl.RGBA32F, this.gl.FLOAT);
+        this.attachAuxTex(sim, [meta, life, events]);
+        lg = { 
           id: l.id, 
+          revision: -1,
+          config: null,
           particleCount: l.particleCount, 
           side, 
           sim, 
+          meta,
+          life,
+          events,
+          bins: null,
+          regions: null,
           mask: null, 
           eraseMask: null, 
+          spawnMask: null,
+          sprites: null,
+          trail: null,
+          metaball: null,
+          interactions: null,
+          spawnQueue: null,
+          lifeLUT: null,
+          colorLUT: null,
+          colorImage: null,
+          origin: null,
+          imageSeed: null,
+          morph: null,
+          params: this.createLayerParams(),
           flowTex: null,
           // Material system
           depthTex: null,
@@ -256,19 +567,53 @@ export class ParticleEngine {
         };
         this.layersGPU.set(l.id, lg);
       }
-      // masks are loaded async
-      void this.ensureMask(l);
-      void this.ensureEraseMask(l);
-      // Material system updates
-      void this.ensureDepthTex(l);
-      this.ensureSurfaceFields(l);
-      this.ensureFlowTex(l);
+
+      const revision = revisions[l.id] ?? 0;
+      if (lg.revision === revision) continue;
+      this.syncLayerResources(l, lg);
+      lg.revision = revision;
+      lg.config = l;
     }
 
     // remove deleted layers
-    for (const id of Array.from(this.layersGPU.keys())) {
-      if (!layers.some((l) => l.id === id)) this.layersGPU.delete(id);
+    for (const [id, lg] of Array.from(this.layersGPU.entries())) {
+      if (!layers.some((l) => l.id === id)) {
+        this.deleteLayerGPU(lg);
+        this.layersGPU.delete(id);
+      }
+    }
+  }
+
+  // Rebuild only the GPU resources whose inputs differ from the last synced config.
+  // The store patches layers with object spread, so untouched fields keep their identity.
+  private syncLayerResources(l: LayerConfig, lg: LayerGPU) {
+    const prev = lg.config;
+    const changed = (...keys: (keyof LayerConfig)[]) => !prev || keys.some((k) => prev[k] !== l[k]);
+
+    // masks are loaded async
+    if (changed("maskUrl", "maskText")) void this.ensureMask(l);
+    if (changed("maskEraseMask")) void this.ensureEraseMask(l);
+    if (changed("spawnConfig")) void this.ensureSpawnMask(l);
+    // Material system updates (the depth map is also rebuilt once a new mask loads)
+    if (changed("depthEnabled", "maskUrl", "maskText", "depthBlur", "depthCurve", "depthInvert", "depthScale")) {
+      void this.ensureDepthTex(l);
+    }
+    if (changed("surfaceFieldsEnabled", "smearFieldEnabled", "rippleFieldEnabled", "dentFieldEnabled")) {
+      this.ensureSurfaceFields(l);
+    }
+    if (changed("flowPaths")) this.ensureFlowTex(l);
+    if (changed("type", "movementConfig", "particleCount", "granularConfig")) this.ensureNeighbourBins(l);
+    if (changed("maskBehavior", "maskUrl", "maskText", "colorRegions")) void this.ensureColorRegions(l);
+    if (changed("shape", "glyphPalette", "spriteConfig")) void this.ensureSpriteAtlas(l);
+    if (changed("lifetime", "lifeCurves")) this.ensureLifeLUT(l, lg);
+    if (changed("colorMode", "color", "colorSecondary", "colorTertiary", "colorScheme", "colorRangeStart", "colorRangeEnd", "colorGradient")) {
+      this.ensureColorLUT(l, lg);
     }
+    if (changed("colorImageUrl")) void this.ensureColorImage(l);
+    if (changed("colorMode", "colorImageSampling", "imageSeed")) this.ensureOrigin(l, lg);
+    if (changed("imageSeed")) void this.ensureImageSeed(l);
+    if (changed("morph")) this.ensureMorph(l, lg);
+    this.uploadLayerParams(l, lg);
   }
 
   resize(width?: number, height?: number) {
@@ -295,6 +640,16 @@ export class ParticleEngine {
 
     this.acc = this.makePingPong(w, h, gl.RGBA8, gl.RGBA, gl.UNSIGNED_BYTE);
     this.scratch = this.makeSingleBuffer(w, h, gl.RGBA8, gl.RGBA, gl.UNSIGNED_BYTE);
+
+    // Layer trails and metaball fields are recreated at the new size on the next frame
+    for (const lg of this.layersGPU.values()) {
+      this.deleteLayerTrail(lg);
+      this.deleteLayerMetaball(lg);
+    }
+    // Text masks are rendered at the scene resolution
+    for (const l of this.layersCPU) {
+      if (l.maskText?.enabled) void this.ensureMask(l);
+    }
     gl.viewport(0, 0, w, h);
   }
 
@@ -308,6 +663,27 @@ export class ParticleEngine {
       gl.bindFramebuffer(gl.FRAMEBUFFER, lg.sim.fboB);
       gl.clear(gl.COLOR_BUFFER_BIT);
       lg.sim.flip = false;
+      if (lg.origin) {
+        // Unwritten origins (z = 0) are refilled from the reseeded state
+        gl.bindFramebuffer(gl.FRAMEBUFFER, lg.origin.fboA);
+        gl.clear(gl.COLOR_BUFFER_BIT);
+        gl.bindFramebuffer(gl.FRAMEBUFFER, lg.origin.fboB);
+        gl.clear(gl.COLOR_BUFFER_BIT);
+      }
+      if (lg.imageSeed) this.seedFromImage(lg, lg.imageSeed);
+      if (lg.morph) {
+        // Start the sequence over from the first target
+        lg.morph.index = 0;
+        lg.morph.shown = -1;
+        lg.morph.elapsed = 0;
+      }
+      if (lg.trail) {
+        gl.bindFramebuffer(gl.FRAMEBUFFER, lg.trail.acc.fboA);
+        gl.clear(gl.COLOR_BUFFER_BIT);
+        gl.bindFramebuffer(gl.FRAMEBUFFER, lg.trail.acc.fboB);
+        gl.clear(gl.COLOR_BUFFER_BIT);
+        lg.trail.acc.flip = false;
+      }
     }
     // clear accumulation
     gl.bindFramebuffer(gl.FRAMEBUFFER, this.acc.fboA);
@@ -335,31 +711,67 @@ export class ParticleEngine {
     const g = this.global;
     if (!g) return;
 
+    if (!g.benchmarkMode) {
+      this.legacyUniforms = false;
+      if (this.bench.frame > 0) this.bench = { frame: 0, legacyMs: 0, cachedMs: 0 };
+      this.stepFrame(g);
+      return;
+    }
+
+    const legacy = Math.floor(this.bench.frame / BENCHMARK_WINDOW) % 2 === 1;
+    this.legacyUniforms = legacy;
+    const start = performance.now();
+    this.stepFrame(g);
+    const ms = performance.now() - start;
+    this.bench.frame++;
+    const key = legacy ? "legacyMs" : "cachedMs";
+    const prev = this.bench[key];
+    this.bench[key] = prev === 0 ? ms : prev + (ms - prev) * BENCHMARK_SMOOTHING;
+  }
+
+  // CPU time per frame for each uniform path, or null until both have been sampled
+  getFrameStats(): FrameStats | null {
+    if (this.bench.legacyMs === 0 || this.bench.cachedMs === 0) return null;
+    return { legacyMs: this.bench.legacyMs, cachedMs: this.bench.cachedMs };
+  }
+
+  private stepFrame(g: GlobalConfig) {
     const now = performance.now();
-    const dt = Math.min(0.033, (now - this.t0) / 1000);
+    // Fixed-timestep mode ignores the wall clock so a scene + seed replays identically
+    const dt = g.fixedTimestep
+      ? 1 / Math.max(1, g.fixedStepRate)
+      : Math.min(0.033, (now - this.t0) / 1000);
+    const substeps = g.fixedTimestep ? Math.max(1, Math.min(8, Math.round(g.substeps))) : 1;
+    const stepDt = (dt * g.timeScale) / substeps;
     this.t0 = now;
 
-    if (!g.paused) {
-      this.time += dt * g.timeScale;
-      
-      // Loop mode: wrap time to create seamless loops
-      if (g.loopMode && g.loopDuration > 0) {
-        this.time = this.time % g.loopDuration;
-      }
-    }
-
     const gl = this.gl;
 
     // 1) simulate each layer into its ping-pong float texture
     if (!g.paused) {
-      for (const l of this.layersCPU) {
-        if (!l.enabled) continue;
-        const lg = this.layersGPU.get(l.id);
-        if (!lg) continue;
-        this.simulateLayer(l, lg, dt * g.timeScale);
-        // Update surface fields (smear, ripple, dent)
-        if (l.surfaceFieldsEnabled) {
-          this.updateSurfaceFields(l, lg, dt * g.timeScale);
+      for (let s = 0; s < substeps; s++) {
+        this.time += stepDt;
+
+        // Loop mode: wrap time to create seamless loops
+        if (g.loopMode && g.loopDuration > 0) {
+          this.time = this.time % g.loopDuration;
+        }
+
+        for (const l of this.layersCPU) {
+          if (!l.enabled) continue;
+          const lg = this.layersGPU.get(l.id);
+          if (!lg) continue;
+          if (lg.bins) this.binLayer(lg);
+          this.rasteriseInteractions(l, lg);
+          this.queueSubEmits(l, lg);
+          if (lg.morph) this.advanceMorph(l, lg, lg.morph, stepDt);
+          this.simulateLayer(l, lg, stepDt);
+          // Seeded origins stay where the image put them
+          if (lg.origin && !lg.imageSeed) this.updateOrigin(lg, lg.origin);
+          // Update surface fields (smear, ripple, dent)
+          if (l.surfaceFieldsEnabled) {
+            this.updateSurfaceFields(l, lg, stepDt);
+          }
         }
       }
     }
@@ -376,47 +788,87 @@ export class ParticleEngine {
     gl.clearColor(0, 0, 0, 0); // Clear to transparent black (alpha=0) so we only add particles
     gl.clear(gl.COLOR_BUFFER_BIT);
 
-    // draw particles additively into scratch buffer
+    // draw particles into the scratch buffer, each layer with its own blend mode
     gl.useProgram(this.renderProg);
-    gl.disable(gl.BLEND);
     gl.enable(gl.BLEND);
-    gl.blendFunc(gl.ONE, gl.ONE);
 
-    const u_state = gl.getUniformLocation(this.renderProg, "u_state");
-    const u_stateSize = gl.getUniformLocation(this.renderProg, "u_stateSize");
-    const u_canvasSize = gl.getUniformLocation(this.renderProg, "u_canvasSize");
-    const u_pointSize = gl.getUniformLocation(this.renderProg, "u_pointSize");
-    const u_pointSizeMin = gl.getUniformLocation(this.renderProg, "u_pointSizeMin");
-    const u_pointSizeMax = gl.getUniformLocation(this.renderProg, "u_pointSizeMax");
-    const u_sizeJitter = gl.getUniformLocation(this.renderProg, "u_sizeJitter");
-    const u_glyphRotationJitter = gl.getUniformLocation(this.renderProg, "u_glyphRotationJitter");
-    const u_glyphScaleJitter = gl.getUniformLocation(this.renderProg, "u_glyphScaleJitter");
-    const u_glyphCount = gl.getUniformLocation(this.renderProg, "u_glyphCount");
-    const u_glyphPalette = gl.getUniformLocation(this.renderProg, "u_glyphPalette");
-    const u_glyphWeights = gl.getUniformLocation(this.renderProg, "u_glyphWeights");
-    const u_brightness = gl.getUniformLocation(this.renderProg, "u_brightness");
-    const u_exposure = gl.getUniformLocation(this.renderProg, "u_exposure");
-    const u_dither = gl.getUniformLocation(this.renderProg, "u_dither");
-    const u_monochrome = gl.getUniformLocation(this.renderProg, "u_monochrome");
-    const u_invert = gl.getUniformLocation(this.renderProg, "u_invert");
-    const u_tint = gl.getUniformLocation(this.renderProg, "u_tint");
-    const u_tintSecondary = gl.getUniformLocation(this.renderProg, "u_tintSecondary");
-    const u_tintTertiary = gl.getUniformLocation(this.renderProg, "u_tintTertiary");
-    const u_colorMode = gl.getUniformLocation(this.renderProg, "u_colorMode");
-    const u_shape = gl.getUniformLocation(this.renderProg, "u_shape");
-    const u_type = gl.getUniformLocation(this.renderProg, "u_type");
-    const u_trailLength = gl.getUniformLocation(this.renderProg, "u_trailLength");
+    const u_state = this.loc(this.renderProg, "u_state");
+    const u_meta = this.loc(this.renderProg, "u_meta");
+    const u_life = this.loc(this.renderProg, "u_life");
+    const u_stateSize = this.loc(this.renderProg, "u_stateSize");
+    const u_canvasSize = this.loc(this.renderProg, "u_canvasSize");
+    const u_pointSize = this.loc(this.renderProg, "u_pointSize");
+    const u_pointSizeMin = this.loc(this.renderProg, "u_pointSizeMin");
+    const u_pointSizeMax = this.loc(this.renderProg, "u_pointSizeMax");
+    const u_sizeJitter = this.loc(this.renderProg, "u_sizeJitter");
+    const u_glyphRotationJitter = this.loc(this.renderProg, "u_glyphRotationJitter");
+    const u_glyphScaleJitter = this.loc(this.renderProg, "u_glyphScaleJitter");
+    const u_glyphCount = this.loc(this.renderProg, "u_glyphCount");
+    const u_glyphPalette = this.loc(this.renderProg, "u_glyphPalette");
+    const u_glyphWeights = this.loc(this.renderProg, "u_glyphWeights");
+    const u_spriteAtlas = this.loc(this.renderProg, "u_spriteAtlas");
+    const u_spriteGrid = this.loc(this.renderProg, "u_spriteGrid");
+    const u_spriteFrames = this.loc(this.renderProg, "u_spriteFrames");
+    const u_spriteTint = this.loc(this.renderProg, "u_spriteTint");
+    const u_brightness = this.loc(this.renderProg, "u_brightness");
+    const u_exposure = this.loc(this.renderProg, "u_exposure");
+    const u_dither = this.loc(this.renderProg, "u_dither");
+    const u_monochrome = this.loc(this.renderProg, "u_monochrome");
+    const u_invert = this.loc(this.renderProg, "u_invert");
+    const u_tint = this.loc(this.renderProg, "u_tint");
+    const u_colorMode = this.loc(this.renderProg, "u_colorMode");
+    const u_colorLUT = this.loc(this.renderProg, "u_colorLUT");
+    const u_colorAxis = this.loc(this.renderProg, "u_colorAxis");
+    const u_colorVelocityMax = this.loc(this.renderProg, "u_colorVelocityMax");
+    const u_depthTex = this.loc(this.renderProg, "u_depthTex");
+    const u_colorImage = this.loc(this.renderProg, "u_colorImage");
+    const u_hasColorImage = this.loc(this.renderProg, "u_hasColorImage");
+    const u_colorImagePan = this.loc(this.renderProg, "u_colorImagePan");
+    const u_colorImageScale = this.loc(this.renderProg, "u_colorImageScale");
+    const u_colorImageRotation = this.loc(this.renderProg, "u_colorImageRotation");
+    const u_colorImageSkew = this.loc(this.renderProg, "u_colorImageSkew");
+    const u_colorImageSpawn = this.loc(this.renderProg, "u_colorImageSpawn");
+    const u_origin = this.loc(this.renderProg, "u_origin");
+    const u_seedColor = this.loc(this.renderProg, "u_seedColor");
+    const u_seedRect = this.loc(this.renderProg, "u_seedRect");
+    const u_shape = this.loc(this.renderProg, "u_shape");
+    const u_type = this.loc(this.renderProg, "u_type");
+    const u_trailLength = this.loc(this.renderProg, "u_trailLength");
+    const u_fragmentShrink = this.loc(this.renderProg, "u_fragmentShrink");
+    const u_colorJitter = this.loc(this.renderProg, "u_colorJitter");
+    const u_brightnessJitter = this.loc(this.renderProg, "u_brightnessJitter");
+    const u_transformColor = this.loc(this.renderProg, "u_transformColor");
+    const u_blendMode = this.loc(this.renderProg, "u_blendMode");
+    const u_splat = this.loc(this.renderProg, "u_splat");
+    const u_lifeLUT = this.loc(this.renderProg, "u_lifeLUT");
+    const u_hasLifeLUT = this.loc(this.renderProg, "u_hasLifeLUT");
 
     gl.uniform2f(u_canvasSize, this.canvas.width, this.canvas.height);
+    this.setSeedUniforms(this.renderProg);
     gl.uniform1f(u_exposure, g.exposure);
     gl.uniform1i(u_monochrome, g.monochrome ? 1 : 0);
     gl.uniform1i(u_invert, g.invert ? 1 : 0);
+    gl.uniform1f(u_splat, 0);
 
-    for (const l of this.layersCPU) {
+    for (const l of stackOrder(this.layersCPU)) {
       if (!l.enabled) continue;
       const lg = this.layersGPU.get(l.id);
       if (!lg) continue;
 
+      const blendMode = BLEND_MODE_MAP[l.blendMode] ?? 0;
+      const trail = this.ensureLayerTrail(l, lg);
+      // Own buffer starts empty, so only additive or plain coverage make sense there;
+      // the layer's blend mode applies when the trail is composited below
+      const drawMode = trail ? (blendMode === 0 ? 0 : 1) : blendMode;
+      const drawTarget = trail ? trail.scratch : this.scratch;
+      if (trail) {
+        gl.bindFramebuffer(gl.FRAMEBUFFER, trail.scratch.fbo);
+        gl.clearColor(0, 0, 0, 0);
+        gl.clear(gl.COLOR_BUFFER_BIT);
+      }
+      this.setBlendMode(drawMode);
+      gl.uniform1i(u_blendMode, drawMode);
+
       const stateTex = lg.sim.flip ? lg.sim.texB : lg.sim.texA;
 
       gl.activeTexture(gl.TEXTURE0);
@@ -424,6 +876,14 @@ export class ParticleEngine {
       gl.uniform1i(u_state, 0);
       gl.uniform2f(u_stateSize, lg.side, lg.side);
 
+      gl.activeTexture(gl.TEXTURE1);
+      gl.bindTexture(gl.TEXTURE_2D, lg.sim.flip ? lg.meta.texB : lg.meta.texA);
+      gl.uniform1i(u_meta, 1);
+
+      gl.activeTexture(gl.TEXTURE4);
+      gl.bindTexture(gl.TEXTURE_2D, lg.sim.flip ? lg.life.texB : lg.life.texA);
+      gl.uniform1i(u_life, 4);
+
       // Get audio config for this layer
       const audioConfig = l.audio;
       const audioEnabled = audioConfig?.enabled && this.audioData;
@@ -443,67 +903,111 @@ export class ParticleEngine {
       gl.uniform1f(u_glyphRotationJitter, l.glyphRotationJitter ?? 0);
       gl.uniform1f(u_glyphScaleJitter, l.glyphScaleJitter ?? 0);
       
-      // Glyph palette is disabled - always use layer.shape directly
-      const effectiveGlyphCount = 0;
-      
-      gl.uniform1i(u_glyphCount, effectiveGlyphCount);
-      
-      // Clear glyph palette uniforms since we're not using them
-      gl.uniform4fv(u_glyphPalette, new Float32Array([0, 0, 0, 0]));
-      gl.uniform4fv(u_glyphWeights, new Float32Array([1, 0, 0, 0]));
+      // Weighted glyph palette (count 0 = use layer.shape)
+      const glyphs = packGlyphPalette(l);
+      gl.uniform1i(u_glyphCount, glyphs.count);
+      gl.uniform1iv(u_glyphPalette, glyphs.shapes);
+      gl.uniform1fv(u_glyphWeights, glyphs.weights);
+
+      // Sprite atlas (frames 0 until the async build finishes; sprites then draw nothing)
+      gl.activeTexture(gl.TEXTURE5);
+      gl.bindTexture(gl.TEXTURE_2D, lg.sprites?.tex ?? this.getWhiteTex());
+      gl.uniform1i(u_spriteAtlas, 5);
+      gl.uniform2f(u_spriteGrid, lg.sprites?.cols ?? 1, lg.sprites?.rows ?? 1);
+      gl.uniform1i(u_spriteFrames, lg.sprites?.frames ?? 0);
+      gl.uniform1i(u_spriteTint, l.spriteConfig?.tint === false ? 0 : 1);
       
       gl.uniform1f(u_brightness, l.brightness * effectiveColorIntensity);
       gl.uniform1f(u_dither, l.dither);
       
-      // Color mode and colors
-      const colorModeInt = l.colorMode === "gradient" ? 1 : l.colorMode === "scheme" ? 2 : l.colorMode === "range" ? 3 : 0;
-      gl.uniform1i(u_colorMode, colorModeInt);
-      
+      // Color mode: a single tint, an index into the layer's gradient LUT, or the colour image
+      gl.uniform1i(u_colorMode, COLOR_MODE_MAP[l.colorMode] ?? 0);
       const tint = hexToRgb(l.color);
       gl.uniform3f(u_tint, tint.r, tint.g, tint.b);
+      gl.activeTexture(gl.TEXTURE7);
+      gl.bindTexture(gl.TEXTURE_2D, lg.colorLUT ?? this.getWhiteTex());
+      gl.uniform1i(u_colorLUT, 7);
+      gl.uniform1i(u_colorAxis, COLOR_AXIS_MAP[l.colorPositionAxis ?? "x"] ?? 0);
+      gl.uniform1f(u_colorVelocityMax, l.colorVelocityMax ?? 0.05);
+      gl.activeTexture(gl.TEXTURE8);
+      gl.bindTexture(gl.TEXTURE_2D, lg.depthTex?.tex ?? this.getWhiteTex());
+      gl.uniform1i(u_depthTex, 8);
+      const imageTransform = l.colorImageTransform ?? { x: 0, y: 0, scale: 1, rotation: 0, skewX: 0, skewY: 0 };
+      // A seed picture carrying its colour takes the colour image's unit
+      const seedColor = lg.imageSeed && lg.origin && l.imageSeed?.carryColor ? lg.imageSeed : null;
+      gl.activeTexture(gl.TEXTURE9);
+      gl.bindTexture(gl.TEXTURE_2D, seedColor?.tex ?? lg.colorImage?.tex ?? this.getWhiteTex());
+      gl.uniform1i(u_colorImage, 9);
+      gl.uniform1i(u_seedColor, seedColor ? 1 : 0);
+      gl.uniform4fv(u_seedRect, seedColor?.rect ?? [0, 0, 1, 1]);
+      gl.uniform1f(u_hasColorImage, lg.colorImage ? 1.0 : 0.0);
+      gl.uniform2f(u_colorImagePan, imageTransform.x, imageTransform.y);
+      gl.uniform1f(u_colorImageScale, imageTransform.scale);
+      gl.uniform1f(u_colorImageRotation, (imageTransform.rotation * Math.PI) / 180);
+      gl.uniform2f(
+        u_colorImageSkew,
+        Math.tan((imageTransform.skewX * Math.PI) / 180),
+        Math.tan((imageTransform.skewY * Math.PI) / 180)
+      );
+      gl.activeTexture(gl.TEXTURE10);
+      gl.bindTexture(gl.TEXTURE_2D, lg.origin ? (lg.origin.flip ? lg.origin.texB : lg.origin.texA) : this.getWhiteTex());
+      gl.uniform1i(u_origin, 10);
+      gl.uniform1i(u_colorImageSpawn, lg.origin && l.colorImageSampling === "spawn" ? 1 : 0);
       
-      // Secondary and tertiary colors
-      const getSecondaryColor = () => {
-        if (l.colorMode === "gradient" && l.colorSecondary) return hexToRgb(l.colorSecondary);
-        if (l.colorMode === "scheme") return getSchemeColors(l.colorScheme)[1];
-        if (l.colorMode === "range" && l.colorRangeEnd) return hexToRgb(l.colorRangeEnd);
-        return { r: 0.5, g: 0.5, b: 0.5 };
-      };
-      const getTertiaryColor = () => {
-        if (l.colorMode === "gradient" && l.colorTertiary) return hexToRgb(l.colorTertiary);
-        if (l.colorMode === "scheme") return getSchemeColors(l.colorScheme)[2];
-        return { r: 0.3, g: 0.3, b: 0.3 };
-      };
-      
-      const secondary = l.colorMode === "scheme" ? getSchemeColors(l.colorScheme)[0] : getSecondaryColor();
-      const tertiary = getTertiaryColor();
-      
-      // For scheme mode, use scheme colors instead of layer colors
-      if (l.colorMode === "scheme") {
-        const schemeColors = getSchemeColors(l.colorScheme);
-        gl.uniform3f(u_tint, schemeColors[0].r, schemeColors[0].g, schemeColors[0].b);
-        gl.uniform3f(u_tintSecondary, schemeColors[1].r, schemeColors[1].g, schemeColors[1].b);
-        gl.uniform3f(u_tintTertiary, schemeColors[2].r, schemeColors[2].g, schemeColors[2].b);
-      } else {
-        gl.uniform3f(u_tintSecondary, secondary.r, secondary.g, secondary.b);
-        gl.uniform3f(u_tintTertiary, tertiary.r, tertiary.g, tertiary.b);
-      }
-      
-      // Shape: dot=0, star=1, dash=2, tilde=3, square=4, diamond=5, ring=6, cross=7
+      // Shape: dot=0, star=1, dash=2, tilde=3, square=4, diamond=5, ring=6, cross=7, sprite=8
       const shapeInt = shapeToInt(l.shape ?? "dot");
       
       gl.uniform1i(u_shape, shapeInt);
       
-      // Type: sand=0, dust=1, sparks=2, ink=3
-      const typeInt = l.type === "sand" ? 0 : l.type === "dust" ? 1 : l.type === "sparks" ? 2 : 3;
-      gl.uniform1i(u_type, typeInt);
+      gl.uniform1i(u_type, PARTICLE_TYPE_MAP[l.type] ?? 3);
       
       gl.uniform1f(u_trailLength, l.trailLength ?? 0);
+      gl.uniform1f(u_colorJitter, l.colorJitter ?? 0);
+      gl.uniform1f(u_brightnessJitter, l.brightnessJitter ?? 0);
+
+      // Border effects: each fragment level splits the particle into fragmentCount pieces
+      const fragmentCount = Math.max(1, l.borderEffectConfig?.fragmentCount ?? 3);
+      gl.uniform1f(u_fragmentShrink, 1 / Math.sqrt(fragmentCount));
+      const transformColor = hexToRgb(l.borderEffectConfig?.transformColor ?? "#ffffff");
+      gl.uniform3f(u_transformColor, transformColor.r, transformColor.g, transformColor.b);
+
+      // Over-life curves (size, brightness, colour)
+      gl.activeTexture(gl.TEXTURE6);
+      gl.bindTexture(gl.TEXTURE_2D, lg.lifeLUT ?? this.getWhiteTex());
+      gl.uniform1i(u_lifeLUT, 6);
+      gl.uniform1f(u_hasLifeLUT, lg.lifeLUT ? 1.0 : 0.0);
+
+      // Colour region tint overrides
+      this.setMaskTransformUniforms(this.renderProg, l);
+      this.bindColorRegions(this.renderProg, lg, l, 2);
 
       // Draw only the actual particle count, not the full texture size
-      gl.drawArrays(gl.POINTS, 0, lg.particleCount);
+      const metaball = this.ensureLayerMetaball(l, lg);
+      if (metaball) {
+        // Splat density into the layer's field, then shade it into the draw target
+        gl.bindFramebuffer(gl.FRAMEBUFFER, metaball.fbo);
+        gl.clearColor(0, 0, 0, 0);
+        gl.clear(gl.COLOR_BUFFER_BIT);
+        gl.blendEquation(gl.FUNC_ADD);
+        gl.blendFunc(gl.ONE, gl.ONE);
+        gl.uniform1f(u_splat, Math.max(1, l.metaball.blobRadius));
+        gl.drawArrays(gl.POINTS, 0, lg.particleCount);
+        gl.uniform1f(u_splat, 0);
+        this.shadeLayerMetaball(l, metaball, drawTarget, drawMode);
+        gl.useProgram(this.renderProg);
+      } else {
+        gl.drawArrays(gl.POINTS, 0, lg.particleCount);
+      }
+
+      if (trail) {
+        this.compositeLayerTrail(l, trail, this.scratch, blendMode);
+        gl.useProgram(this.renderProg);
+      }
     }
 
+    // Other passes assume plain additive blending
+    this.setBlendMode(0);
+
     // 3) composite scratch + prev into the output buffer
     // 
     // With the 3-buffer approach, there are NO texture conflicts:
@@ -527,19 +1031,19 @@ export class ParticleEngine {
     // Bind prevTex (accumulated previous frames) to TEXTURE0
     gl.activeTexture(gl.TEXTURE0);
     gl.bindTexture(gl.TEXTURE_2D, prevTex);
-    gl.uniform1i(gl.getUniformLocation(this.blitProg, "u_prev"), 0);
+    gl.uniform1i(this.loc(this.blitProg, "u_prev"), 0);
 
     // Bind scratch texture (new particles) to TEXTURE1
     gl.activeTexture(gl.TEXTURE1);
     gl.bindTexture(gl.TEXTURE_2D, this.scratch.tex);
-    gl.uniform1i(gl.getUniformLocation(this.blitProg, "u_curr"), 1);
+    gl.uniform1i(this.loc(this.blitProg, "u_curr"), 1);
 
     // Use clearRate: clearRate=1 means full clear (fade=1), clearRate=0 means never clear (fade=0)
-    gl.uniform1f(gl.getUniformLocation(this.blitProg, "u_fade"), g.clearRate);
-    gl.uniform1f(gl.getUniformLocation(this.blitProg, "u_threshold"), g.threshold);
-    gl.uniform1f(gl.getUniformLocation(this.blitProg, "u_thresholdSoft"), g.thresholdSoft);
-    gl.uniform1f(gl.getUniformLocation(this.blitProg, "u_thresholdGain"), g.thresholdGain);
-    gl.uniform1i(gl.getUniformLocation(this.blitProg, "u_applyThreshold"), 0);
+    gl.uniform1f(this.loc(this.blitProg, "u_fade"), g.clearRate);
+    gl.uniform1f(this.loc(this.blitProg, "u_threshold"), g.threshold);
+    gl.uniform1f(this.loc(this.blitProg, "u_thresholdSoft"), g.thresholdSoft);
+    gl.uniform1f(this.loc(this.blitProg, "u_thresholdGain"), g.thresholdGain);
+    gl.uniform1i(this.loc(this.blitProg, "u_applyThreshold"), 0);
 
     gl.disable(gl.BLEND);
     gl.drawArrays(gl.TRIANGLES, 0, 6);
@@ -555,23 +1059,175 @@ export class ParticleEngine {
     // prev = final
     const finalTex = this.acc.flip ? this.acc.texB : this.acc.texA;
     gl.bindTexture(gl.TEXTURE_2D, finalTex);
-    gl.uniform1i(gl.getUniformLocation(this.blitProg, "u_prev"), 0);
+    gl.uniform1i(this.loc(this.blitProg, "u_prev"), 0);
 
     // curr unused; bind same
     gl.activeTexture(gl.TEXTURE1);
     gl.bindTexture(gl.TEXTURE_2D, finalTex);
-    gl.uniform1i(gl.getUniformLocation(this.blitProg, "u_curr"), 1);
+    gl.uniform1i(this.loc(this.blitProg, "u_curr"), 1);
+
+    gl.uniform1f(this.loc(this.blitProg, "u_fade"), 0.0);
+    gl.uniform1f(this.loc(this.blitProg, "u_threshold"), g.threshold);
+    gl.uniform1f(this.loc(this.blitProg, "u_thresholdSoft"), g.thresholdSoft);
+    gl.uniform1f(this.loc(this.blitProg, "u_thresholdGain"), g.thresholdGain);
+    gl.uniform1i(this.loc(this.blitProg, "u_applyThreshold"), 1);
+
+    gl.drawArrays(gl.TRIANGLES, 0, 6);
+    gl.bindVertexArray(null);
+  }
+
+  // ============================================
+  // PER-LAYER TRAILS
+  // ============================================
+
+  // Create, resize or free a layer's own accumulation buffers to match its config
+  private ensureLayerTrail(l: LayerConfig, lg: LayerGPU): LayerTrail | null {
+    if (!l.trail?.enabled) {
+      this.deleteLayerTrail(lg);
+      return null;
+    }
+    const { width, height } = this.canvas;
+    if (lg.trail && lg.trail.acc.w === width && lg.trail.acc.h === height) return lg.trail;
+
+    this.deleteLayerTrail(lg);
+    const gl = this.gl;
+    const acc = this.makePingPong(width, height, gl.RGBA8, gl.RGBA, gl.UNSIGNED_BYTE);
+    // Feedback zoom/rotation resample the trail, so filter it
+    for (const tex of [acc.texA, acc.texB]) {
+      gl.bindTexture(gl.TEXTURE_2D, tex);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    }
+    gl.bindTexture(gl.TEXTURE_2D, null);
+    lg.trail = { acc, scratch: this.makeSingleBuffer(width, height, gl.RGBA8, gl.RGBA, gl.UNSIGNED_BYTE) };
+    return lg.trail;
+  }
+
+  private deleteLayerTrail(lg: LayerGPU) {
+    if (!lg.trail) return;
+    const gl = this.gl;
+    gl.deleteTexture(lg.trail.acc.texA);
+    gl.deleteTexture(lg.trail.acc.texB);
+    gl.deleteFramebuffer(lg.trail.acc.fboA);
+    gl.deleteFramebuffer(lg.trail.acc.fboB);
+    gl.deleteTexture(lg.trail.scratch.tex);
+    gl.deleteFramebuffer(lg.trail.scratch.fbo);
+    lg.trail = null;
+  }
+
+  // Fold the layer's fresh particles into its trail, then draw the trail into the
+  // scene scratch buffer with the layer's blend mode. Leaves target bound.
+  private compositeLayerTrail(l: LayerConfig, trail: LayerTrail, target: SingleBuffer, blendMode: number) {
+    const gl = this.gl;
+    const cfg = l.trail;
+    const prevTex = trail.acc.flip ? trail.acc.texB : trail.acc.texA;
+    const outFbo = trail.acc.flip ? trail.acc.fboA : trail.acc.fboB;
+    const outTex = trail.acc.flip ? trail.acc.texA : trail.acc.texB;
+
+    gl.bindVertexArray(this.quad.vao);
+    gl.disable(gl.BLEND);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, outFbo);
+    gl.useProgram(this.trailUpdateProg);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, prevTex);
+    gl.uniform1i(this.loc(this.trailUpdateProg, "u_prev"), 0);
+    gl.activeTexture(gl.TEXTURE1);
+    gl.bindTexture(gl.TEXTURE_2D, trail.scratch.tex);
+    gl.uniform1i(this.loc(this.trailUpdateProg, "u_curr"), 1);
+    gl.uniform1f(this.loc(this.trailUpdateProg, "u_fade"), cfg.clearRate);
+    const tint = hexToRgb(cfg.fadeTint);
+    gl.uniform3f(this.loc(this.trailUpdateProg, "u_fadeTint"), tint.r, tint.g, tint.b);
+    gl.uniform1f(this.loc(this.trailUpdateProg, "u_zoom"), cfg.feedbackZoom);
+    gl.uniform1f(this.loc(this.trailUpdateProg, "u_rotation"), (cfg.feedbackRotation * Math.PI) / 180);
+    gl.uniform2f(this.loc(this.trailUpdateProg, "u_drift"), cfg.feedbackDriftX, cfg.feedbackDriftY);
+    gl.drawArrays(gl.TRIANGLES, 0, 6);
+    trail.acc.flip = !trail.acc.flip;
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, target.fbo);
+    gl.enable(gl.BLEND);
+    this.setBlendMode(blendMode);
+    gl.useProgram(this.layerCompositeProg);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, outTex);
+    gl.uniform1i(this.loc(this.layerCompositeProg, "u_tex"), 0);
+    gl.uniform1i(this.loc(this.layerCompositeProg, "u_blendMode"), blendMode);
+    gl.drawArrays(gl.TRIANGLES, 0, 6);
+  }
+
+  // ============================================
+  // METABALL SURFACES
+  // ============================================
+
+  // Create, resize or free a layer's metaball density field to match its config
+  private ensureLayerMetaball(l: LayerConfig, lg: LayerGPU): SingleBuffer | null {
+    if (!l.metaball?.enabled || !METABALL_TYPES.has(l.type)) {
+      this.deleteLayerMetaball(lg);
+      return null;
+    }
+    const { width, height } = this.canvas;
+    if (lg.metaball && lg.metaball.w === width && lg.metaball.h === height) return lg.metaball;
+
+    this.deleteLayerMetaball(lg);
+    const gl = this.gl;
+    // Half float so overlapping splats can sum past 1; filtered for the refraction lookup
+    lg.metaball = this.makeSingleBuffer(width, height, gl.RGBA16F, gl.RGBA, gl.HALF_FLOAT);
+    gl.bindTexture(gl.TEXTURE_2D, lg.metaball.tex);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+    return lg.metaball;
+  }
 
-    gl.uniform1f(gl.getUniformLocation(this.blitProg, "u_fade"), 0.0);
-    gl.uniform1f(gl.getUniformLocation(this.blitProg, "u_threshold"), g.threshold);
-    gl.uniform1f(gl.getUniformLocation(this.blitProg, "u_thresholdSoft"), g.thresholdSoft);
-    gl.uniform1f(gl.getUniformLocation(this.blitProg, "u_thresholdGain"), g.thresholdGain);
-    gl.uniform1i(gl.getUniformLocation(this.blitProg, "u_applyThreshold"), 1);
+  private deleteLayerMetaball(lg: LayerGPU) {
+    if (!lg.metaball) return;
+    this.gl.deleteTexture(lg.metaball.tex);
+    this.gl.deleteFramebuffer(lg.metaball.fbo);
+    lg.metaball = null;
+  }
 
+  // Threshold and shade the splatted field into target with the given blend mode.
+  // Leaves target bound.
+  private shadeLayerMetaball(l: LayerConfig, field: SingleBuffer, target: SingleBuffer, blendMode: number) {
+    const gl = this.gl;
+    const cfg = l.metaball;
+    gl.bindFramebuffer(gl.FRAMEBUFFER, target.fbo);
+    this.setBlendMode(blendMode);
+    gl.useProgram(this.metaballShadeProg);
+    gl.bindVertexArray(this.quad.vao);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, field.tex);
+    gl.uniform1i(this.loc(this.metaballShadeProg, "u_field"), 0);
+    gl.uniform2f(this.loc(this.metaballShadeProg, "u_texel"), 1 / field.w, 1 / field.h);
+    gl.uniform1f(this.loc(this.metaballShadeProg, "u_threshold"), Math.max(0.01, cfg.threshold));
+    gl.uniform1f(this.loc(this.metaballShadeProg, "u_edgeShading"), cfg.edgeShading);
+    gl.uniform1i(this.loc(this.metaballShadeProg, "u_blendMode"), blendMode);
     gl.drawArrays(gl.TRIANGLES, 0, 6);
     gl.bindVertexArray(null);
   }
 
+  // Blend state for one layer. Particle colour is premultiplied by its alpha;
+  // the scratch alpha channel is only ever accumulated over.
+  private setBlendMode(mode: number) {
+    const gl = this.gl;
+    const rgbEquation =
+      mode === 4 ? gl.FUNC_REVERSE_SUBTRACT : mode === 5 ? gl.MAX : mode === 6 ? gl.MIN : gl.FUNC_ADD;
+    gl.blendEquationSeparate(rgbEquation, gl.FUNC_ADD);
+    switch (mode) {
+      case 1: // alpha over
+        gl.blendFuncSeparate(gl.ONE, gl.ONE_MINUS_SRC_ALPHA, gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+        break;
+      case 2: // multiply: dst * mix(1, src, alpha)
+        gl.blendFuncSeparate(gl.DST_COLOR, gl.ONE_MINUS_SRC_ALPHA, gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+        break;
+      case 3: // screen
+        gl.blendFuncSeparate(gl.ONE, gl.ONE_MINUS_SRC_COLOR, gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+        break;
+      default: // additive, subtract, lighten/darken (MIN/MAX ignore the factors)
+        gl.blendFuncSeparate(gl.ONE, gl.ONE, gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+        break;
+    }
+  }
+
   private simulateLayer(l: LayerConfig, lg: LayerGPU, dt: number) {
     const gl = this.gl;
 
@@ -580,6 +1236,8 @@ export class ParticleEngine {
 
     gl.bindFramebuffer(gl.FRAMEBUFFER, dstFbo);
     gl.viewport(0, 0, lg.side, lg.side);
+    // float state targets must not be blended (RGBA32F blending is not guaranteed)
+    gl.disable(gl.BLEND);
 
     gl.useProgram(this.simProg);
     gl.bindVertexArray(this.quad.vao);
@@ -587,37 +1245,47 @@ export class ParticleEngine {
     // state sampler
     gl.activeTexture(gl.TEXTURE0);
     gl.bindTexture(gl.TEXTURE_2D, srcTex);
-    gl.uniform1i(gl.getUniformLocation(this.simProg, "u_state"), 0);
+    gl.uniform1i(this.loc(this.simProg, "u_state"), 0);
+
+    // auxiliary per-particle state (read side of the meta pair)
+    gl.activeTexture(gl.TEXTURE7);
+    gl.bindTexture(gl.TEXTURE_2D, lg.sim.flip ? lg.meta.texB : lg.meta.texA);
+    gl.uniform1i(this.loc(this.simProg, "u_meta"), 7);
+    gl.activeTexture(gl.TEXTURE12);
+    gl.bindTexture(gl.TEXTURE_2D, lg.sim.flip ? lg.life.texB : lg.life.texA);
+    gl.uniform1i(this.loc(this.simProg, "u_life"), 12);
 
     // mask sampler: if none, bind 1x1 white
     gl.activeTexture(gl.TEXTURE1);
     const hasMask = Boolean(lg.mask);
     const maskTex = lg.mask?.tex ?? this.getWhiteTex();
     gl.bindTexture(gl.TEXTURE_2D, maskTex);
-    gl.uniform1i(gl.getUniformLocation(this.simProg, "u_mask"), 1);
+    gl.uniform1i(this.loc(this.simProg, "u_mask"), 1);
 
     // erase mask sampler
     gl.activeTexture(gl.TEXTURE2);
     const hasEraseMask = Boolean(lg.eraseMask);
     const eraseMaskTex = lg.eraseMask?.tex ?? this.getWhiteTex();
     gl.bindTexture(gl.TEXTURE_2D, eraseMaskTex);
-    gl.uniform1i(gl.getUniformLocation(this.simProg, "u_eraseMask"), 2);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_hasEraseMask"), hasEraseMask ? 1.0 : 0.0);
+    gl.uniform1i(this.loc(this.simProg, "u_eraseMask"), 2);
+    gl.uniform1f(this.loc(this.simProg, "u_hasEraseMask"), hasEraseMask ? 1.0 : 0.0);
 
     // flow texture sampler (for directed flow layers)
     gl.activeTexture(gl.TEXTURE3);
     const hasFlowTex = Boolean(lg.flowTex);
     const flowTex = lg.flowTex?.tex ?? this.getWhiteTex();
     gl.bindTexture(gl.TEXTURE_2D, flowTex);
-    gl.uniform1i(gl.getUniformLocation(this.simProg, "u_flowTex"), 3);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_hasFlowTex"), hasFlowTex ? 1.0 : 0.0);
+    gl.uniform1i(this.loc(this.simProg, "u_flowTex"), 3);
+    gl.uniform1f(this.loc(this.simProg, "u_hasFlowTex"), hasFlowTex ? 1.0 : 0.0);
 
-    gl.uniform2f(gl.getUniformLocation(this.simProg, "u_stateSize"), lg.side, lg.side);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_dt"), dt);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_time"), this.time);
+    gl.uniform2f(this.loc(this.simProg, "u_stateSize"), lg.side, lg.side);
+    gl.uniform1f(this.loc(this.simProg, "u_dt"), dt);
+    gl.uniform1f(this.loc(this.simProg, "u_time"), this.time);
+    this.setSeedUniforms(this.simProg);
 
-    const typeInt = l.type === "sand" ? 0 : l.type === "dust" ? 1 : l.type === "sparks" ? 2 : l.type === "crumbs" ? 4 : l.type === "liquid" ? 5 : 3;
-    gl.uniform1i(gl.getUniformLocation(this.simProg, "u_type"), typeInt);
+    // Static per-layer parameters live in the layer's uniform buffer
+    if (this.legacyUniforms) this.uploadLayerParams(l, lg);
+    gl.bindBufferBase(gl.UNIFORM_BUFFER, LAYER_PARAMS_BINDING, lg.params.buffer);
 
     // Get audio config for this layer
     const audioConfig = l.audio;
@@ -643,192 +1311,364 @@ export class ParticleEngine {
       ? applyAudioMapping(l.spawnRate, audioConfig?.spawnRate, this.audioData)
       : l.spawnRate;
 
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_gravity"), effectiveGravity);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_drag"), l.drag);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_jitter"), effectiveJitter);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_curl"), effectiveCurl);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_attract"), l.attract);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_attractFalloff"), l.attractFalloff ?? 1.0);
-    gl.uniform2f(gl.getUniformLocation(this.simProg, "u_attractPoint"), l.attractPoint.x, l.attractPoint.y);
-    
-    // Multiple attraction points system - iterate without filtering to avoid allocation
-    const attractionPoints = l.attractionPoints || [];
-    let pointIdx = 0;
-    for (let i = 0; i < attractionPoints.length && pointIdx < MAX_ATTRACTION_POINTS; i++) {
-      const point = attractionPoints[i];
-      if (!point.enabled) continue;
-      
-      gl.uniform2f(gl.getUniformLocation(this.simProg, `u_attractionPositions[${pointIdx}]`), point.position.x, point.position.y);
-      gl.uniform1f(gl.getUniformLocation(this.simProg, `u_attractionStrengths[${pointIdx}]`), point.strength);
-      gl.uniform1f(gl.getUniformLocation(this.simProg, `u_attractionFalloffs[${pointIdx}]`), point.falloff);
-      
-      gl.uniform1i(gl.getUniformLocation(this.simProg, `u_attractionTypes[${pointIdx}]`), ATTRACTION_TYPE_MAP[point.type] ?? 0);
-      gl.uniform1i(gl.getUniformLocation(this.simProg, `u_attractionEffects[${pointIdx}]`), ATTRACTION_EFFECT_MAP[point.effect] ?? 0);
-      
-      gl.uniform1f(gl.getUniformLocation(this.simProg, `u_attractionPulseFreqs[${pointIdx}]`), point.pulseFrequency ?? 1.0);
-      gl.uniform1i(gl.getUniformLocation(this.simProg, `u_attractionEnabled[${pointIdx}]`), 1);
-      pointIdx++;
-    }
-    gl.uniform1i(gl.getUniformLocation(this.simProg, "u_attractionPointCount"), pointIdx);
-    
-    // Wind: convert degrees to radians
-    const windAngleRad = ((l.windAngle ?? 0) * Math.PI) / 180;
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_windAngle"), windAngleRad);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_windStrength"), effectiveWindStrength);
+    gl.uniform1f(this.loc(this.simProg, "u_gravity"), effectiveGravity);
+    gl.uniform1f(this.loc(this.simProg, "u_jitter"), effectiveJitter);
+    gl.uniform1f(this.loc(this.simProg, "u_curl"), effectiveCurl);
+    gl.uniform1f(this.loc(this.simProg, "u_windStrength"), effectiveWindStrength);
+    gl.uniform1f(this.loc(this.simProg, "u_speed"), effectiveSpeed);
 
     // spawnRate: for sand, replenishment is the feature; for others it's basically off by default
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_spawnRate"), effectiveSpawnRate);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_maskThreshold"), hasMask ? l.maskThreshold : 0.0);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_maskInvert"), hasMask && l.maskInvert ? 1.0 : 0.0);
-    const boundaryMode = l.boundaryMode === "bounce" ? 1 : l.boundaryMode === "wrap" ? 2 : 0;
-    gl.uniform1i(gl.getUniformLocation(this.simProg, "u_boundaryMode"), boundaryMode);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_boundaryBounce"), l.boundaryBounce);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_speed"), effectiveSpeed);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_spawnSpeed"), l.spawnSpeed);
+    gl.uniform1f(this.loc(this.simProg, "u_spawnRate"), effectiveSpawnRate);
+    gl.uniform1f(this.loc(this.simProg, "u_maskThreshold"), hasMask ? l.maskThreshold : 0.0);
+    gl.uniform1f(this.loc(this.simProg, "u_maskInvert"), hasMask && l.maskInvert ? 1.0 : 0.0);
 
     // Mask transform uniforms
-    const maskTransform = l.maskTransform || { x: 0, y: 0, scale: 1, rotation: 0, skewX: 0, skewY: 0 };
-    gl.uniform2f(gl.getUniformLocation(this.simProg, "u_maskPan"), maskTransform.x, maskTransform.y);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_maskScale"), maskTransform.scale);
-    // Convert rotation from degrees to radians
-    const rotationRad = (maskTransform.rotation * Math.PI) / 180;
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_maskRotation"), rotationRad);
-    // Convert skew from degrees to tan
-    const skewXTan = Math.tan((maskTransform.skewX * Math.PI) / 180);
-    const skewYTan = Math.tan((maskTransform.skewY * Math.PI) / 180);
-    gl.uniform2f(gl.getUniformLocation(this.simProg, "u_maskSkew"), skewXTan, skewYTan);
+    this.setMaskTransformUniforms(this.simProg, l);
 
-    // Mask mode and physics uniforms
-    const maskModeInt = l.maskMode === "ignore" ? 0 : l.maskMode === "visibility" ? 1 : l.maskMode === "accumulate" ? 3 : 2;
-    gl.uniform1i(gl.getUniformLocation(this.simProg, "u_maskMode"), maskModeInt);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_stickiness"), l.maskStickiness ?? 0.3);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_magnetism"), l.maskMagnetism ?? 0);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_magnetismRadius"), l.maskMagnetismRadius ?? 0.1);
-
-    // Material system uniforms
+    // Material system textures
     gl.activeTexture(gl.TEXTURE4);
     const hasDepthTex = Boolean(lg.depthTex);
     const depthTex = lg.depthTex?.tex ?? this.getWhiteTex();
     gl.bindTexture(gl.TEXTURE_2D, depthTex);
-    gl.uniform1i(gl.getUniformLocation(this.simProg, "u_depthTex"), 4);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_hasDepthTex"), hasDepthTex ? 1.0 : 0.0);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_depthScale"), l.depthScale ?? 0.5);
+    gl.uniform1i(this.loc(this.simProg, "u_depthTex"), 4);
+    gl.uniform1f(this.loc(this.simProg, "u_hasDepthTex"), hasDepthTex ? 1.0 : 0.0);
 
-    // Material mode and palette
-    const materialModeInt = l.materialMode === "binary" ? 0 : l.materialMode === "palette" ? 1 : 2;
-    gl.uniform1i(gl.getUniformLocation(this.simProg, "u_materialMode"), materialModeInt);
-    
-    // Use mask texture as material texture for palette/rgb modes
+    // Home positions: the current morph target, else the image seed origins
+    const home = lg.morph && lg.morph.shown >= 0
+      ? lg.morph.tex
+      : lg.origin ? (lg.origin.flip ? lg.origin.texB : lg.origin.texA) : null;
     gl.activeTexture(gl.TEXTURE5);
-    gl.bindTexture(gl.TEXTURE_2D, lg.mask?.tex ?? this.getWhiteTex());
-    gl.uniform1i(gl.getUniformLocation(this.simProg, "u_materialTex"), 5);
+    gl.bindTexture(gl.TEXTURE_2D, home ?? this.getWhiteTex());
+    gl.uniform1i(this.loc(this.simProg, "u_home"), 5);
+    gl.uniform1f(this.loc(this.simProg, "u_hasHome"), home ? 1.0 : 0.0);
 
-    // Material palette response values (pack into vec4s for efficiency)
-    const palette = l.materialPalette || [];
-    const deflectStick = new Float32Array(4);
-    const passFragment = new Float32Array(4);
-    const depositSmear = new Float32Array(4);
-    const depositRipple = new Float32Array(4);
-    const matColors: number[] = [];
-    
-    for (let i = 0; i < 4; i++) {
-      const mat = palette[i];
-      if (mat) {
-        deflectStick[i] = mat.response.deflect;
-        passFragment[i] = mat.response.passThrough;
-        depositSmear[i] = mat.response.depositSmear;
-        depositRipple[i] = mat.response.depositRipple;
-        const col = hexToRgb(mat.color || "#ffffff");
-        matColors.push(col.r, col.g, col.b, 1.0);
-      } else {
-        deflectStick[i] = 0.5;
-        passFragment[i] = 0.0;
-        depositSmear[i] = 0.0;
-        depositRipple[i] = 0.0;
-        matColors.push(1.0, 1.0, 1.0, 1.0);
-      }
-    }
-    
-    gl.uniform4fv(gl.getUniformLocation(this.simProg, "u_matDeflectStick"), deflectStick);
-    gl.uniform4fv(gl.getUniformLocation(this.simProg, "u_matPassFragment"), passFragment);
-    gl.uniform4fv(gl.getUniformLocation(this.simProg, "u_matDepositSmear"), depositSmear);
-    gl.uniform4fv(gl.getUniformLocation(this.simProg, "u_matDepositRipple"), depositRipple);
-    gl.uniform4fv(gl.getUniformLocation(this.simProg, "u_matColors[0]"), new Float32Array(matColors));
-
-    // Ground plane uniforms
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_groundPlaneEnabled"), l.groundPlaneEnabled ? 1.0 : 0.0);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_groundY"), l.groundPlaneY ?? 0.8);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_groundTilt"), ((l.groundPlaneTilt ?? 30) * Math.PI) / 180);
-
-    // === SPAWN REGION UNIFORMS ===
-    const spawnConfig = l.spawnConfig;
-    const spawnRegionMap: Record<string, number> = {
-      random: 0, topEdge: 1, bottomEdge: 2, leftEdge: 3, rightEdge: 4,
-      offCanvasTop: 5, offCanvasBottom: 6, offCanvasLeft: 7, offCanvasRight: 8,
-      center: 9, centerBurst: 10, mask: 11, maskEdge: 12, custom: 13
-    };
-    gl.uniform1i(gl.getUniformLocation(this.simProg, "u_spawnRegion"), spawnRegionMap[spawnConfig?.region ?? "random"] ?? 0);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_spawnEdgeOffset"), spawnConfig?.edgeOffset ?? 0.05);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_spawnEdgeSpread"), spawnConfig?.edgeSpread ?? 1.0);
-    gl.uniform2f(gl.getUniformLocation(this.simProg, "u_spawnCenterPoint"), 
-      spawnConfig?.centerPoint?.x ?? 0.5, spawnConfig?.centerPoint?.y ?? 0.5);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_spawnBurstSpeed"), spawnConfig?.burstSpeed ?? 0.3);
     // Spawn mask texture (use white texture if no custom mask)
     gl.activeTexture(gl.TEXTURE6);
-    gl.bindTexture(gl.TEXTURE_2D, this.getWhiteTex());
-    gl.uniform1i(gl.getUniformLocation(this.simProg, "u_spawnMask"), 6);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_hasSpawnMask"), 0.0);
-
-    // === MOVEMENT PATTERN UNIFORMS ===
-    const moveConfig = l.movementConfig;
-    const patternMap: Record<string, number> = {
-      still: 0, linear: 1, spiral: 2, orbit: 3, radialOut: 4, radialIn: 5,
-      wave: 6, figure8: 7, brownian: 8, followCurl: 9, vortex: 10
-    };
-    gl.uniform1i(gl.getUniformLocation(this.simProg, "u_movementPattern"), patternMap[moveConfig?.pattern ?? "still"] ?? 0);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_patternDirection"), ((moveConfig?.direction ?? 270) * Math.PI) / 180);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_patternSpeed"), moveConfig?.speed ?? 0.1);
-    gl.uniform2f(gl.getUniformLocation(this.simProg, "u_patternCenter"),
-      moveConfig?.centerPoint?.x ?? 0.5, moveConfig?.centerPoint?.y ?? 0.5);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_spiralTightness"), moveConfig?.spiralTightness ?? 0.3);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_orbitRadius"), moveConfig?.orbitRadius ?? 0.3);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_orbitEccentricity"), moveConfig?.orbitEccentricity ?? 0);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_waveAmplitude"), moveConfig?.waveAmplitude ?? 0.1);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_waveFrequency"), moveConfig?.waveFrequency ?? 2);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_waveDirection"), ((moveConfig?.waveDirection ?? 0) * Math.PI) / 180);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_vortexStrength"), moveConfig?.vortexStrength ?? 0.5);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_vortexInward"), moveConfig?.vortexInward ?? 0.2);
-
-    // Lifecycle uniforms
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_accumulationRate"), l.accumulationRate ?? 0.3);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_accumulationTime"), l.accumulationTime ?? 2.0);
-    gl.uniform1f(gl.getUniformLocation(this.simProg, "u_decayRate"), l.decayRate ?? 0.3);
+    gl.bindTexture(gl.TEXTURE_2D, lg.spawnMask?.tex ?? this.getWhiteTex());
+    gl.uniform1i(this.loc(this.simProg, "u_spawnMask"), 6);
+    gl.uniform1f(this.loc(this.simProg, "u_hasSpawnMask"), lg.spawnMask ? 1.0 : 0.0);
+
+    // Neighbour bins (evade / clusters)
+    const hasBins = Boolean(lg.bins && neighbourBinLayout(l, this.floatBlend));
+    gl.activeTexture(gl.TEXTURE8);
+    gl.bindTexture(gl.TEXTURE_2D, lg.bins?.tex ?? this.getWhiteTex());
+    gl.uniform1i(this.loc(this.simProg, "u_bins"), 8);
+    gl.activeTexture(gl.TEXTURE9);
+    gl.bindTexture(gl.TEXTURE_2D, lg.bins?.velTex ?? this.getWhiteTex());
+    gl.uniform1i(this.loc(this.simProg, "u_binVel"), 9);
+    gl.uniform1f(this.loc(this.simProg, "u_hasBins"), hasBins ? 1.0 : 0.0);
+    gl.uniform1f(this.loc(this.simProg, "u_binGrid"), lg.bins?.grid ?? 1);
+
+    // Colour regions
+    this.bindColorRegions(this.simProg, lg, l, 10);
+
+    // Other layers' densities (strength 0 disables a channel)
+    const interactions = lg.interactions;
+    gl.activeTexture(gl.TEXTURE13);
+    gl.bindTexture(gl.TEXTURE_2D, interactions?.field.tex ?? this.getWhiteTex());
+    gl.uniform1i(this.loc(this.simProg, "u_interactionTex"), 13);
+    gl.uniform4fv(this.loc(this.simProg, "u_interactionStrength"), interactions?.strength ?? [0, 0, 0, 0]);
+    gl.uniform4fv(this.loc(this.simProg, "u_interactionRadius"), interactions?.radius ?? [0, 0, 0, 0]);
+
+    // Sub-emitter events queued for this layer
+    const queue = lg.spawnQueue;
+    gl.activeTexture(gl.TEXTURE14);
+    gl.bindTexture(gl.TEXTURE_2D, queue?.queue.tex ?? this.getWhiteTex());
+    gl.uniform1i(this.loc(this.simProg, "u_spawnQueue"), 14);
+    gl.uniform1i(this.loc(this.simProg, "u_spawnQueueRows"), queue?.rows ?? 0);
+    gl.uniform1f(this.loc(this.simProg, "u_spawnQueueSize"), SUB_EMIT_QUEUE_SIZE);
+    gl.uniform1i(this.loc(this.simProg, "u_spawnQueueBase"), queue?.cursor ?? 0);
+    gl.uniform1i(this.loc(this.simProg, "u_particleCount"), lg.particleCount);
+    gl.uniform4fv(this.loc(this.simProg, "u_spawnCount"), queue?.count ?? [1, 1, 1, 1]);
+    gl.uniform4fv(this.loc(this.simProg, "u_spawnInherit"), queue?.inherit ?? [0, 0, 0, 0]);
+    gl.uniform4fv(this.loc(this.simProg, "u_spawnSpread"), queue?.spread ?? [0, 0, 0, 0]);
+
+    // Over-life curves (speed)
+    gl.activeTexture(gl.TEXTURE15);
+    gl.bindTexture(gl.TEXTURE_2D, lg.lifeLUT ?? this.getWhiteTex());
+    gl.uniform1i(this.loc(this.simProg, "u_lifeLUT"), 15);
+    gl.uniform1f(this.loc(this.simProg, "u_hasLifeLUT"), lg.lifeLUT ? 1.0 : 0.0);
 
     gl.drawArrays(gl.TRIANGLES, 0, 6);
 
+    // Claimed particles rotate so repeated events don't recycle the same ones
+    if (queue) {
+      let span = 0;
+      for (let row = 0; row < queue.rows; row++) span += queue.count[row] * SUB_EMIT_QUEUE_SIZE;
+      queue.cursor = (queue.cursor + span) % lg.particleCount;
+    }
+
     lg.sim.flip = !lg.sim.flip;
 
     gl.bindVertexArray(null);
     gl.bindFramebuffer(gl.FRAMEBUFFER, null);
   }
 
-  private whiteTex: WebGLTexture | null = null;
-  private getWhiteTex() {
-    if (this.whiteTex) return this.whiteTex;
+  // Pack the layer's static simulation parameters into its LayerParams uniform
+  // buffer. Called from syncLayerResources, i.e. only when the layer's revision changes.
+  private uploadLayerParams(l: LayerConfig, lg: LayerGPU) {
     const gl = this.gl;
-    const data = new Uint8Array([255, 255, 255, 255]);
-    this.whiteTex = createTexture(gl, 1, 1, gl.RGBA8, gl.RGBA, gl.UNSIGNED_BYTE, data);
-    return this.whiteTex;
-  }
+    const p = lg.params.data;
 
-  private makePingPong(w: number, h: number, internal: number, format: number, type: number): PingPong {
-    const gl = this.gl;
-    const texA = createTexture(gl, w, h, internal, format, type, null);
-    const texB = createTexture(gl, w, h, internal, format, type, null);
-    const fboA = createFbo(gl, texA);
-    const fboB = createFbo(gl, texB);
-    return { texA, texB, fboA, fboB, flip: false, w, h };
-  }
+    p.int("u_type", PARTICLE_TYPE_MAP[l.type] ?? 3);
+
+    p.float("u_drag", l.drag);
+    p.float("u_attract", l.attract);
+    p.float("u_attractFalloff", l.attractFalloff ?? 1.0);
+    p.float("u_attractPoint", l.attractPoint.x, l.attractPoint.y);
+
+    // Multiple attraction points system - enabled points are packed to the front
+    const attractionPoints = l.attractionPoints || [];
+    let pointIdx = 0;
+    for (let i = 0; i < attractionPoints.length && pointIdx < MAX_ATTRACTION_POINTS; i++) {
+      const point = attractionPoints[i];
+      if (!point.enabled) continue;
+
+      p.floatAt("u_attractionPositions", pointIdx, point.position.x, point.position.y);
+      p.floatAt("u_attractionStrengths", pointIdx, point.strength);
+      p.floatAt("u_attractionFalloffs", pointIdx, point.falloff);
+
+      p.intAt("u_attractionTypes", pointIdx, ATTRACTION_TYPE_MAP[point.type] ?? 0);
+      p.intAt("u_attractionEffects", pointIdx, ATTRACTION_EFFECT_MAP[point.effect] ?? 0);
+
+      p.floatAt("u_attractionPulseFreqs", pointIdx, point.pulseFrequency ?? 1.0);
+      p.intAt("u_attractionEnabled", pointIdx, 1);
+      pointIdx++;
+    }
+    p.int("u_attractionPointCount", pointIdx);
+
+    // Wind: convert degrees to radians
+    p.float("u_windAngle", ((l.windAngle ?? 0) * Math.PI) / 180);
+
+    p.int("u_boundaryMode", BOUNDARY_MODE_MAP[l.boundaryMode] ?? 0);
+    p.float("u_boundaryBounce", l.boundaryBounce);
+    p.float("u_massJitter", l.massJitter ?? 0);
+    p.float("u_spawnSpeed", l.spawnSpeed);
+
+    // Mask mode and physics
+    const maskModeInt = l.maskMode === "ignore" ? 0 : l.maskMode === "visibility" ? 1 : l.maskMode === "accumulate" ? 3 : 2;
+    p.int("u_maskMode", maskModeInt);
+    p.float("u_stickiness", l.maskStickiness ?? 0.3);
+    p.float("u_magnetism", l.maskMagnetism ?? 0);
+    p.float("u_magnetismRadius", l.maskMagnetismRadius ?? 0.1);
+
+    // Mask behavior and border effects
+    const border = l.borderEffectConfig;
+    p.int("u_maskBehavior", MASK_BEHAVIOR_MAP[l.maskBehavior ?? "containment"] ?? 0);
+    p.int("u_borderEffect", BORDER_EFFECT_MAP[border?.effect ?? "deflect"] ?? 0);
+    p.float("u_borderStrength", border?.strength ?? 0.5);
+    p.float("u_fragmentCount", border?.fragmentCount ?? 3);
+    p.float("u_smearLength", border?.smearLength ?? 0.3);
+    p.float("u_borderVelocityScale", border?.velocityScale ?? 1.0);
+
+    // Lifecycle
+    p.float("u_accumulationRate", l.accumulationRate ?? 0.3);
+    p.float("u_accumulationTime", l.accumulationTime ?? 2.0);
+    p.float("u_decayRate", l.decayRate ?? 0.3);
+    p.float("u_lifetime", Math.max(0, l.lifetime ?? 0));
+    p.float("u_lifetimeJitter", l.lifetimeJitter ?? 0);
+
+    // Spring home: morph targets take over from image seed reform
+    const seed = l.imageSeed;
+    const morph = l.morph;
+    const reform = seed?.enabled && seed.url && seed.reform ? seed : null;
+    if (morph?.enabled && morph.targets.length > 0) {
+      p.float("u_homeStrength", morph.strength);
+      p.float("u_homeDamping", morph.damping);
+    } else {
+      p.float("u_homeStrength", reform?.reformStrength ?? 0);
+      p.float("u_homeDamping", reform?.reformDamping ?? 0);
+    }
+
+    // Material mode and palette response values (one vec4 per response, one lane per material)
+    p.float("u_depthScale", l.depthScale ?? 0.5);
+    const materialModeInt = l.materialMode === "binary" ? 0 : l.materialMode === "palette" ? 1 : 2;
+    p.int("u_materialMode", materialModeInt);
+
+    const palette = l.materialPalette || [];
+    const deflectStick = [0.5, 0.5, 0.5, 0.5];
+    const passFragment = [0, 0, 0, 0];
+    const depositSmear = [0, 0, 0, 0];
+    const depositRipple = [0, 0, 0, 0];
+    for (let i = 0; i < 4; i++) {
+      const mat = palette[i];
+      const col = hexToRgb(mat?.color || "#ffffff");
+      p.floatAt("u_matColors", i, col.r, col.g, col.b, 1.0);
+      if (!mat) continue;
+      deflectStick[i] = mat.response.deflect;
+      passFragment[i] = mat.response.passThrough;
+      depositSmear[i] = mat.response.depositSmear;
+      depositRipple[i] = mat.response.depositRipple;
+    }
+    p.float("u_matDeflectStick", ...deflectStick);
+    p.float("u_matPassFragment", ...passFragment);
+    p.float("u_matDepositSmear", ...depositSmear);
+    p.float("u_matDepositRipple", ...depositRipple);
+
+    // Ground plane
+    p.float("u_groundPlaneEnabled", l.groundPlaneEnabled ? 1.0 : 0.0);
+    p.float("u_groundY", l.groundPlaneY ?? 0.8);
+    p.float("u_groundTilt", ((l.groundPlaneTilt ?? 30) * Math.PI) / 180);
+
+    // Spawn region
+    const spawnConfig = l.spawnConfig;
+    p.int("u_spawnRegion", SPAWN_REGION_MAP[spawnConfig?.region ?? "random"] ?? 0);
+    p.float("u_spawnEdgeOffset", spawnConfig?.edgeOffset ?? 0.05);
+    p.float("u_spawnEdgeSpread", spawnConfig?.edgeSpread ?? 1.0);
+    p.float("u_spawnCenterPoint", spawnConfig?.centerPoint?.x ?? 0.5, spawnConfig?.centerPoint?.y ?? 0.5);
+    p.float("u_spawnBurstSpeed", spawnConfig?.burstSpeed ?? 0.3);
+
+    // Movement pattern
+    const moveConfig = l.movementConfig;
+    p.int("u_movementPattern", MOVEMENT_PATTERN_MAP[moveConfig?.pattern ?? "still"] ?? 0);
+    p.float("u_patternDirection", ((moveConfig?.direction ?? 270) * Math.PI) / 180);
+    p.float("u_patternSpeed", moveConfig?.speed ?? 0.1);
+    p.float("u_patternCenter", moveConfig?.centerPoint?.x ?? 0.5, moveConfig?.centerPoint?.y ?? 0.5);
+    p.float("u_spiralTightness", moveConfig?.spiralTightness ?? 0.3);
+    p.float("u_orbitRadius", moveConfig?.orbitRadius ?? 0.3);
+    p.float("u_orbitEccentricity", moveConfig?.orbitEccentricity ?? 0);
+    p.float("u_waveAmplitude", moveConfig?.waveAmplitude ?? 0.1);
+    p.float("u_waveFrequency", moveConfig?.waveFrequency ?? 2);
+    p.float("u_waveDirection", ((moveConfig?.waveDirection ?? 0) * Math.PI) / 180);
+    p.float("u_vortexStrength", moveConfig?.vortexStrength ?? 0.5);
+    p.float("u_vortexInward", moveConfig?.vortexInward ?? 0.2);
+
+    // Neighbour interactions (evade / clusters)
+    const binLayout = neighbourBinLayout(l, this.floatBlend);
+    p.int("u_binReach", binLayout?.reach ?? 1);
+    p.float("u_neighbourRadius", binLayout?.radius ?? 0.1);
+    p.float("u_evadeStrength", moveConfig?.evadeStrength ?? 0.3);
+    p.float("u_clusterStrength", moveConfig?.clusterStrength ?? 0.5);
+    p.float("u_clusterBreak", moveConfig?.clusterBreakThreshold ?? 0.7);
+    p.float("u_clusterFilters",
+      moveConfig?.clusterBySize ? 1 : 0, moveConfig?.clusterByColor ? 1 : 0, moveConfig?.clusterByBrightness ? 1 : 0);
+
+    // Liquid (SPH); the smoothing radius is u_neighbourRadius
+    const liquid = l.liquidConfig;
+    p.float("u_liquidRestDensity", Math.max(0.1, liquid?.restDensity ?? 3));
+    p.float("u_liquidViscosity", liquid?.viscosity ?? 0.3);
+    p.float("u_liquidStiffness", liquid?.stiffness ?? 1);
+    p.float("u_liquidSurfaceTension", liquid?.surfaceTension ?? 0.5);
+
+    // Granular sand: a side cell must be free this many cells down before a grain
+    // slides into it; below 45° grains also spread onto level cells
+    const granular = l.granularConfig;
+    const repose = Math.tan(((granular?.reposeAngle ?? 35) * Math.PI) / 180);
+    p.float("u_granular", l.type === "sand" && granular?.enabled ? 1 : 0);
+    p.float("u_granularCapacity", Math.max(1, granular?.capacity ?? 1));
+    p.int("u_granularReposeDepth", Math.max(1, Math.min(4, Math.round(repose))));
+    p.float("u_granularSpread", Math.max(0, 1 - repose) * 0.5);
+
+    gl.bindBuffer(gl.UNIFORM_BUFFER, lg.params.buffer);
+    gl.bufferSubData(gl.UNIFORM_BUFFER, 0, p.bytes);
+    gl.bindBuffer(gl.UNIFORM_BUFFER, null);
+  }
+
+  private createLayerParams(): LayerParamsBlock {
+    const gl = this.gl;
+    const buffer = must(gl.createBuffer(), "createBuffer failed");
+    gl.bindBuffer(gl.UNIFORM_BUFFER, buffer);
+    gl.bufferData(gl.UNIFORM_BUFFER, this.layerParamsLayout.size, gl.DYNAMIC_DRAW);
+    gl.bindBuffer(gl.UNIFORM_BUFFER, null);
+    return { buffer, data: new UniformBlockData(this.layerParamsLayout) };
+  }
+
+  // Cached uniform location; benchmark mode's legacy path looks it up every time
+  private loc(prog: WebGLProgram, name: string): WebGLUniformLocation | null {
+    if (this.legacyUniforms) return this.gl.getUniformLocation(prog, name);
+    return this.uniforms.get(prog)?.get(name) ?? null;
+  }
+
+  private deleteLayerGPU(lg: LayerGPU) {
+    const gl = this.gl;
+    gl.deleteTexture(lg.sim.texA);
+    gl.deleteTexture(lg.sim.texB);
+    gl.deleteFramebuffer(lg.sim.fboA);
+    gl.deleteFramebuffer(lg.sim.fboB);
+    gl.deleteTexture(lg.meta.texA);
+    gl.deleteTexture(lg.meta.texB);
+    gl.deleteTexture(lg.life.texA);
+    gl.deleteTexture(lg.life.texB);
+    gl.deleteTexture(lg.events.texA);
+    gl.deleteTexture(lg.events.texB);
+    if (lg.bins) {
+      gl.deleteTexture(lg.bins.tex);
+      gl.deleteTexture(lg.bins.velTex);
+      gl.deleteFramebuffer(lg.bins.fbo);
+    }
+    if (lg.regions) {
+      gl.deleteTexture(lg.regions.tex);
+      gl.deleteTexture(lg.regions.dataTex);
+    }
+    if (lg.mask) gl.deleteTexture(lg.mask.tex);
+    if (lg.eraseMask) gl.deleteTexture(lg.eraseMask.tex);
+    if (lg.spawnMask) gl.deleteTexture(lg.spawnMask.tex);
+    if (lg.sprites) gl.deleteTexture(lg.sprites.tex);
+    this.deleteLayerTrail(lg);
+    this.deleteLayerMetaball(lg);
+    this.deleteLayerInteractions(lg);
+    this.deleteSpawnQueue(lg);
+    if (lg.lifeLUT) gl.deleteTexture(lg.lifeLUT);
+    if (lg.colorLUT) gl.deleteTexture(lg.colorLUT);
+    if (lg.colorImage) gl.deleteTexture(lg.colorImage.tex);
+    if (lg.imageSeed) gl.deleteTexture(lg.imageSeed.tex);
+    this.deleteMorph(lg);
+    this.deleteOrigin(lg);
+    gl.deleteBuffer(lg.params.buffer);
+    if (lg.flowTex) gl.deleteTexture(lg.flowTex.tex);
+    if (lg.depthTex) gl.deleteTexture(lg.depthTex.tex);
+    if (lg.smearField) {
+      gl.deleteTexture(lg.smearField.pingpong.texA);
+      gl.deleteTexture(lg.smearField.pingpong.texB);
+      gl.deleteFramebuffer(lg.smearField.pingpong.fboA);
+      gl.deleteFramebuffer(lg.smearField.pingpong.fboB);
+    }
+    if (lg.rippleField) {
+      gl.deleteTexture(lg.rippleField.pingpong.texA);
+      gl.deleteTexture(lg.rippleField.pingpong.texB);
+      gl.deleteFramebuffer(lg.rippleField.pingpong.fboA);
+      gl.deleteFramebuffer(lg.rippleField.pingpong.fboB);
+    }
+    if (lg.dentField) {
+      gl.deleteTexture(lg.dentField.pingpong.texA);
+      gl.deleteTexture(lg.dentField.pingpong.texB);
+      gl.deleteFramebuffer(lg.dentField.pingpong.fboA);
+      gl.deleteFramebuffer(lg.dentField.pingpong.fboB);
+    }
+  }
+
+  private whiteTex: WebGLTexture | null = null;
+  private getWhiteTex() {
+    if (this.whiteTex) return this.whiteTex;
+    const gl = this.gl;
+    const data = new Uint8Array([255, 255, 255, 255]);
+    this.whiteTex = createTexture(gl, 1, 1, gl.RGBA8, gl.RGBA, gl.UNSIGNED_BYTE, data);
+    return this.whiteTex;
+  }
+
+  private makePingPong(w: number, h: number, internal: number, format: number, type: number): PingPong {
+    const gl = this.gl;
+    const texA = createTexture(gl, w, h, internal, format, type, null);
+    const texB = createTexture(gl, w, h, internal, format, type, null);
+    const fboA = createFbo(gl, texA);
+    const fboB = createFbo(gl, texB);
+    return { texA, texB, fboA, fboB, flip: false, w, h };
+  }
+
+  // Extra render target pair for a state ping-pong (texA pairs with sim.texA)
+  private makeAuxTex(sim: PingPong, internal: number, type: number): AuxTex {
+    const gl = this.gl;
+    const texA = createTexture(gl, sim.w, sim.h, internal, gl.RGBA, type, null);
+    const texB = createTexture(gl, sim.w, sim.h, internal, gl.RGBA, type, null);
+    return { texA, texB };
+  }
+
+  // Attach aux pairs to the state FBOs in output order (COLOR_ATTACHMENT1..n),
+  // so simFS writes all of them in the same pass
+  private attachAuxTex(sim: PingPong, aux: AuxTex[]) {
+    attachColorTextures(this.gl, sim.fboA, aux.map((a) => a.texA));
+    attachColorTextures(this.gl, sim.fboB, aux.map((a) => a.texB));
+  }
 
   private makeSingleBuffer(w: number, h: number, internal: number, format: number, type: number) {
     const gl = this.gl;
@@ -848,20 +1688,47 @@ export class ParticleEngine {
     gl.bindFramebuffer(gl.FRAMEBUFFER, null);
   }
 
+  // What a layer's mask texture is built from: the uploaded image's URL, or for text
+  // masks the text settings and the scene size they are rendered at. An uploaded font
+  // counts by a hash of its data URL, which would otherwise dwarf the rest of the key.
+  private maskSource(l: LayerConfig): string | undefined {
+    const text = l.maskText;
+    if (!text?.enabled) return l.maskUrl;
+    const font = text.fontUrl ? hashString(text.fontUrl) : undefined;
+    return `text:${this.canvas.width}x${this.canvas.height}:${JSON.stringify({ ...text, fontUrl: font })}`;
+  }
+
+  // lg.mask.url holds the maskSource the texture was built from
   private async ensureMask(l: LayerConfig) {
     const lg = this.layersGPU.get(l.id);
     if (!lg) return;
 
-    if (!l.maskUrl) {
+    const source = this.maskSource(l);
+    if (!source) {
+      if (lg.mask) this.gl.deleteTexture(lg.mask.tex);
       lg.mask = null;
       return;
     }
 
-    if (lg.mask?.url === l.maskUrl) return;
+    if (lg.mask?.url === source) return;
 
     try {
-      const bmp = await loadImageBitmap(l.maskUrl);
+      const text = l.maskText?.enabled ? l.maskText : null;
+      const bmp = text
+        ? await renderTextCanvas({
+            ...text,
+            fontSize: text.fontSize * this.canvas.height,
+            color: "#000000",
+            background: "#ffffff",
+            width: this.canvas.width,
+            height: this.canvas.height
+          })
+        : await loadImageBitmap(source);
+      // Text masks re-render on every edit; only the latest may land
+      const latest = this.layersCPU.find((c) => c.id === l.id);
+      if (this.layersGPU.get(l.id) !== lg || !latest || this.maskSource(latest) !== source) return;
       const gl = this.gl;
+      if (lg.mask) gl.deleteTexture(lg.mask.tex);
       const tex = must(gl.createTexture(), "mask createTexture failed");
       gl.bindTexture(gl.TEXTURE_2D, tex);
       // Ensure correct texture parameters (no tiling)
@@ -876,13 +1743,52 @@ export class ParticleEngine {
       gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, 0);
       gl.bindTexture(gl.TEXTURE_2D, null);
 
-      lg.mask = { tex, w: bmp.width, h: bmp.height, url: l.maskUrl };
+      lg.mask = { tex, w: bmp.width, h: bmp.height, url: source };
+
+      // The depth map is generated from the mask, so it could not be built until now
+      void this.ensureDepthTex(latest);
     } catch {
       // ignore bad mask load
+      if (lg.mask) this.gl.deleteTexture(lg.mask.tex);
       lg.mask = null;
     }
   }
 
+  private async ensureColorImage(l: LayerConfig) {
+    const lg = this.layersGPU.get(l.id);
+    if (!lg) return;
+
+    const url = l.colorImageUrl;
+    if (lg.colorImage?.url === url) return;
+    if (!url) {
+      if (lg.colorImage) this.gl.deleteTexture(lg.colorImage.tex);
+      lg.colorImage = null;
+      return;
+    }
+
+    try {
+      const bmp = await loadImageBitmap(url);
+      // The layer may have been removed or given another image while this loaded
+      const current = this.layersCPU.find((c) => c.id === l.id);
+      if (this.layersGPU.get(l.id) !== lg || current?.colorImageUrl !== url) return;
+      const gl = this.gl;
+      if (lg.colorImage) gl.deleteTexture(lg.colorImage.tex);
+      const tex = must(gl.createTexture(), "colorImage createTexture failed");
+      gl.bindTexture(gl.TEXTURE_2D, tex);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      // Row 0 at the top, as with masks
+      gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, 0);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, gl.RGBA, gl.UNSIGNED_BYTE, bmp);
+      gl.bindTexture(gl.TEXTURE_2D, null);
+      lg.colorImage = { tex, w: bmp.width, h: bmp.height, url };
+    } catch {
+      // ignore bad image load
+    }
+  }
+
   private async ensureEraseMask(l: LayerConfig) {
     const lg = this.layersGPU.get(l.id);
     if (!lg) return;
@@ -914,19 +1820,59 @@ export class ParticleEngine {
     }
   }
 
+  // Painted spawn region (spawnConfig.customMask); alpha = spawn weight
+  private async ensureSpawnMask(l: LayerConfig) {
+    const lg = this.layersGPU.get(l.id);
+    if (!lg) return;
+
+    const url = l.spawnConfig?.customMask;
+    if (!url) {
+      if (lg.spawnMask) this.gl.deleteTexture(lg.spawnMask.tex);
+      lg.spawnMask = null;
+      return;
+    }
+
+    if (lg.spawnMask?.url === url) return;
+
+    try {
+      const bmp = await loadImageBitmap(url);
+      const gl = this.gl;
+      const tex = must(gl.createTexture(), "spawnMask createTexture failed");
+      gl.bindTexture(gl.TEXTURE_2D, tex);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, 0);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, gl.RGBA, gl.UNSIGNED_BYTE, bmp);
+      gl.bindTexture(gl.TEXTURE_2D, null);
+
+      // A newer stroke may have finished loading first
+      const current = this.layersCPU.find((c) => c.id === l.id);
+      if (current?.spawnConfig?.customMask !== url || this.layersGPU.get(l.id) !== lg) {
+        gl.deleteTexture(tex);
+        return;
+      }
+      if (lg.spawnMask) gl.deleteTexture(lg.spawnMask.tex);
+      lg.spawnMask = { tex, w: bmp.width, h: bmp.height, url };
+    } catch {
+      lg.spawnMask = null;
+    }
+  }
+
   private ensureFlowTex(l: LayerConfig) {
     const lg = this.layersGPU.get(l.id);
     if (!lg) return;
 
     const paths = l.flowPaths || [];
     if (paths.length === 0) {
+      if (lg.flowTex) this.gl.deleteTexture(lg.flowTex.tex);
       lg.flowTex = null;
       return;
     }
 
-    // Create a hash of the paths to detect changes
-    const pathHash = JSON.stringify(paths);
-    if (lg.flowTex?.pathHash === pathHash) return;
+    // Path edits always replace the flowPaths array
+    if (lg.flowTex?.paths === paths) return;
 
     // Generate flow texture on CPU, then upload
     // R = direction X (0.5 + dir * 0.5)
@@ -1075,7 +2021,650 @@ export class ParticleEngine {
     gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, size, size, 0, gl.RGBA, gl.UNSIGNED_BYTE, data);
     gl.bindTexture(gl.TEXTURE_2D, null);
 
-    lg.flowTex = { tex, pathHash };
+    if (lg.flowTex) gl.deleteTexture(lg.flowTex.tex);
+    lg.flowTex = { tex, paths };
+  }
+
+  // ============================================
+  // NEIGHBOUR BINS (evade / clusters)
+  // ============================================
+
+  private ensureNeighbourBins(l: LayerConfig) {
+    const lg = this.layersGPU.get(l.id);
+    if (!lg) return;
+
+    const gl = this.gl;
+    const layout = neighbourBinLayout(l, this.floatBlend);
+    if (lg.bins && lg.bins.grid !== layout?.grid) {
+      gl.deleteTexture(lg.bins.tex);
+      gl.deleteTexture(lg.bins.velTex);
+      gl.deleteFramebuffer(lg.bins.fbo);
+      lg.bins = null;
+    }
+    if (!layout || lg.bins) return;
+
+    // The additive scatter needs blendable targets: RGBA32F with EXT_float_blend, else
+    // RGBA16F (the layout then keeps per-cell counts low)
+    const [format, type] = this.floatBlend ? [gl.RGBA32F, gl.FLOAT] : [gl.RGBA16F, gl.HALF_FLOAT];
+    const tex = createTexture(gl, layout.grid, layout.grid, format, gl.RGBA, type, null);
+    const velTex = createTexture(gl, layout.grid, layout.grid, format, gl.RGBA, type, null);
+    const fbo = createFbo(gl, tex);
+    attachColorTextures(gl, fbo, [velTex]);
+    lg.bins = { tex, velTex, fbo, grid: layout.grid };
+  }
+
+  // Scatter the layer's current state into its bin grid
+  private binLayer(lg: LayerGPU) {
+    const bins = lg.bins;
+    if (!bins) return;
+    const gl = this.gl;
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, bins.fbo);
+    gl.viewport(0, 0, bins.grid, bins.grid);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+
+    gl.useProgram(this.binProg);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, lg.sim.flip ? lg.sim.texB : lg.sim.texA);
+    gl.uniform1i(this.loc(this.binProg, "u_state"), 0);
+    gl.uniform2f(this.loc(this.binProg, "u_stateSize"), lg.side, lg.side);
+    gl.uniform1f(this.loc(this.binProg, "u_binGrid"), bins.grid);
+    this.setSeedUniforms(this.binProg);
+
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE);
+    gl.drawArrays(gl.POINTS, 0, lg.particleCount);
+    gl.disable(gl.BLEND);
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+  }
+
+  // ============================================
+  // INTER-LAYER INTERACTIONS
+  // ============================================
+
+  // Rasterise the layers this one reacts to into its interaction field, one per
+  // channel. Sources read their current state, so a source earlier in the list
+  // is seen after this substep's move, a later one before it.
+  private rasteriseInteractions(l: LayerConfig, lg: LayerGPU) {
+    const list = (l.interactions ?? []).slice(0, MAX_LAYER_INTERACTIONS);
+    if (list.length === 0) {
+      this.deleteLayerInteractions(lg);
+      return;
+    }
+    const gl = this.gl;
+    if (!lg.interactions) {
+      const field = this.makeSingleBuffer(INTERACTION_GRID, INTERACTION_GRID, gl.RGBA16F, gl.RGBA, gl.HALF_FLOAT);
+      // Filtered so the ring samples in simFS vary smoothly with position
+      gl.bindTexture(gl.TEXTURE_2D, field.tex);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+      gl.bindTexture(gl.TEXTURE_2D, null);
+      lg.interactions = { field, strength: new Float32Array(4), radius: new Float32Array(4) };
+    }
+    const { field, strength, radius } = lg.interactions;
+    strength.fill(0);
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, field.fbo);
+    gl.viewport(0, 0, field.w, field.h);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+
+    gl.useProgram(this.densityProg);
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE);
+    const channel = [0, 0, 0, 0];
+    list.forEach((interaction, i) => {
+      const source = this.layersCPU.find((s) => s.id === interaction.targetLayerId);
+      const sourceGPU = this.layersGPU.get(interaction.targetLayerId);
+      if (!source?.enabled || !sourceGPU || source.id === l.id) return;
+
+      channel.fill(0);
+      channel[i] = 1;
+      gl.uniform4fv(this.loc(this.densityProg, "u_channel"), channel);
+      gl.activeTexture(gl.TEXTURE0);
+      gl.bindTexture(gl.TEXTURE_2D, sourceGPU.sim.flip ? sourceGPU.sim.texB : sourceGPU.sim.texA);
+      gl.uniform1i(this.loc(this.densityProg, "u_state"), 0);
+      gl.uniform2f(this.loc(this.densityProg, "u_stateSize"), sourceGPU.side, sourceGPU.side);
+      gl.drawArrays(gl.POINTS, 0, sourceGPU.particleCount);
+
+      strength[i] = interaction.strength;
+      radius[i] = Math.max(0.01, interaction.radius);
+    });
+    gl.disable(gl.BLEND);
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+  }
+
+  private deleteLayerInteractions(lg: LayerGPU) {
+    if (!lg.interactions) return;
+    this.gl.deleteTexture(lg.interactions.field.tex);
+    this.gl.deleteFramebuffer(lg.interactions.field.fbo);
+    lg.interactions = null;
+  }
+
+  // ============================================
+  // OVER-LIFE CURVES
+  // ============================================
+
+  // Bake the layer's over-life curves into its lookup texture; curves only apply
+  // with a lifetime, and a layer with every curve flat needs no texture
+  private ensureLifeLUT(l: LayerConfig, lg: LayerGPU) {
+    const gl = this.gl;
+    if (lg.lifeLUT) gl.deleteTexture(lg.lifeLUT);
+    lg.lifeLUT = null;
+
+    const curves = l.lifeCurves;
+    const used = curves && (curves.size.length || curves.brightness.length || curves.speed.length || curves.color.length);
+    if (!(l.lifetime > 0) || !used) return;
+
+    lg.lifeLUT = createTexture(gl, LIFE_LUT_SIZE, 2, gl.RGBA16F, gl.RGBA, gl.FLOAT, bakeLifeLUT(curves));
+    gl.bindTexture(gl.TEXTURE_2D, lg.lifeLUT);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+  }
+
+  // Bake the colours a non-single colour mode indexes into its lookup texture
+  private ensureColorLUT(l: LayerConfig, lg: LayerGPU) {
+    const gl = this.gl;
+    if (lg.colorLUT) gl.deleteTexture(lg.colorLUT);
+    lg.colorLUT = null;
+    if (l.colorMode === "single" || l.colorMode === "image") return;
+
+    const stops = layerGradientStops(l);
+    const data = new Float32Array(COLOR_LUT_SIZE * 4);
+    for (let i = 0; i < COLOR_LUT_SIZE; i++) {
+      const c = sampleGradient(stops, i / (COLOR_LUT_SIZE - 1));
+      data.set([c.r, c.g, c.b, 1], i * 4);
+    }
+    lg.colorLUT = createTexture(gl, COLOR_LUT_SIZE, 1, gl.RGBA16F, gl.RGBA, gl.FLOAT, data);
+    gl.bindTexture(gl.TEXTURE_2D, lg.colorLUT);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+  }
+
+  // ============================================
+  // SPAWN ORIGINS
+  // ============================================
+
+  // Spawn positions are only tracked while a layer samples its colour image at them
+  // or seeds from an image (which writes them itself, see seedFromImage)
+  private ensureOrigin(l: LayerConfig, lg: LayerGPU) {
+    const needed =
+      (l.colorMode === "image" && l.colorImageSampling === "spawn") ||
+      Boolean(l.imageSeed?.enabled && l.imageSeed.url);
+    if (!needed) {
+      this.deleteOrigin(lg);
+      return;
+    }
+    if (lg.origin) return;
+    // Starts zeroed (z = 0), so the first pass fills in every particle's current position
+    const gl = this.gl;
+    lg.origin = this.makePingPong(lg.side, lg.side, gl.RGBA32F, gl.RGBA, gl.FLOAT);
+  }
+
+  private deleteOrigin(lg: LayerGPU) {
+    if (!lg.origin) return;
+    const gl = this.gl;
+    gl.deleteTexture(lg.origin.texA);
+    gl.deleteTexture(lg.origin.texB);
+    gl.deleteFramebuffer(lg.origin.fboA);
+    gl.deleteFramebuffer(lg.origin.fboB);
+    lg.origin = null;
+  }
+
+  // Runs right after simulateLayer, reading the state and lifecycle it just wrote
+  private updateOrigin(lg: LayerGPU, origin: PingPong) {
+    const gl = this.gl;
+    gl.bindFramebuffer(gl.FRAMEBUFFER, origin.flip ? origin.fboA : origin.fboB);
+    gl.viewport(0, 0, lg.side, lg.side);
+    gl.disable(gl.BLEND);
+    gl.useProgram(this.originProg);
+    gl.bindVertexArray(this.quad.vao);
+
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, lg.sim.flip ? lg.sim.texB : lg.sim.texA);
+    gl.uniform1i(this.loc(this.originProg, "u_state"), 0);
+    gl.activeTexture(gl.TEXTURE1);
+    gl.bindTexture(gl.TEXTURE_2D, lg.sim.flip ? lg.life.texB : lg.life.texA);
+    gl.uniform1i(this.loc(this.originProg, "u_life"), 1);
+    gl.activeTexture(gl.TEXTURE2);
+    gl.bindTexture(gl.TEXTURE_2D, origin.flip ? origin.texB : origin.texA);
+    gl.uniform1i(this.loc(this.originProg, "u_prevOrigin"), 2);
+
+    gl.drawArrays(gl.TRIANGLES, 0, 6);
+    origin.flip = !origin.flip;
+
+    gl.bindVertexArray(null);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+  }
+
+  // ============================================
+  // IMAGE SEED
+  // ============================================
+
+  // Loads the seed picture and its pick weights, then reseeds the layer from it.
+  // Reform settings are uniforms and don't reload anything.
+  private async ensureImageSeed(l: LayerConfig) {
+    const lg = this.layersGPU.get(l.id);
+    if (!lg) return;
+
+    const gl = this.gl;
+    const cfg = l.imageSeed;
+    if (!cfg?.enabled || !cfg.url) {
+      if (lg.imageSeed) {
+        gl.deleteTexture(lg.imageSeed.tex);
+        lg.imageSeed = null;
+      }
+      return;
+    }
+
+    const key = `${cfg.invert ? 1 : 0}:${cfg.url}`;
+    if (lg.imageSeed?.key === key) return;
+
+    try {
+      const bmp = await loadImageBitmap(cfg.url);
+      // The layer may have been rebuilt or given another seed while this loaded
+      const current = this.layersCPU.find((c) => c.id === l.id)?.imageSeed;
+      if (this.layersGPU.get(l.id) !== lg || !current?.enabled || current.url !== cfg.url || current.invert !== cfg.invert) {
+        return;
+      }
+
+      const pick = buildPickWeights(bmp, bmp.width, bmp.height, cfg.invert);
+      if (lg.imageSeed) gl.deleteTexture(lg.imageSeed.tex);
+      const tex = must(gl.createTexture(), "imageSeed createTexture failed");
+      gl.bindTexture(gl.TEXTURE_2D, tex);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, 0);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, gl.RGBA, gl.UNSIGNED_BYTE, bmp);
+      gl.bindTexture(gl.TEXTURE_2D, null);
+
+      lg.imageSeed = { ...pick, tex, key, rect: new Float32Array([0, 0, 1, 1]) };
+      this.seedFromImage(lg, lg.imageSeed);
+    } catch {
+      // ignore bad image load
+    }
+  }
+
+  // Puts every particle at rest on a picture pixel picked by weight and records those
+  // positions as its origin
+  private seedFromImage(lg: LayerGPU, seed: ImageSeed) {
+    const gl = this.gl;
+    seed.rect = fitPickRect(seed.aspect, this.canvas.width / Math.max(1, this.canvas.height));
+    const origin = pickPositions(seed, seed.rect, lg.side * lg.side, createRandom(this.global?.seed ?? 0));
+    const state = origin.map((v, i) => (i % 4 < 2 ? v : 0));
+
+    // Clearing the read side resets meta and lifecycle too; a nonzero position stops
+    // the shader from reseeding these particles itself
+    gl.bindFramebuffer(gl.FRAMEBUFFER, lg.sim.flip ? lg.sim.fboB : lg.sim.fboA);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.bindTexture(gl.TEXTURE_2D, lg.sim.flip ? lg.sim.texB : lg.sim.texA);
+    gl.texSubImage2D(gl.TEXTURE_2D, 0, 0, 0, lg.side, lg.side, gl.RGBA, gl.FLOAT, state);
+    if (lg.origin) {
+      for (const tex of [lg.origin.texA, lg.origin.texB]) {
+        gl.bindTexture(gl.TEXTURE_2D, tex);
+        gl.texSubImage2D(gl.TEXTURE_2D, 0, 0, 0, lg.side, lg.side, gl.RGBA, gl.FLOAT, origin);
+      }
+    }
+    gl.bindTexture(gl.TEXTURE_2D, null);
+  }
+
+  // ============================================
+  // MORPH TARGETS
+  // ============================================
+
+  // Keeps the target texture and one set of pick weights per target; targets whose
+  // settings changed are rebuilt in the background
+  private ensureMorph(l: LayerConfig, lg: LayerGPU) {
+    const gl = this.gl;
+    const cfg = l.morph;
+    if (!cfg?.enabled || cfg.targets.length === 0) {
+      this.deleteMorph(lg);
+      return;
+    }
+
+    if (!lg.morph) {
+      lg.morph = {
+        tex: createTexture(gl, lg.side, lg.side, gl.RGBA32F, gl.RGBA, gl.FLOAT, null),
+        keys: [],
+        picks: [],
+        index: 0,
+        shown: -1,
+        elapsed: 0,
+        beat: false,
+        keyPressed: false
+      };
+    }
+    const morph = lg.morph;
+    const targets = cfg.targets.slice(0, MAX_MORPH_TARGETS);
+    morph.keys.length = targets.length;
+    morph.picks.length = targets.length;
+    targets.forEach((target, i) => {
+      const key = morphTargetKey(target);
+      if (morph.keys[i] === key) return;
+      morph.keys[i] = key;
+      morph.picks[i] = null;
+      if (morph.shown === i) morph.shown = -1;
+      void this.buildMorphTarget(l.id, lg, i, target, key);
+    });
+    if (morph.index >= targets.length) {
+      morph.index = 0;
+      morph.shown = -1;
+    }
+  }
+
+  private async buildMorphTarget(layerId: string, lg: LayerGPU, index: number, target: MorphTarget, key: string) {
+    try {
+      let pick: PickWeights;
+      if (target.kind === "text") {
+        const canvas = await renderTextCanvas({
+          text: target.text || " ",
+          fontFamily: target.fontFamily,
+          fontWeight: target.fontWeight,
+          fontSize: MORPH_TEXT_SIZE
+        });
+        pick = buildPickWeights(canvas, canvas.width, canvas.height, false);
+      } else if (target.kind === "svg") {
+        if (!target.url) return;
+        const img = await loadImageElement(target.url);
+        // SVGs without a size of their own report 0 (or 300 x 150)
+        pick = buildPickWeights(img, img.naturalWidth || 300, img.naturalHeight || 150, target.invert);
+      } else {
+        if (!target.url) return;
+        const bmp = await loadImageBitmap(target.url);
+        pick = buildPickWeights(bmp, bmp.width, bmp.height, target.invert);
+      }
+
+      // The layer may have been rebuilt or the target changed while this loaded
+      const morph = lg.morph;
+      if (this.layersGPU.get(layerId) !== lg || !morph || morph.keys[index] !== key) return;
+      morph.picks[index] = pick;
+    } catch {
+      // ignore bad target load; the layer holds its current shape
+    }
+  }
+
+  private deleteMorph(lg: LayerGPU) {
+    if (!lg.morph) return;
+    this.gl.deleteTexture(lg.morph.tex);
+    lg.morph = null;
+  }
+
+  // Moves to the next target when the trigger fires, then uploads the current target
+  // once its picks are ready. Particle i always takes the i-th pick, so the same
+  // random sequence maps it to matching parts of each shape.
+  private advanceMorph(l: LayerConfig, lg: LayerGPU, morph: MorphTargets, dt: number) {
+    const cfg = l.morph;
+    const count = morph.keys.length;
+
+    morph.elapsed += dt;
+    const beat = (this.audioData?.beat ?? 0) > 0.5;
+    const fire =
+      cfg.trigger === "time" ? morph.elapsed >= Math.max(0.1, cfg.interval)
+      : cfg.trigger === "beat" ? beat && !morph.beat
+      : morph.keyPressed;
+    morph.beat = beat;
+    morph.keyPressed = false;
+    if (fire && count > 1) {
+      morph.index = (morph.index + 1) % count;
+      morph.elapsed = 0;
+    }
+
+    const pick = morph.picks[morph.index];
+    if (morph.shown === morph.index || !pick) return;
+    const rect = fitPickRect(pick.aspect, this.canvas.width / Math.max(1, this.canvas.height), MORPH_MARGIN);
+    const positions = pickPositions(pick, rect, lg.side * lg.side, createRandom(this.global?.seed ?? 0));
+    const gl = this.gl;
+    gl.bindTexture(gl.TEXTURE_2D, morph.tex);
+    gl.texSubImage2D(gl.TEXTURE_2D, 0, 0, 0, lg.side, lg.side, gl.RGBA, gl.FLOAT, positions);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+    morph.shown = morph.index;
+  }
+
+  // Key trigger: called with every key pressed outside text inputs
+  morphKeyPressed(key: string) {
+    for (const l of this.layersCPU) {
+      const lg = this.layersGPU.get(l.id);
+      if (!lg?.morph || l.morph?.trigger !== "key") continue;
+      if (l.morph.key.toLowerCase() === key.toLowerCase()) lg.morph.keyPressed = true;
+    }
+  }
+
+  // ============================================
+  // SUB-EMITTERS
+  // ============================================
+
+  // Gather the sub-emitters targeting this layer and scatter their sources'
+  // latest events into its spawn queue, one row each. Sources read their last
+  // written events, so every event is consumed exactly once per step.
+  private queueSubEmits(l: LayerConfig, lg: LayerGPU) {
+    const incoming: { source: LayerGPU; emitter: SubEmitter }[] = [];
+    for (const s of this.layersCPU) {
+      const sourceGPU = this.layersGPU.get(s.id);
+      if (!s.enabled || !sourceGPU) continue;
+      for (const emitter of (s.subEmitters ?? []).slice(0, MAX_SUB_EMITTERS)) {
+        if (emitter.targetLayerId === l.id && incoming.length < MAX_SUB_EMITTER_ROWS) {
+          incoming.push({ source: sourceGPU, emitter });
+        }
+      }
+    }
+    if (incoming.length === 0) {
+      this.deleteSpawnQueue(lg);
+      return;
+    }
+
+    const gl = this.gl;
+    if (!lg.spawnQueue) {
+      lg.spawnQueue = {
+        queue: this.makeSingleBuffer(SUB_EMIT_QUEUE_SIZE, MAX_SUB_EMITTER_ROWS, gl.RGBA32F, gl.RGBA, gl.FLOAT),
+        rows: 0,
+        count: new Float32Array(MAX_SUB_EMITTER_ROWS),
+        inherit: new Float32Array(MAX_SUB_EMITTER_ROWS),
+        spread: new Float32Array(MAX_SUB_EMITTER_ROWS),
+        cursor: 0
+      };
+    }
+    const q = lg.spawnQueue;
+    q.rows = incoming.length;
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, q.queue.fbo);
+    gl.viewport(0, 0, q.queue.w, q.queue.h);
+    // x < -50 marks an empty slot (see queuedSpawn in simFS)
+    gl.clearColor(-100, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    gl.disable(gl.BLEND);
+
+    gl.useProgram(this.subEmitProg);
+    gl.uniform2f(this.loc(this.subEmitProg, "u_queueSize"), q.queue.w, q.queue.h);
+    incoming.forEach(({ source, emitter }, row) => {
+      gl.activeTexture(gl.TEXTURE0);
+      gl.bindTexture(gl.TEXTURE_2D, source.sim.flip ? source.events.texB : source.events.texA);
+      gl.uniform1i(this.loc(this.subEmitProg, "u_events"), 0);
+      gl.uniform2f(this.loc(this.subEmitProg, "u_stateSize"), source.side, source.side);
+      gl.uniform1i(this.loc(this.subEmitProg, "u_eventType"), SUB_EMIT_EVENT_MAP[emitter.event] ?? 0);
+      gl.uniform1f(this.loc(this.subEmitProg, "u_queueRow"), row);
+      gl.drawArrays(gl.POINTS, 0, source.particleCount);
+
+      q.count[row] = Math.max(1, Math.min(16, Math.round(emitter.count)));
+      q.inherit[row] = emitter.inheritVelocity;
+      q.spread[row] = emitter.spread;
+    });
+
+    gl.clearColor(0, 0, 0, 0);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+  }
+
+  private deleteSpawnQueue(lg: LayerGPU) {
+    if (!lg.spawnQueue) return;
+    this.gl.deleteTexture(lg.spawnQueue.queue.tex);
+    this.gl.deleteFramebuffer(lg.spawnQueue.queue.fbo);
+    lg.spawnQueue = null;
+  }
+
+  // ============================================
+  // COLOUR REGIONS
+  // ============================================
+
+  private regionBuilds = new Map<string, string>(); // layer id -> lookup key being built
+
+  private async ensureColorRegions(l: LayerConfig) {
+    const lg = this.layersGPU.get(l.id);
+    if (!lg) return;
+
+    const gl = this.gl;
+    const regions = (l.colorRegions ?? []).slice(0, MAX_COLOR_REGIONS);
+    // Regions are classified from an uploaded image's colours; text masks have none
+    if (l.maskBehavior !== "colorRegions" || !l.maskUrl || l.maskText?.enabled || regions.length === 0) {
+      if (lg.regions) {
+        gl.deleteTexture(lg.regions.tex);
+        gl.deleteTexture(lg.regions.dataTex);
+        lg.regions = null;
+      }
+      return;
+    }
+
+    const lookupKey = l.maskUrl + JSON.stringify(regions.map((r) => [r.color, r.tolerance]));
+    const dataKey = JSON.stringify(regions);
+
+    if (lg.regions?.lookupKey === lookupKey) {
+      if (lg.regions.dataKey !== dataKey) {
+        gl.bindTexture(gl.TEXTURE_2D, lg.regions.dataTex);
+        gl.texSubImage2D(gl.TEXTURE_2D, 0, 0, 0, MAX_COLOR_REGIONS, 3, gl.RGBA, gl.FLOAT, packRegionData(regions));
+        gl.bindTexture(gl.TEXTURE_2D, null);
+        lg.regions.dataKey = dataKey;
+      }
+      return;
+    }
+    if (this.regionBuilds.get(l.id) === lookupKey) return;
+    this.regionBuilds.set(l.id, lookupKey);
+
+    try {
+      // Classify the mask on the CPU at a bounded resolution
+      const bmp = await loadImageBitmap(l.maskUrl);
+      const scale = Math.min(1, REGION_LOOKUP_SIZE / Math.max(bmp.width, bmp.height));
+      const w = Math.max(1, Math.round(bmp.width * scale));
+      const h = Math.max(1, Math.round(bmp.height * scale));
+      const canvas = document.createElement("canvas");
+      canvas.width = w;
+      canvas.height = h;
+      const ctx = must(canvas.getContext("2d", { willReadFrequently: true }), "region canvas 2d context failed");
+      ctx.imageSmoothingEnabled = false;
+      ctx.drawImage(bmp, 0, 0, w, h);
+      const lookup = classifyColorRegions(ctx.getImageData(0, 0, w, h).data, regions);
+
+      // The layer may have been rebuilt or reconfigured while loading
+      if (this.layersGPU.get(l.id) !== lg || this.regionBuilds.get(l.id) !== lookupKey) return;
+
+      const tex = createTexture(gl, w, h, gl.RGBA8, gl.RGBA, gl.UNSIGNED_BYTE, lookup);
+      const dataTex = createTexture(gl, MAX_COLOR_REGIONS, 3, gl.RGBA32F, gl.RGBA, gl.FLOAT, packRegionData(regions));
+      if (lg.regions) {
+        gl.deleteTexture(lg.regions.tex);
+        gl.deleteTexture(lg.regions.dataTex);
+      }
+      lg.regions = { tex, dataTex, lookupKey, dataKey };
+    } catch {
+      // ignore bad mask load
+    } finally {
+      if (this.regionBuilds.get(l.id) === lookupKey) this.regionBuilds.delete(l.id);
+    }
+  }
+
+  // ============================================
+  // SPRITE ATLAS
+  // ============================================
+
+  private spriteBuilds = new Map<string, string>(); // layer id -> sprite key being built
+
+  private async ensureSpriteAtlas(l: LayerConfig) {
+    const lg = this.layersGPU.get(l.id);
+    if (!lg) return;
+
+    const gl = this.gl;
+    const usesSprite = l.shape === "sprite" || (l.glyphPalette ?? []).some((e) => e.shape === "sprite");
+    if (!usesSprite || !l.spriteConfig) {
+      if (lg.sprites) {
+        gl.deleteTexture(lg.sprites.tex);
+        lg.sprites = null;
+      }
+      return;
+    }
+
+    const key = JSON.stringify(l.spriteConfig);
+    if (lg.sprites?.key === key) return;
+    if (this.spriteBuilds.get(l.id) === key) return;
+    this.spriteBuilds.set(l.id, key);
+
+    try {
+      const atlas = await drawSpriteAtlas(l.spriteConfig);
+
+      // The layer may have been rebuilt or reconfigured while loading
+      if (this.layersGPU.get(l.id) !== lg || this.spriteBuilds.get(l.id) !== key) return;
+
+      if (lg.sprites) {
+        gl.deleteTexture(lg.sprites.tex);
+        lg.sprites = null;
+      }
+      if (!atlas) return;
+
+      const tex = must(gl.createTexture(), "sprite atlas createTexture failed");
+      gl.bindTexture(gl.TEXTURE_2D, tex);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, 0);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, gl.RGBA, gl.UNSIGNED_BYTE, atlas.canvas);
+      gl.bindTexture(gl.TEXTURE_2D, null);
+      lg.sprites = { tex, cols: atlas.cols, rows: atlas.rows, frames: atlas.frames, key };
+    } catch {
+      // ignore bad sprite images
+    } finally {
+      if (this.spriteBuilds.get(l.id) === key) this.spriteBuilds.delete(l.id);
+    }
+  }
+
+  // Bind the region lookup and data textures to two consecutive units
+  private bindColorRegions(prog: WebGLProgram, lg: LayerGPU, l: LayerConfig, unit: number) {
+    const gl = this.gl;
+    const regions = l.maskBehavior === "colorRegions" ? lg.regions : null;
+    gl.activeTexture(gl.TEXTURE0 + unit);
+    gl.bindTexture(gl.TEXTURE_2D, regions?.tex ?? this.getWhiteTex());
+    gl.uniform1i(this.loc(prog, "u_regionTex"), unit);
+    gl.activeTexture(gl.TEXTURE0 + unit + 1);
+    gl.bindTexture(gl.TEXTURE_2D, regions?.dataTex ?? this.getWhiteTex());
+    gl.uniform1i(this.loc(prog, "u_regionData"), unit + 1);
+    gl.uniform1f(this.loc(prog, "u_hasRegions"), regions ? 1.0 : 0.0);
+  }
+
+  private setMaskTransformUniforms(prog: WebGLProgram, l: LayerConfig) {
+    const gl = this.gl;
+    const maskTransform = l.maskTransform || { x: 0, y: 0, scale: 1, rotation: 0, skewX: 0, skewY: 0 };
+    gl.uniform2f(this.loc(prog, "u_maskPan"), maskTransform.x, maskTransform.y);
+    gl.uniform1f(this.loc(prog, "u_maskScale"), maskTransform.scale);
+    // Convert rotation from degrees to radians
+    const rotationRad = (maskTransform.rotation * Math.PI) / 180;
+    gl.uniform1f(this.loc(prog, "u_maskRotation"), rotationRad);
+    // Convert skew from degrees to tan
+    const skewXTan = Math.tan((maskTransform.skewX * Math.PI) / 180);
+    const skewYTan = Math.tan((maskTransform.skewY * Math.PI) / 180);
+    gl.uniform2f(this.loc(prog, "u_maskSkew"), skewXTan, skewYTan);
+  }
+
+  // Global seed: u_seed feeds rand() in the simulation, u_seedPhase offsets the
+  // per-particle seeds shared by the sim, bin and render passes
+  private setSeedUniforms(prog: WebGLProgram) {
+    const gl = this.gl;
+    const seed = (this.global?.seed ?? 0) >>> 0;
+    gl.uniform1ui(this.loc(prog, "u_seed"), seed);
+    gl.uniform1f(this.loc(prog, "u_seedPhase"), ((seed * 0.6180339887) % 1) * 1000);
   }
 
   // ============================================
@@ -1086,15 +2675,17 @@ export class ParticleEngine {
     const lg = this.layersGPU.get(l.id);
     if (!lg) return;
 
-    // Skip if depth not enabled or no mask
-    if (!l.depthEnabled || !l.maskUrl || !lg.mask) {
+    // Skip if depth not enabled or the layer's mask hasn't loaded yet
+    const maskSource = this.maskSource(l);
+    if (!l.depthEnabled || !maskSource || lg.mask?.url !== maskSource) {
+      if (lg.depthTex) this.gl.deleteTexture(lg.depthTex.tex);
       lg.depthTex = null;
       return;
     }
 
     // Create config hash to detect changes
     const configHash = `${l.depthBlur}-${l.depthCurve}-${l.depthInvert}-${l.depthScale}`;
-    if (lg.depthTex?.maskUrl === l.maskUrl && lg.depthTex?.config === configHash) {
+    if (lg.depthTex?.maskSource === maskSource && lg.depthTex?.config === configHash) {
       return; // Already up to date
     }
 
@@ -1132,11 +2723,11 @@ export class ParticleEngine {
     gl.viewport(0, 0, maskW, maskH);
     gl.activeTexture(gl.TEXTURE0);
     gl.bindTexture(gl.TEXTURE_2D, lg.mask.tex);
-    gl.uniform1i(gl.getUniformLocation(this.depthGenProg, "u_mask"), 0);
-    gl.uniform1f(gl.getUniformLocation(this.depthGenProg, "u_curve"), l.depthCurve);
-    gl.uniform1f(gl.getUniformLocation(this.depthGenProg, "u_scale"), l.depthScale);
-    gl.uniform1i(gl.getUniformLocation(this.depthGenProg, "u_invert"), l.depthInvert ? 1 : 0);
-    gl.uniform1i(gl.getUniformLocation(this.depthGenProg, "u_pass"), 0);
+    gl.uniform1i(this.loc(this.depthGenProg, "u_mask"), 0);
+    gl.uniform1f(this.loc(this.depthGenProg, "u_curve"), l.depthCurve);
+    gl.uniform1f(this.loc(this.depthGenProg, "u_scale"), l.depthScale);
+    gl.uniform1i(this.loc(this.depthGenProg, "u_invert"), l.depthInvert ? 1 : 0);
+    gl.uniform1i(this.loc(this.depthGenProg, "u_pass"), 0);
     gl.drawArrays(gl.TRIANGLES, 0, 6);
 
     // Blur passes - FIXED: bind depth source to u_depthSrc uniform
@@ -1149,8 +2740,8 @@ export class ParticleEngine {
       // Bind depth source texture to TEXTURE1 for u_depthSrc
       gl.activeTexture(gl.TEXTURE1);
       gl.bindTexture(gl.TEXTURE_2D, srcTex);
-      gl.uniform1i(gl.getUniformLocation(this.depthGenProg, "u_depthSrc"), 1);
-      gl.uniform1i(gl.getUniformLocation(this.depthGenProg, "u_pass"), i + 1);
+      gl.uniform1i(this.loc(this.depthGenProg, "u_depthSrc"), 1);
+      gl.uniform1i(this.loc(this.depthGenProg, "u_pass"), i + 1);
       gl.drawArrays(gl.TRIANGLES, 0, 6);
     }
 
@@ -1160,8 +2751,10 @@ export class ParticleEngine {
 
     gl.bindVertexArray(null);
     gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.deleteFramebuffer(depthFbo);
 
-    lg.depthTex = { tex: depthTex, w: maskW, h: maskH, maskUrl: l.maskUrl, config: configHash };
+    if (lg.depthTex) gl.deleteTexture(lg.depthTex.tex);
+    lg.depthTex = { tex: depthTex, w: maskW, h: maskH, maskSource, config: configHash };
   }
 
   private ensureSurfaceFields(l: LayerConfig) {
@@ -1237,15 +2830,15 @@ export class ParticleEngine {
 
       gl.activeTexture(gl.TEXTURE0);
       gl.bindTexture(gl.TEXTURE_2D, srcTex);
-      gl.uniform1i(gl.getUniformLocation(this.smearUpdateProg, "u_prevSmear"), 0);
+      gl.uniform1i(this.loc(this.smearUpdateProg, "u_prevSmear"), 0);
 
       // Use a black texture for deposits (will be filled by particle sim later)
       gl.activeTexture(gl.TEXTURE1);
       gl.bindTexture(gl.TEXTURE_2D, this.getWhiteTex());
-      gl.uniform1i(gl.getUniformLocation(this.smearUpdateProg, "u_deposits"), 1);
+      gl.uniform1i(this.loc(this.smearUpdateProg, "u_deposits"), 1);
 
-      gl.uniform1f(gl.getUniformLocation(this.smearUpdateProg, "u_decayRate"), l.smearDecayRate);
-      gl.uniform1f(gl.getUniformLocation(this.smearUpdateProg, "u_dt"), dt);
+      gl.uniform1f(this.loc(this.smearUpdateProg, "u_decayRate"), l.smearDecayRate);
+      gl.uniform1f(this.loc(this.smearUpdateProg, "u_dt"), dt);
 
       gl.drawArrays(gl.TRIANGLES, 0, 6);
       sf.pingpong.flip = !sf.pingpong.flip;
@@ -1264,15 +2857,15 @@ export class ParticleEngine {
 
       gl.activeTexture(gl.TEXTURE0);
       gl.bindTexture(gl.TEXTURE_2D, srcTex);
-      gl.uniform1i(gl.getUniformLocation(this.rippleUpdateProg, "u_prevRipple"), 0);
+      gl.uniform1i(this.loc(this.rippleUpdateProg, "u_prevRipple"), 0);
 
       gl.activeTexture(gl.TEXTURE1);
       gl.bindTexture(gl.TEXTURE_2D, this.getWhiteTex());
-      gl.uniform1i(gl.getUniformLocation(this.rippleUpdateProg, "u_deposits"), 1);
+      gl.uniform1i(this.loc(this.rippleUpdateProg, "u_deposits"), 1);
 
-      gl.uniform1f(gl.getUniformLocation(this.rippleUpdateProg, "u_damping"), l.rippleDamping);
-      gl.uniform1f(gl.getUniformLocation(this.rippleUpdateProg, "u_speed"), l.rippleSpeed);
-      gl.uniform1f(gl.getUniformLocation(this.rippleUpdateProg, "u_dt"), dt);
+      gl.uniform1f(this.loc(this.rippleUpdateProg, "u_damping"), l.rippleDamping);
+      gl.uniform1f(this.loc(this.rippleUpdateProg, "u_speed"), l.rippleSpeed);
+      gl.uniform1f(this.loc(this.rippleUpdateProg, "u_dt"), dt);
 
       gl.drawArrays(gl.TRIANGLES, 0, 6);
       rf.pingpong.flip = !rf.pingpong.flip;
@@ -1291,14 +2884,14 @@ export class ParticleEngine {
 
       gl.activeTexture(gl.TEXTURE0);
       gl.bindTexture(gl.TEXTURE_2D, srcTex);
-      gl.uniform1i(gl.getUniformLocation(this.dentUpdateProg, "u_prevDent"), 0);
+      gl.uniform1i(this.loc(this.dentUpdateProg, "u_prevDent"), 0);
 
       gl.activeTexture(gl.TEXTURE1);
       gl.bindTexture(gl.TEXTURE_2D, this.getWhiteTex());
-      gl.uniform1i(gl.getUniformLocation(this.dentUpdateProg, "u_deposits"), 1);
+      gl.uniform1i(this.loc(this.dentUpdateProg, "u_deposits"), 1);
 
-      gl.uniform1f(gl.getUniformLocation(this.dentUpdateProg, "u_recoveryRate"), l.dentRecoveryRate);
-      gl.uniform1f(gl.getUniformLocation(this.dentUpdateProg, "u_dt"), dt);
+      gl.uniform1f(this.loc(this.dentUpdateProg, "u_recoveryRate"), l.dentRecoveryRate);
+      gl.uniform1f(this.loc(this.dentUpdateProg, "u_dt"), dt);
 
       gl.drawArrays(gl.TRIANGLES, 0, 6);
       df.pingpong.flip = !df.pingpong.flip;
@@ -1317,6 +2910,123 @@ function hexToRgb(hex: string) {
   return { r: Number.isFinite(r) ? r : 1, g: Number.isFinite(g) ? g : 1, b: Number.isFinite(b) ? b : 1 };
 }
 
+// Assign each mask pixel to the closest region colour within that region's tolerance.
+// Returns RGBA8 pixels with R = region index + 1 (0 = no region).
+function classifyColorRegions(pixels: Uint8ClampedArray, regions: ColorRegionEffect[]): Uint8Array {
+  const targets = regions.map((r) => ({ ...hexToRgb(r.color), tolerance: r.tolerance }));
+  const out = new Uint8Array(pixels.length);
+  for (let i = 0; i < pixels.length; i += 4) {
+    const r = pixels[i] / 255;
+    const g = pixels[i + 1] / 255;
+    const b = pixels[i + 2] / 255;
+    let best = 0;
+    let bestDist = Infinity;
+    targets.forEach((t, k) => {
+      // Normalised RGB distance (0 = identical, 1 = black vs white)
+      const dist = Math.sqrt(((r - t.r) ** 2 + (g - t.g) ** 2 + (b - t.b) ** 2) / 3);
+      if (dist <= t.tolerance && dist < bestDist) {
+        best = k + 1;
+        bestDist = dist;
+      }
+    });
+    out[i] = best;
+    out[i + 3] = 255;
+  }
+  return out;
+}
+
+// Per-region parameter table, one column per region (layout in colorRegionsGLSL)
+function packRegionData(regions: ColorRegionEffect[]): Float32Array {
+  const data = new Float32Array(MAX_COLOR_REGIONS * 3 * 4);
+  const row = (r: number, k: number) => (r * MAX_COLOR_REGIONS + k) * 4;
+  regions.forEach((region, k) => {
+    const motion = row(0, k);
+    if (region.gravityOverride !== undefined) {
+      data[motion] = 1;
+      data[motion + 1] = region.gravityOverride;
+    }
+    if (region.flowDirection !== undefined) {
+      data[motion + 2] = 1;
+      data[motion + 3] = (region.flowDirection * Math.PI) / 180;
+    }
+    const effect = row(1, k);
+    data[effect] = BORDER_EFFECT_MAP[region.borderEffect] ?? 0;
+    data[effect + 1] = region.effectStrength;
+    if (region.particleColorOverride) {
+      const tint = hexToRgb(region.particleColorOverride);
+      const color = row(2, k);
+      data[color] = tint.r;
+      data[color + 1] = tint.g;
+      data[color + 2] = tint.b;
+      data[color + 3] = 1;
+    }
+  });
+  return data;
+}
+
+// Draw sprite frames into a grid of SPRITE_CELL_SIZE cells: uploaded images are
+// fitted and centred, text frames are one white character each. Null if empty.
+async function drawSpriteAtlas(cfg: SpriteConfig) {
+  const images =
+    cfg.source === "images"
+      ? await Promise.all(cfg.images.slice(0, MAX_SPRITE_FRAMES).map((url) => loadImageBitmap(url)))
+      : [];
+  const chars =
+    cfg.source === "text"
+      ? Array.from(cfg.text).filter((c) => c.trim() !== "").slice(0, MAX_SPRITE_FRAMES)
+      : [];
+  const frames = images.length + chars.length;
+  if (frames === 0) return null;
+
+  const cols = Math.ceil(Math.sqrt(frames));
+  const rows = Math.ceil(frames / cols);
+  const canvas = document.createElement("canvas");
+  canvas.width = cols * SPRITE_CELL_SIZE;
+  canvas.height = rows * SPRITE_CELL_SIZE;
+  const ctx = must(canvas.getContext("2d"), "sprite canvas 2d context failed");
+
+  // Leave a small gutter so linear filtering doesn't bleed between cells
+  const pad = 4;
+  const inner = SPRITE_CELL_SIZE - pad * 2;
+  const cellOrigin = (i: number) => [(i % cols) * SPRITE_CELL_SIZE + pad, Math.floor(i / cols) * SPRITE_CELL_SIZE + pad];
+
+  images.forEach((bmp, i) => {
+    const [x, y] = cellOrigin(i);
+    const fit = inner / Math.max(bmp.width, bmp.height);
+    const w = bmp.width * fit;
+    const h = bmp.height * fit;
+    ctx.drawImage(bmp, x + (inner - w) / 2, y + (inner - h) / 2, w, h);
+    bmp.close();
+  });
+
+  ctx.fillStyle = "white";
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.font = `${Math.round(inner * 0.85)}px ${cfg.font || "sans-serif"}`;
+  chars.forEach((c, i) => {
+    const [x, y] = cellOrigin(images.length + i);
+    ctx.fillText(c, x + inner / 2, y + inner / 2, inner);
+  });
+
+  return { canvas, cols, rows, frames };
+}
+
+// Glyph palette as uniform arrays. A single-entry palette only mirrors
+// layer.shape, so it reports count 0 and the shader falls back to u_shape.
+function packGlyphPalette(l: LayerConfig) {
+  const entries = (l.glyphPalette ?? []).filter((e) => e.weight > 0).slice(0, MAX_GLYPHS);
+  const shapes = new Int32Array(MAX_GLYPHS);
+  const weights = new Float32Array(MAX_GLYPHS);
+  if (entries.length < 2) return { count: 0, shapes, weights };
+
+  const total = entries.reduce((sum, e) => sum + e.weight, 0);
+  entries.forEach((e, i) => {
+    shapes[i] = shapeToInt(e.shape);
+    weights[i] = e.weight / total;
+  });
+  return { count: entries.length, shapes, weights };
+}
+
 function shapeToInt(shape: string): number {
   switch (shape) {
     case "dot": return 0;
@@ -1327,13 +3037,153 @@ function shapeToInt(shape: string): number {
     case "diamond": return 5;
     case "ring": return 6;
     case "cross": return 7;
+    case "sprite": return 8;
     default: return 0;
   }
 }
 
+// Cumulative pick weights of a picture downsized to SEED_SAMPLE_SIZE: brightness (or
+// darkness) times alpha per pixel
+function buildPickWeights(source: CanvasImageSource, srcW: number, srcH: number, invert: boolean): PickWeights {
+  const scale = Math.min(1, SEED_SAMPLE_SIZE / Math.max(srcW, srcH));
+  const w = Math.max(1, Math.round(srcW * scale));
+  const h = Math.max(1, Math.round(srcH * scale));
+  const canvas = document.createElement("canvas");
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = must(canvas.getContext("2d", { willReadFrequently: true }), "pick canvas 2d context failed");
+  ctx.drawImage(source, 0, 0, w, h);
+  const pixels = ctx.getImageData(0, 0, w, h).data;
+  const weights = new Float32Array(w * h);
+  let total = 0;
+  for (let i = 0; i < w * h; i++) {
+    const lum = (pixels[i * 4] * 0.299 + pixels[i * 4 + 1] * 0.587 + pixels[i * 4 + 2] * 0.114) / 255;
+    total += (invert ? 1 - lum : lum) * (pixels[i * 4 + 3] / 255);
+    weights[i] = total;
+  }
+  return { weights, w, h, aspect: srcW / Math.max(1, srcH) };
+}
+
+// A picture fitted inside the canvas, centred, margin left on each side: xy = corner, zw = size
+function fitPickRect(aspect: number, canvasAspect: number, margin = 0): Float32Array {
+  const room = 1 - margin * 2;
+  const ca = canvasAspect || 1;
+  const w = (aspect > ca ? 1 : aspect / ca) * room;
+  const h = (aspect > ca ? ca / aspect : 1) * room;
+  return new Float32Array([(1 - w) / 2, (1 - h) / 2, w, h]);
+}
+
+// n positions picked by weight inside rect, as RGBA texels with z = 1 (origin layout).
+// A blank picture falls back to even picks.
+function pickPositions(pick: PickWeights, rect: Float32Array, n: number, random: () => number): Float32Array {
+  const { weights, w, h } = pick;
+  const total = weights[weights.length - 1];
+  const out = new Float32Array(n * 4);
+  for (let i = 0; i < n; i++) {
+    let px = 0;
+    if (total > 0) {
+      // Binary search the running total
+      const target = random() * total;
+      let hi = weights.length - 1;
+      while (px < hi) {
+        const mid = (px + hi) >> 1;
+        if (weights[mid] <= target) px = mid + 1;
+        else hi = mid;
+      }
+    } else {
+      px = Math.floor(random() * weights.length);
+    }
+    // Jittered within the pixel; row 0 is the top of the picture
+    out[i * 4] = rect[0] + (((px % w) + random()) / w) * rect[2];
+    out[i * 4 + 1] = rect[1] + (1 - (Math.floor(px / w) + random()) / h) * rect[3];
+    out[i * 4 + 2] = 1;
+  }
+  return out;
+}
+
+// Settings a morph target's picks depend on
+function morphTargetKey(t: MorphTarget): string {
+  return t.kind === "text"
+    ? `text:${t.fontWeight}:${t.fontFamily}:${t.text}`
+    : `${t.kind}:${t.invert ? 1 : 0}:${t.url ?? ""}`;
+}
+
+// SVGs go through an <img>: createImageBitmap rejects SVG blobs in some browsers
+function loadImageElement(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("image load failed"));
+    img.src = url;
+  });
+}
+
+// 32-bit FNV-1a, as hex
+function hashString(s: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16);
+}
+
+// Seeded PRNG (mulberry32) so image seeding and morph targets replay identically for the same global seed
+function createRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
 type RGB = { r: number; g: number; b: number };
 
-function getSchemeColors(scheme?: string): [RGB, RGB, RGB] {
+// Piecewise-linear curve value at t; flat at the end points, `fallback` when empty
+function sampleCurve(points: CurvePoint[], t: number, fallback: number): number {
+  if (points.length === 0) return fallback;
+  const sorted = [...points].sort((a, b) => a.t - b.t);
+  if (t <= sorted[0].t) return sorted[0].value;
+  for (let i = 1; i < sorted.length; i++) {
+    const a = sorted[i - 1];
+    const b = sorted[i];
+    if (t <= b.t) return a.value + (b.value - a.value) * ((t - a.t) / Math.max(b.t - a.t, 1e-6));
+  }
+  return sorted[sorted.length - 1].value;
+}
+
+// Gradient colour at t, interpolated between the surrounding stops
+function sampleGradient(stops: GradientStop[], t: number): RGB {
+  const sorted = [...stops].sort((a, b) => a.t - b.t);
+  if (t <= sorted[0].t) return hexToRgb(sorted[0].color);
+  for (let i = 1; i < sorted.length; i++) {
+    if (t > sorted[i].t) continue;
+    const a = hexToRgb(sorted[i - 1].color);
+    const b = hexToRgb(sorted[i].color);
+    const f = (t - sorted[i - 1].t) / Math.max(sorted[i].t - sorted[i - 1].t, 1e-6);
+    return { r: a.r + (b.r - a.r) * f, g: a.g + (b.g - a.g) * f, b: a.b + (b.b - a.b) * f };
+  }
+  return hexToRgb(sorted[sorted.length - 1].color);
+}
+
+// Row 0: size, brightness, speed multipliers; row 1: colour, a = 1 when set
+function bakeLifeLUT(curves: LifeCurves): Float32Array {
+  const data = new Float32Array(LIFE_LUT_SIZE * 2 * 4);
+  for (let i = 0; i < LIFE_LUT_SIZE; i++) {
+    const t = i / (LIFE_LUT_SIZE - 1);
+    data.set([sampleCurve(curves.size, t, 1), sampleCurve(curves.brightness, t, 1), sampleCurve(curves.speed, t, 1), 0], i * 4);
+    if (curves.color.length > 0) {
+      const c = sampleGradient(curves.color, t);
+      data.set([c.r, c.g, c.b, 1], (LIFE_LUT_SIZE + i) * 4);
+    }
+  }
+  return data;
+}
+
+function getSchemeColors(scheme?: string): [string, string, string] {
   const schemes: Record<string, [string, string, string]> = {
     warm: ["#ff6b35", "#f7931e", "#ffd23f"],
     cool: ["#3a86ff", "#8338ec", "#06d6a0"],
@@ -1342,6 +3192,26 @@ function getSchemeColors(scheme?: string): [RGB, RGB, RGB] {
     mono: ["#ffffff", "#888888", "#333333"]
   };
   
-  const colors = schemes[scheme || "mono"] || schemes.mono;
-  return colors.map(hexToRgb) as [RGB, RGB, RGB];
+  return schemes[scheme || "mono"] || schemes.mono;
+}
+
+// Gradient a layer's colour mode indexes: scheme colours as hard bands, the range
+// end points, or the layer gradient (rebuilt from the old three colours if missing)
+function layerGradientStops(l: LayerConfig): GradientStop[] {
+  if (l.colorMode === "scheme") {
+    const [a, b, c] = getSchemeColors(l.colorScheme);
+    return [
+      { t: 0, color: a }, { t: 0.33, color: a },
+      { t: 0.33, color: b }, { t: 0.66, color: b },
+      { t: 0.66, color: c }, { t: 1, color: c }
+    ];
+  }
+  if (l.colorMode === "range") {
+    return [
+      { t: 0, color: l.colorRangeStart ?? "#ff0000" },
+      { t: 1, color: l.colorRangeEnd ?? "#0000ff" }
+    ];
+  }
+  const stops = l.colorGradient ?? defaultColorGradient(l.color, l.colorSecondary, l.colorTertiary);
+  return stops.length > 0 ? stops : [{ t: 0, color: l.color }];
 }
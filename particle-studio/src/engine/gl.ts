@@ -65,6 +65,114 @@ export function createFbo(gl: WebGL2RenderingContext, tex: WebGLTexture) {
   return fbo;
 }
 
+// Attach extra render targets (COLOR_ATTACHMENT1..n) to an existing FBO and enable
+// all of them for drawing, so one pass can write several outputs (MRT)
+export function attachColorTextures(gl: WebGL2RenderingContext, fbo: WebGLFramebuffer, textures: WebGLTexture[]) {
+  gl.bindFramebuffer(gl.FRAMEBUFFER, fbo);
+  const buffers: number[] = [gl.COLOR_ATTACHMENT0];
+  textures.forEach((tex, i) => {
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT1 + i, gl.TEXTURE_2D, tex, 0);
+    buffers.push(gl.COLOR_ATTACHMENT1 + i);
+  });
+  gl.drawBuffers(buffers);
+  const status = gl.checkFramebufferStatus(gl.FRAMEBUFFER);
+  gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+  if (status !== gl.FRAMEBUFFER_COMPLETE) {
+    throw new Error("FBO incomplete after attaching render targets: " + status);
+  }
+}
+
+// Resolve every active uniform's location once after linking, so draw loops never
+// look names up. Arrays are stored per element ("u_x[3]") and under the bare name.
+export function getUniformLocations(gl: WebGL2RenderingContext, prog: WebGLProgram) {
+  const locations = new Map<string, WebGLUniformLocation>();
+  const count = gl.getProgramParameter(prog, gl.ACTIVE_UNIFORMS) as number;
+  for (let i = 0; i < count; i++) {
+    const info = gl.getActiveUniform(prog, i);
+    if (!info) continue;
+    const base = info.name.replace(/\[0\]$/, "");
+    for (let j = 0; j < info.size; j++) {
+      const name = info.name.endsWith("[0]") ? `${base}[${j}]` : base;
+      // Uniform block members are listed too but have no location
+      const loc = gl.getUniformLocation(prog, name);
+      if (!loc) continue;
+      locations.set(name, loc);
+      if (j === 0) locations.set(base, loc);
+    }
+  }
+  return locations;
+}
+
+// Byte layout of a std140 uniform block as reported by the linked program, so the
+// CPU side never has to re-derive std140 padding rules
+export type UniformBlockLayout = {
+  size: number;
+  members: Map<string, { offset: number; stride: number }>;
+};
+
+export function getUniformBlockLayout(
+  gl: WebGL2RenderingContext,
+  prog: WebGLProgram,
+  blockName: string,
+  binding: number
+): UniformBlockLayout {
+  const blockIndex = gl.getUniformBlockIndex(prog, blockName);
+  if (blockIndex === gl.INVALID_INDEX) throw new Error(`Uniform block ${blockName} not found`);
+  gl.uniformBlockBinding(prog, blockIndex, binding);
+
+  const size = gl.getActiveUniformBlockParameter(prog, blockIndex, gl.UNIFORM_BLOCK_DATA_SIZE) as number;
+  const indices = Array.from(
+    gl.getActiveUniformBlockParameter(prog, blockIndex, gl.UNIFORM_BLOCK_ACTIVE_UNIFORM_INDICES) as Uint32Array
+  );
+  const offsets = gl.getActiveUniforms(prog, indices, gl.UNIFORM_OFFSET) as number[];
+  const strides = gl.getActiveUniforms(prog, indices, gl.UNIFORM_ARRAY_STRIDE) as number[];
+  const members = new Map<string, { offset: number; stride: number }>();
+  indices.forEach((index, k) => {
+    const info = gl.getActiveUniform(prog, index);
+    if (info) members.set(info.name.replace(/\[0\]$/, ""), { offset: offsets[k], stride: strides[k] });
+  });
+  return { size, members };
+}
+
+// CPU staging for one instance of a uniform block. Members the compiler dropped are
+// ignored, matching how a null uniform location behaves.
+export class UniformBlockData {
+  readonly bytes: ArrayBuffer;
+  private layout: UniformBlockLayout;
+  private f32: Float32Array;
+  private i32: Int32Array;
+
+  constructor(layout: UniformBlockLayout) {
+    this.layout = layout;
+    this.bytes = new ArrayBuffer(layout.size);
+    this.f32 = new Float32Array(this.bytes);
+    this.i32 = new Int32Array(this.bytes);
+  }
+
+  float(name: string, ...values: number[]) {
+    this.write(this.f32, name, 0, values);
+  }
+
+  int(name: string, ...values: number[]) {
+    this.write(this.i32, name, 0, values);
+  }
+
+  floatAt(name: string, index: number, ...values: number[]) {
+    this.write(this.f32, name, index, values);
+  }
+
+  intAt(name: string, index: number, ...values: number[]) {
+    this.write(this.i32, name, index, values);
+  }
+
+  private write(view: Float32Array | Int32Array, name: string, index: number, values: number[]) {
+    const member = this.layout.members.get(name);
+    if (!member) return;
+    const start = (member.offset + index * member.stride) / 4;
+    for (let i = 0; i < values.length; i++) view[start + i] = values[i];
+  }
+}
+
 export function makeQuadVAO(gl: WebGL2RenderingContext) {
   const vao = must(gl.createVertexArray(), "createVertexArray failed");
   gl.bindVertexArray(vao);
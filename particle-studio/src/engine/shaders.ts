@@ -1,3 +1,112 @@
+// Stable per-particle random values keyed on the particle index. Shared by every
+// pass that has to agree on a particle's identity (render size/colour/glyph
+// selection, neighbour binning and cluster filtering in the simulation).
+// x = size/colour seed, y = rotation/scale seed, z = glyph seed, w = brightness seed
+// u_seedPhase is derived from the global seed, so every pass must set the same value.
+const particleSeedsGLSL = `
+uniform float u_seedPhase;
+
+vec4 particleSeeds(int idx){
+  float i = float(idx);
+  return vec4(
+    fract(sin(i * 12.9898 + u_seedPhase) * 43758.5453),
+    fract(sin(i * 78.233 + u_seedPhase * 1.37) * 43758.5453),
+    fract(sin(i * 43.789 + u_seedPhase * 1.91) * 43758.5453),
+    fract(sin(i * 93.9898 + u_seedPhase * 2.53) * 43758.5453)
+  );
+}
+
+// Keys compared by the cluster filters: size, colour (scheme pick), brightness
+vec3 clusterKeys(vec4 seeds){
+  return vec3(seeds.x, fract(seeds.x * 3.14159), seeds.w);
+}
+
+// Further stable per-particle values, one per salt (mass, hue jitter)
+float particleHash(int idx, float salt){
+  return fract(sin(float(idx) * salt + u_seedPhase) * 43758.5453);
+}
+`;
+
+// Mask transform shared by the simulation and render passes
+const maskTransformGLSL = `
+// Mask transform uniforms
+uniform vec2 u_maskPan;      // x, y offset (-1 to 1)
+uniform float u_maskScale;   // scale (0.1 to 3)
+uniform float u_maskRotation;// rotation in radians
+uniform vec2 u_maskSkew;     // skew X, skew Y (in tan of angle)
+
+// Apply the inverse of an image placement to get UV coordinates in image space
+vec2 inverseTransformUV(vec2 uv, vec2 pan, float scale, float rotation, vec2 skew){
+  // Center at 0.5, 0.5
+  vec2 p = uv - 0.5;
+  
+  // Apply inverse skew
+  p = vec2(p.x - p.y * skew.x, p.y - p.x * skew.y);
+  
+  // Apply inverse rotation
+  float c = cos(-rotation), s = sin(-rotation);
+  p = vec2(c*p.x - s*p.y, s*p.x + c*p.y);
+  
+  // Apply inverse scale
+  p /= max(scale, 0.01);
+  
+  // Apply inverse pan
+  p -= pan * 0.5;
+  
+  // Move back to 0-1 range
+  return p + 0.5;
+}
+
+// Apply inverse mask transform to get UV coordinates in mask space
+vec2 transformMaskUV(vec2 uv){
+  return inverseTransformUV(uv, u_maskPan, u_maskScale, u_maskRotation, u_maskSkew);
+}
+`;
+
+// Colour region lookup (colorRegions mask behavior). Requires maskTransformGLSL.
+// u_regionData holds one column per region:
+//   row 0: x = has gravity override, y = gravity, z = has flow direction, w = flow angle (radians)
+//   row 1: x = border effect, y = effect strength
+//   row 2: rgb = particle colour override, a = has colour override
+const colorRegionsGLSL = `
+uniform sampler2D u_regionTex;   // R = region index + 1 per mask pixel (0 = no region)
+uniform sampler2D u_regionData;  // per-region parameters (see above)
+uniform float u_hasRegions;      // 0 or 1
+
+int regionAt(vec2 pos){
+  if(u_hasRegions < 0.5) return -1;
+  vec2 t = transformMaskUV(clamp(pos, 0.0, 1.0));
+  if(t.x < 0.0 || t.x > 1.0 || t.y < 0.0 || t.y > 1.0) return -1;
+  float r = texture(u_regionTex, vec2(t.x, 1.0 - t.y)).r;
+  return int(floor(r * 255.0 + 0.5)) - 1;
+}
+
+vec4 regionParams(int region, int row){
+  return texelFetch(u_regionData, ivec2(region, row), 0);
+}
+`;
+
+// Sub-emitter events, written by simFS (one texel per particle per step) and read
+// by subEmitVS. Position and velocity fill the texel, so the event type rides on
+// y in steps of EVENT_STRIDE; positions are clamped well inside one step.
+// Types: 0 none, 1 mask collision, 2 attractor despawn, 3 decay, 4 boundary destroy
+const subEmitEventGLSL = `
+const float EVENT_STRIDE = 16.0;
+
+vec4 encodeEvent(int type, vec2 pos, vec2 vel){
+  vec2 p = clamp(pos, -4.0, 4.0);
+  return vec4(p.x, p.y + float(type) * EVENT_STRIDE, vel);
+}
+
+int eventType(vec4 e){
+  return int(floor(e.y / EVENT_STRIDE + 0.5));
+}
+
+vec2 eventPos(vec4 e){
+  return vec2(e.x, e.y - float(eventType(e)) * EVENT_STRIDE);
+}
+`;
+
 export const simVS = `#version 300 es
 layout(location=0) in vec2 a_pos;
 out vec2 v_uv;
@@ -11,10 +120,16 @@ export const simFS = `#version 300 es
 precision highp float;
 
 in vec2 v_uv;
-out vec4 o_pos; // RG = pos, BA = vel
+layout(location=0) out vec4 o_pos;  // RG = pos, BA = vel
+layout(location=1) out vec4 o_meta; // X = cluster bond, Y = colour transform, Z = smear, W = fragment level
+layout(location=2) out vec4 o_life; // X = boundary hits, Y = state (0 alive, 1 destroyed, 2 stuck),
+                                    // Z = age (seconds), W = age / lifetime (0 without a lifetime)
+layout(location=3) out vec4 o_event; // sub-emitter event this step (see subEmitEventGLSL)
 // pos/vel stored in one RGBA32F for simplicity
 
 uniform sampler2D u_state;
+uniform sampler2D u_meta; // per-particle auxiliary state (same layout as o_meta)
+uniform sampler2D u_life; // per-particle lifecycle state (same layout as o_life)
 uniform sampler2D u_mask; // optional, if not bound -> 1x1 white
 uniform sampler2D u_eraseMask; // erase overlay texture
 uniform float u_hasEraseMask;
@@ -24,102 +139,185 @@ uniform vec2 u_stateSize;
 uniform float u_dt;
 uniform float u_time;
 
-uniform int u_type; // 0 sand,1 dust,2 sparks,3 ink
-
+// Audio-modulated parameters change every frame, so they stay plain uniforms
 uniform float u_gravity;
-uniform float u_drag;
 uniform float u_jitter;
 uniform float u_curl;
-uniform float u_attract;
-uniform float u_attractFalloff;
-uniform vec2  u_attractPoint;
-
-// Multiple attraction points system
-#define MAX_ATTRACTION_POINTS 8
-#define TWO_PI 6.28318530718
-uniform int u_attractionPointCount;
-uniform vec2 u_attractionPositions[MAX_ATTRACTION_POINTS];
-uniform float u_attractionStrengths[MAX_ATTRACTION_POINTS];
-uniform float u_attractionFalloffs[MAX_ATTRACTION_POINTS];
-uniform int u_attractionTypes[MAX_ATTRACTION_POINTS]; // 0=direct, 1=spiral, 2=blackhole, 3=pulsing, 4=magnetic
-uniform int u_attractionEffects[MAX_ATTRACTION_POINTS]; // 0=none, 1=despawn, 2=orbit, 3=concentrate, 4=transform, 5=passToNext
-uniform float u_attractionPulseFreqs[MAX_ATTRACTION_POINTS];
-uniform int u_attractionEnabled[MAX_ATTRACTION_POINTS];
-
-uniform float u_windAngle; // radians
 uniform float u_windStrength;
-
 uniform float u_spawnRate;
-uniform float u_maskThreshold;
-uniform float u_maskInvert;
-uniform int u_boundaryMode; // 0 respawn, 1 bounce, 2 wrap
-uniform float u_boundaryBounce; // 0..1
 uniform float u_speed; // velocity scale
-uniform float u_spawnSpeed; // initial velocity scale
 
-// Mask transform uniforms
-uniform vec2 u_maskPan;      // x, y offset (-1 to 1)
-uniform float u_maskScale;   // scale (0.1 to 3)
-uniform float u_maskRotation;// rotation in radians
-uniform vec2 u_maskSkew;     // skew X, skew Y (in tan of angle)
+// Mask state depends on whether the mask has finished loading
+uniform float u_maskThreshold;
+uniform float u_maskInvert;
 
-// Mask mode and physics uniforms
-uniform int u_maskMode;      // 0=ignore, 1=visibility, 2=collision, 3=accumulate
-uniform float u_stickiness;  // 0-1, how much particles stick on collision
-uniform float u_magnetism;   // -1 to 1, attract/repel near mask edges
-uniform float u_magnetismRadius; // 0-1, distance of magnetic effect
+// Multiple attraction points system
+#define MAX_ATTRACTION_POINTS 8
+#define TWO_PI 6.28318530718
 
-// Lifecycle uniforms
-uniform float u_accumulationRate;  // 0-1, how quickly particles slow down on contact
-uniform float u_accumulationTime;  // seconds before decay starts
-uniform float u_decayRate;         // 0-1, how quickly particles fade after accumulation
+// Per-layer parameters that only change when the layer config does.
+// Uploaded once per change (see uploadLayerParams in ParticleEngine).
+layout(std140) uniform LayerParams {
+  int u_type; // 0 sand,1 dust,2 sparks,3 ink
+
+  float u_drag;
+  float u_attract;
+  float u_attractFalloff;
+  vec2  u_attractPoint;
+
+  int u_attractionPointCount;
+  vec2 u_attractionPositions[MAX_ATTRACTION_POINTS];
+  float u_attractionStrengths[MAX_ATTRACTION_POINTS];
+  float u_attractionFalloffs[MAX_ATTRACTION_POINTS];
+  int u_attractionTypes[MAX_ATTRACTION_POINTS]; // 0=direct, 1=spiral, 2=blackhole, 3=pulsing, 4=magnetic
+  int u_attractionEffects[MAX_ATTRACTION_POINTS]; // 0=none, 1=despawn, 2=orbit, 3=concentrate, 4=transform, 5=passToNext
+  float u_attractionPulseFreqs[MAX_ATTRACTION_POINTS];
+  int u_attractionEnabled[MAX_ATTRACTION_POINTS];
+
+  float u_windAngle; // radians
+
+  float u_massJitter; // 0-1, per-particle mass variation
+  int u_boundaryMode; // 0 respawn, 1 bounce, 2 wrap, 3 stick, 4 destroy, 5 slowBounce
+  float u_boundaryBounce; // 0..1
+  float u_spawnSpeed; // initial velocity scale
+
+  // Mask mode and physics
+  int u_maskMode;      // 0=ignore, 1=visibility, 2=collision, 3=accumulate
+  float u_stickiness;  // 0-1, how much particles stick on collision
+  float u_magnetism;   // -1 to 1, attract/repel near mask edges
+  float u_magnetismRadius; // 0-1, distance of magnetic effect
+
+  // Mask behavior system
+  int u_maskBehavior;        // 0=containment, 1=borderEffect, 2=colorRegions, 3=pathing
+  int u_borderEffect;        // 0=deflect, 1=smear, 2=absorb, 3=repel, 4=transform, 5=fragment, 6=passThrough
+  float u_borderStrength;    // 0-1
+  float u_fragmentCount;     // Fragment directions per impact
+  float u_smearLength;       // Smear trail length (0-1)
+  float u_borderVelocityScale; // Velocity multiplier after an effect (0-2)
+
+  // Lifecycle
+  float u_accumulationRate;  // 0-1, how quickly particles slow down on contact
+  float u_accumulationTime;  // seconds before decay starts
+  float u_decayRate;         // 0-1, how quickly particles fade after accumulation
+  float u_lifetime;          // seconds, 0 = unlimited
+  float u_lifetimeJitter;    // 0-1
+
+  // Spring toward a home position: the current morph target, else the image seed
+  // origin when reforming (0 = no home)
+  float u_homeStrength;      // 0-1 spring stiffness
+  float u_homeDamping;       // 0-1
+
+  // Material system
+  float u_depthScale;        // Height multiplier
+  int u_materialMode;        // 0=binary, 1=palette, 2=rgbParams
+  // Material response for palette mode (up to 4 presets)
+  vec4 u_matDeflectStick;    // x,y,z,w = deflect for materials 0,1,2,3
+  vec4 u_matPassFragment;    // x,y,z,w = passThrough for materials 0,1,2,3
+  vec4 u_matDepositSmear;    // x,y,z,w = depositSmear for materials 0,1,2,3
+  vec4 u_matDepositRipple;   // x,y,z,w = depositRipple for materials 0,1,2,3
+  vec4 u_matColors[4];       // Palette colors for material ID lookup
+
+  // Ground plane
+  float u_groundPlaneEnabled;
+  float u_groundY;           // Y position (0-1)
+  float u_groundTilt;        // Tilt angle in radians
+
+  // Spawn region
+  int u_spawnRegion;         // 0=random, 1=topEdge, 2=bottomEdge, 3=leftEdge, 4=rightEdge, 
+                             // 5=offCanvasTop, 6=offCanvasBottom, 7=offCanvasLeft, 8=offCanvasRight,
+                             // 9=center, 10=centerBurst, 11=mask, 12=maskEdge, 13=custom
+  float u_spawnEdgeOffset;   // How far off-canvas to spawn (0-0.5)
+  float u_spawnEdgeSpread;   // Spread along edge (0-1)
+  vec2 u_spawnCenterPoint;   // Center point for center/orbit spawns
+  float u_spawnBurstSpeed;   // Initial outward velocity for burst
+
+  // Movement pattern
+  int u_movementPattern;     // 0=still, 1=linear, 2=spiral, 3=orbit, 4=radialOut, 5=radialIn,
+                             // 6=wave, 7=figure8, 8=brownian, 9=followCurl, 10=vortex,
+                             // 11=evade, 12=clusters
+  float u_patternDirection;  // Direction for linear (radians)
+  float u_patternSpeed;      // Base intrinsic speed
+  vec2 u_patternCenter;      // Center for orbital/radial patterns
+  float u_spiralTightness;   // How quickly spiral tightens
+  float u_orbitRadius;       // Base orbit radius
+  float u_orbitEccentricity; // Orbit shape (0=circle, 1=ellipse)
+  float u_waveAmplitude;     // Wave height
+  float u_waveFrequency;     // Wave cycles
+  float u_waveDirection;     // Direction wave travels (radians)
+  float u_vortexStrength;    // Rotational pull
+  float u_vortexInward;      // Inward pull
+
+  // Neighbour interactions (evade / clusters)
+  int u_binReach;            // Cells sampled in each direction
+  float u_neighbourRadius;   // Interaction radius (normalized)
+  float u_evadeStrength;     // Flee strength
+  float u_clusterStrength;   // Bond strength
+  float u_clusterBreak;      // Stress needed to break a bond (0-1)
+  vec3 u_clusterFilters;     // size, colour, brightness (1 = only bond with similar particles)
+
+  // Liquid (SPH), smoothing radius = u_neighbourRadius
+  float u_liquidRestDensity;    // Target kernel-weighted neighbour count
+  float u_liquidViscosity;      // 0-1, velocity sharing between neighbours
+  float u_liquidStiffness;      // Pressure response to compression
+  float u_liquidSurfaceTension; // Pull of thin regions back into the body
+
+  // Granular sand, occupancy grid = bin grid
+  float u_granular;             // 0 or 1
+  float u_granularCapacity;     // Grains a cell holds before it counts as full
+  int u_granularReposeDepth;    // Free cells needed below a side cell to slide into it
+  float u_granularSpread;       // Chance to slide sideways onto a level cell (shallow repose angles)
+};
 
-// ============ MATERIAL SYSTEM UNIFORMS ============
+// ============ MATERIAL SYSTEM TEXTURES ============
 uniform sampler2D u_depthTex;      // Depth/height field (R16F)
 uniform float u_hasDepthTex;       // 0 or 1
-uniform float u_depthScale;        // Height multiplier
-
-uniform int u_materialMode;        // 0=binary, 1=palette, 2=rgbParams
-uniform sampler2D u_materialTex;   // Material map (RGBA8) - same as mask for palette/rgb modes
-
-// Material response for palette mode (up to 4 presets)
-uniform vec4 u_matDeflectStick;    // x,y,z,w = deflect for materials 0,1,2,3
-uniform vec4 u_matPassFragment;    // x,y,z,w = passThrough for materials 0,1,2,3
-uniform vec4 u_matDepositSmear;    // x,y,z,w = depositSmear for materials 0,1,2,3
-uniform vec4 u_matDepositRipple;   // x,y,z,w = depositRipple for materials 0,1,2,3
-uniform vec4 u_matColors[4];       // Palette colors for material ID lookup
-
-// Ground plane uniforms
-uniform float u_groundPlaneEnabled;
-uniform float u_groundY;           // Y position (0-1)
-uniform float u_groundTilt;        // Tilt angle in radians
 uniform mat3 u_groundUVMatrix;     // Perspective warp for ripples
 
-// ============ SPAWN REGION UNIFORMS ============
-uniform int u_spawnRegion;         // 0=random, 1=topEdge, 2=bottomEdge, 3=leftEdge, 4=rightEdge, 
-                                   // 5=offCanvasTop, 6=offCanvasBottom, 7=offCanvasLeft, 8=offCanvasRight,
-                                   // 9=center, 10=centerBurst, 11=mask, 12=maskEdge, 13=custom
-uniform float u_spawnEdgeOffset;   // How far off-canvas to spawn (0-0.5)
-uniform float u_spawnEdgeSpread;   // Spread along edge (0-1)
-uniform vec2 u_spawnCenterPoint;   // Center point for center/orbit spawns
-uniform float u_spawnBurstSpeed;   // Initial outward velocity for burst
+// ============ SPAWN MASK ============
 uniform sampler2D u_spawnMask;     // Custom spawn region mask
 uniform float u_hasSpawnMask;      // 0 or 1
 
-// ============ MOVEMENT PATTERN UNIFORMS ============
-uniform int u_movementPattern;     // 0=still, 1=linear, 2=spiral, 3=orbit, 4=radialOut, 5=radialIn,
-                                   // 6=wave, 7=figure8, 8=brownian, 9=followCurl, 10=vortex
-uniform float u_patternDirection;  // Direction for linear (radians)
-uniform float u_patternSpeed;      // Base intrinsic speed
-uniform vec2 u_patternCenter;      // Center for orbital/radial patterns
-uniform float u_spiralTightness;   // How quickly spiral tightens
-uniform float u_orbitRadius;       // Base orbit radius
-uniform float u_orbitEccentricity; // Orbit shape (0=circle, 1=ellipse)
-uniform float u_waveAmplitude;     // Wave height
-uniform float u_waveFrequency;     // Wave cycles
-uniform float u_waveDirection;     // Direction wave travels (radians)
-uniform float u_vortexStrength;    // Rotational pull
-uniform float u_vortexInward;      // Inward pull
+// ============ NEIGHBOUR BINS (evade / clusters) ============
+// Particles are scattered into a coarse grid each frame (see binFS):
+// u_bins   RG = summed in-cell offset, B = count, A = summed size key
+// u_binVel RG = summed velocity, B = summed colour key, A = summed brightness key
+uniform sampler2D u_bins;
+uniform sampler2D u_binVel;
+uniform float u_hasBins;           // 0 or 1
+uniform float u_binGrid;           // Cells per side
+
+// ============ INTER-LAYER INTERACTIONS ============
+// Up to four other layers rasterised this frame, one per channel (see densityFS).
+// Strengths depend on which source layers are alive, so they are set per frame.
+uniform sampler2D u_interactionTex;
+uniform vec4 u_interactionStrength; // > 0 attract, < 0 repel, 0 = unused channel
+uniform vec4 u_interactionRadius;   // normalized reach per channel
+
+// ============ OVER-LIFE CURVES ============
+// 64 x 2 lookup: row 0 = size, brightness, speed multipliers; row 1 = colour, a = used.
+// Only bound with a lifetime; the simulation reads the speed curve.
+uniform sampler2D u_lifeLUT;
+uniform float u_hasLifeLUT;        // 0 or 1
+
+// ============ HOME POSITIONS ============
+// xy = where the particle is pulled back to, z = 1 once written: the current morph
+// target, or the image seed origins (see originFS). Only read with u_homeStrength > 0.
+uniform sampler2D u_home;
+uniform float u_hasHome;           // 0 or 1
+
+// ============ SUB-EMITTERS ============
+// Events from other layers (or this one) queued for this layer: one row per
+// incoming sub-emitter, one event per slot, x < -50 = empty slot (see subEmitVS).
+// Each step claims a rotating block of particles, count per event, to respawn at
+// the queued events.
+uniform sampler2D u_spawnQueue;
+uniform int u_spawnQueueRows;      // incoming sub-emitters (0 = none)
+uniform float u_spawnQueueSize;    // slots per row
+uniform int u_spawnQueueBase;      // first particle of this step's claim
+uniform int u_particleCount;
+uniform vec4 u_spawnCount;         // particles per event, per row
+uniform vec4 u_spawnInherit;       // 0-1 share of the event velocity, per row
+uniform vec4 u_spawnSpread;        // random burst speed, per row
 
 // Surface field deposit output (written to separate texture)
 // Note: In WebGL2 we can't write to multiple targets easily in simulation,
@@ -187,7 +385,8 @@ MaterialResponse getMaterialResponse(vec2 pos) {
     return r;
   }
   
-  vec4 matSample = texture(u_materialTex, pos);
+  // The material map is the layer mask itself (palette/rgb modes)
+  vec4 matSample = texture(u_mask, pos);
   
   if(u_materialMode == 1) {
     // Palette mode - quantize to nearest preset
@@ -311,13 +510,15 @@ TypeProps getTypeProps(int t){
   return p;
 }
 
+uniform uint u_seed; // global seed, mixed into every rand() call
+
 uint hash1(uvec2 p){
   p = 1103515245U*((p>>1U) ^ (p.yx));
   uint h = 1103515245U*((p.x) ^ (p.y>>3U));
   return h;
 }
 float rand(in vec2 x){
-  uvec2 p = uvec2(floatBitsToUint(x.x), floatBitsToUint(x.y));
+  uvec2 p = uvec2(floatBitsToUint(x.x), floatBitsToUint(x.y)) ^ uvec2(u_seed, u_seed * 2654435761U);
   // Map to range [0.001, 0.999] to avoid pure black/white values
   // This prevents noise artifacts at mask thresholds
   float raw = float(hash1(p)) / 4294967295.0;
@@ -389,27 +590,8 @@ vec2 flow(vec2 p, float t){
   return curl;
 }
 
-// Apply inverse mask transform to get UV coordinates in mask space
-vec2 transformMaskUV(vec2 uv){
-  // Center at 0.5, 0.5
-  vec2 p = uv - 0.5;
-  
-  // Apply inverse skew
-  p = vec2(p.x - p.y * u_maskSkew.x, p.y - p.x * u_maskSkew.y);
-  
-  // Apply inverse rotation
-  float c = cos(-u_maskRotation), s = sin(-u_maskRotation);
-  p = vec2(c*p.x - s*p.y, s*p.x + c*p.y);
-  
-  // Apply inverse scale
-  p /= max(u_maskScale, 0.01);
-  
-  // Apply inverse pan
-  p -= u_maskPan * 0.5;
-  
-  // Move back to 0-1 range
-  return p + 0.5;
-}
+${maskTransformGLSL}
+${colorRegionsGLSL}
 
 float maskSampleRaw(vec2 uv){
   // Apply mask transform
@@ -488,6 +670,13 @@ ImpactMetrics calculateImpact(vec2 pos, vec2 vel, float mass) {
   return im;
 }
 
+// Raw mask colour (no invert/threshold) for colour region boundaries
+vec3 maskColorSample(vec2 uv){
+  vec2 t = transformMaskUV(clamp(uv, 0.0, 1.0));
+  if(t.x < 0.0 || t.x > 1.0 || t.y < 0.0 || t.y > 1.0) return vec3(1.0);
+  return texture(u_mask, vec2(t.x, 1.0 - t.y)).rgb;
+}
+
 // Spawn position based on region type
 vec2 pickSpawnByRegion(vec2 seed, int region) {
   float spread = u_spawnEdgeSpread;
@@ -539,36 +728,57 @@ vec2 pickSpawnByRegion(vec2 seed, int region) {
   }
   else if(region == 11) {
     // Mask - spawn only where mask is valid (search for valid spot)
-    vec2 uv = fract(seed);
-    for(int i = 0; i < 24; i++) {
+    // Falls back to the most inside sample if no valid spot was hit
+    vec2 best = fract(seed);
+    float bestVal = -1.0;
+    for(int i = 0; i < 32; i++) {
+      vec2 uv = vec2(rand(seed + float(i) * 0.173), rand(seed.yx + float(i) * 0.291));
       float v = maskSample(uv);
       if(isInsideMask(v, uv)) return uv;
-      uv = fract(uv * 1.37 + vec2(0.123, 0.456) + float(i) * 0.071);
+      if(v > bestVal) { bestVal = v; best = uv; }
     }
-    return uv;
+    return best;
   }
   else if(region == 12) {
-    // Mask edge - spawn along mask boundary
-    vec2 uv = fract(seed);
-    for(int i = 0; i < 24; i++) {
-      float v = maskSample(uv);
-      vec2 grad = maskGradient(uv);
-      float gradLen = length(grad);
-      // Look for edge: near threshold with gradient
-      if(abs(v - u_maskThreshold) < 0.1 && gradLen > 0.01) return uv;
-      uv = fract(uv * 1.37 + vec2(0.123, 0.456) + float(i) * 0.071);
+    // Mask edge - march along random lines until the inside/outside state flips,
+    // then bisect onto the threshold iso-line. Binary masks have almost no
+    // near-threshold pixels, so point sampling rarely finds the edge.
+    for(int attempt = 0; attempt < 4; attempt++) {
+      float fa = float(attempt);
+      vec2 a = vec2(rand(seed + fa * 0.371), rand(seed.yx + fa * 0.529));
+      float angle = rand(seed * 1.7 + fa) * 6.28318;
+      vec2 stepDir = vec2(cos(angle), sin(angle)) * 0.04;
+      bool aIn = isInsideMask(maskSample(a), a);
+      for(int i = 0; i < 24; i++) {
+        vec2 b = a + stepDir;
+        if(b.x < 0.0 || b.x > 1.0 || b.y < 0.0 || b.y > 1.0) { stepDir = -stepDir; b = a + stepDir; }
+        bool bIn = isInsideMask(maskSample(b), b);
+        if(bIn != aIn) {
+          vec2 lo = a, hi = b;
+          for(int k = 0; k < 6; k++) {
+            vec2 mid = (lo + hi) * 0.5;
+            if(isInsideMask(maskSample(mid), mid) == aIn) lo = mid; else hi = mid;
+          }
+          return (lo + hi) * 0.5;
+        }
+        a = b;
+      }
     }
-    return uv;
+    return fract(seed);
   }
   else if(region == 13) {
-    // Custom spawn mask
+    // Custom spawn mask: rejection sampling weighted by painted alpha
     if(u_hasSpawnMask > 0.5) {
-      vec2 uv = fract(seed);
-      for(int i = 0; i < 24; i++) {
-        float spawnVal = texture(u_spawnMask, uv).r;
-        if(spawnVal > 0.5) return uv;
-        uv = fract(uv * 1.37 + vec2(0.123, 0.456) + float(i) * 0.071);
+      vec2 best = fract(seed);
+      float bestVal = 0.0;
+      for(int i = 0; i < 32; i++) {
+        vec2 uv = vec2(rand(seed + float(i) * 0.173), rand(seed.yx + float(i) * 0.291));
+        // Painted image: Y=0 is top
+        float weight = texture(u_spawnMask, vec2(uv.x, 1.0 - uv.y)).a;
+        if(weight > 0.0 && rand(uv + seed) < weight) return uv;
+        if(weight > bestVal) { bestVal = weight; best = uv; }
       }
+      return best;
     }
     return fract(seed);
   }
@@ -631,6 +841,49 @@ vec2 reflect2D(vec2 v, vec2 n){
   return v - 2.0 * dot(v, n) * n;
 }
 
+// Apply a border effect to a particle that just crossed a boundary.
+// n is the boundary normal pointing back to the side the particle came from.
+void applyBorderEffect(int effect, float strength, inout vec2 pos, inout vec2 vel, inout vec4 meta, vec2 prevPos, vec2 n, vec2 rnd){
+  if(effect == 0){
+    // Deflect: bounce back, strength = how much of the reflection is kept
+    vel = mix(vel, reflect2D(vel, n), strength);
+    if(dot(vel, n) > 0.0) pos = prevPos;
+  } else if(effect == 1){
+    // Smear: slide along the boundary and leave an elongated trail
+    vec2 tangent = vec2(-n.y, n.x);
+    if(dot(tangent, vel) < 0.0) tangent = -tangent;
+    vel = mix(vel, tangent * length(vel), strength);
+    meta.z = max(meta.z, u_smearLength * (0.5 + strength));
+  } else if(effect == 2){
+    // Absorb: lose energy and stay on the boundary
+    vel *= 1.0 - strength;
+    if(length(vel) < 0.002) vel = vec2(0.0);
+    pos = prevPos;
+  } else if(effect == 3){
+    // Repel: pushed back out (the near-edge push is applied before crossing)
+    vel = reflect2D(vel, n) * (1.0 - strength * 0.5) + n * strength * 0.05;
+    pos = prevPos;
+  } else if(effect == 4){
+    // Transform: take on the transform colour
+    meta.y = min(1.0, meta.y + strength);
+  } else if(effect == 5){
+    // Fragment: shrink and scatter along one of fragmentCount directions
+    if(meta.w < 3.0 && rnd.x < max(strength, 0.05)){
+      meta.w += 1.0;
+      float count = max(u_fragmentCount, 1.0);
+      float k = floor(rnd.y * count);
+      float base = atan(n.y, n.x);
+      float angle = base + (k + 0.5) / count * 3.14159 - 1.5708;
+      vel = vec2(cos(angle), sin(angle)) * length(vel) * (0.6 + 0.4 * strength);
+      pos = prevPos;
+    }
+  } else {
+    // Pass through: strength = resistance of the boundary
+    vel *= 1.0 - strength * 0.5;
+  }
+  vel *= u_borderVelocityScale;
+}
+
 // ============ MOVEMENT PATTERN SYSTEM ============
 // Calculate intrinsic movement based on pattern type
 vec2 patternMovement(vec2 pos, float seed, float time) {
@@ -807,17 +1060,348 @@ vec2 calculateMultiPointAttraction(vec2 pos, TypeProps tp, float time) {
   
   return totalForce;
 }
+${particleSeedsGLSL}
+// ============ NEIGHBOUR SAMPLING (evade / clusters) ============
+struct Neighbours {
+  vec2 repel;        // Push away from nearby particles (falloff weighted)
+  vec2 center;       // Mean position of nearby particles
+  vec2 meanVel;      // Mean velocity of nearby particles
+  float count;       // Number of nearby particles
+  float similarity;  // 0-1, how closely nearby particles match our cluster keys
+};
+
+// Gather nearby particles from the bin grid, excluding this particle's own
+// contribution (binned from the same state texel at the start of the frame)
+Neighbours gatherNeighbours(vec2 pos, vec2 vel, vec3 keys){
+  Neighbours nb;
+  nb.repel = vec2(0.0);
+  nb.center = pos;
+  nb.meanVel = vel;
+  nb.count = 0.0;
+  nb.similarity = 0.0;
+  if(u_hasBins < 0.5 || any(lessThan(pos, vec2(0.0))) || any(greaterThanEqual(pos, vec2(1.0)))) return nb;
+
+  int grid = int(u_binGrid);
+  ivec2 myCell = ivec2(floor(pos * u_binGrid));
+  vec2 myOffset = pos * u_binGrid - vec2(myCell) - 0.5;
+  vec2 centroidSum = vec2(0.0);
+  vec2 velSum = vec2(0.0);
+  float simSum = 0.0;
+
+  for(int oy = -3; oy <= 3; oy++){
+    if(abs(oy) > u_binReach) continue;
+    for(int ox = -3; ox <= 3; ox++){
+      if(abs(ox) > u_binReach) continue;
+      ivec2 cell = myCell + ivec2(ox, oy);
+      if(cell.x < 0 || cell.y < 0 || cell.x >= grid || cell.y >= grid) continue;
+
+      vec4 b = texelFetch(u_bins, cell, 0);
+      vec4 bv = texelFetch(u_binVel, cell, 0);
+      if(cell == myCell){
+        b -= vec4(myOffset, 1.0, keys.x);
+        bv -= vec4(vel, keys.y, keys.z);
+      }
+      float n = b.z;
+      if(n < 0.5) continue;
+
+      vec2 cellCentroid = (vec2(cell) + 0.5 + b.xy / n) / u_binGrid;
+      vec2 d = pos - cellCentroid;
+      float dist = length(d);
+      if(dist > u_neighbourRadius) continue;
+
+      float w = 1.0 - dist / u_neighbourRadius;
+      if(dist > 0.00001) nb.repel += (d / dist) * w * n;
+
+      // Filters: compare this particle's keys to the cell's mean keys
+      vec3 diff = abs(vec3(b.w, bv.z, bv.w) / n - keys) * u_clusterFilters;
+      float match = 1.0 - smoothstep(0.05, 0.25, max(diff.x, max(diff.y, diff.z)));
+
+      centroidSum += cellCentroid * n;
+      velSum += bv.xy;
+      simSum += match * n;
+      nb.count += n;
+    }
+  }
+
+  if(nb.count > 0.5){
+    nb.center = centroidSum / nb.count;
+    nb.meanVel = velSum / nb.count;
+    nb.similarity = simSum / nb.count;
+  }
+  return nb;
+}
+
+// ============ LIQUID (SPH) ============
+// Double density relaxation (Clavet et al. 2005) over the bin grid: each cell acts
+// as n particles at its centroid. Density and near-density drive a pressure push
+// away from crowded neighbours (and a pull toward them when under-dense),
+// viscosity relaxes velocity toward the local mean, and surface tension pulls
+// thin regions, i.e. the free surface, back into the body.
+vec2 applyLiquid(vec2 pos, vec2 vel){
+  if(u_hasBins < 0.5 || any(lessThan(pos, vec2(0.0))) || any(greaterThanEqual(pos, vec2(1.0)))) return vel;
+
+  float h = u_neighbourRadius;
+  int grid = int(u_binGrid);
+  ivec2 myCell = ivec2(floor(pos * u_binGrid));
+  vec2 myOffset = pos * u_binGrid - vec2(myCell) - 0.5;
+
+  float density = 0.0;
+  float nearDensity = 0.0;
+  vec2 push = vec2(0.0);      // sum of n * (1-q)   * direction away from neighbours
+  vec2 nearPush = vec2(0.0);  // sum of n * (1-q)^2 * direction away from neighbours
+  vec2 velSum = vec2(0.0);
+  vec2 centroidSum = vec2(0.0);
+  float weight = 0.0;
+
+  for(int oy = -3; oy <= 3; oy++){
+    if(abs(oy) > u_binReach) continue;
+    for(int ox = -3; ox <= 3; ox++){
+      if(abs(ox) > u_binReach) continue;
+      ivec2 cell = myCell + ivec2(ox, oy);
+      if(cell.x < 0 || cell.y < 0 || cell.x >= grid || cell.y >= grid) continue;
+
+      vec4 b = texelFetch(u_bins, cell, 0);
+      vec4 bv = texelFetch(u_binVel, cell, 0);
+      if(cell == myCell){
+        b.xyz -= vec3(myOffset, 1.0);
+        bv.xy -= vel;
+      }
+      float n = b.z;
+      if(n < 0.5) continue;
+
+      vec2 cellCentroid = (vec2(cell) + 0.5 + b.xy / n) / u_binGrid;
+      vec2 d = pos - cellCentroid;
+      float r = length(d);
+      float q = r / h;
+      if(q >= 1.0) continue;
+
+      float a = 1.0 - q;
+      vec2 dir = r > 0.00001 ? d / r : vec2(0.0);
+      density += n * a * a;
+      nearDensity += n * a * a * a;
+      push += dir * n * a;
+      nearPush += dir * n * a * a;
+      velSum += bv.xy * a;
+      centroidSum += cellCentroid * n * a;
+      weight += n * a;
+    }
+  }
+  if(weight < 0.001) return vel;
+
+  // Pressure: relative compression, plus a near-pressure term that keeps
+  // particles from clumping onto the same spot
+  float pressure = (density - u_liquidRestDensity) / u_liquidRestDensity;
+  float nearPressure = 0.5 * nearDensity / u_liquidRestDensity;
+  vec2 accel = (push * pressure + nearPush * nearPressure) / max(weight, 1.0) * u_liquidStiffness;
+
+  // Surface tension: under-dense particles sit on the surface; pull them inward
+  float surface = clamp(1.0 - density / u_liquidRestDensity, 0.0, 1.0);
+  vec2 massCenter = centroidSum / weight;
+  accel += (massCenter - pos) / h * surface * u_liquidSurfaceTension * 0.5;
+
+  vel += accel * u_dt;
+
+  // Viscosity (XSPH-style): blend toward the kernel-weighted neighbour velocity
+  vec2 meanVel = velSum / weight;
+  return mix(vel, meanVel, clamp(u_liquidViscosity * 8.0 * u_dt, 0.0, 1.0));
+}
+
+// ============ INTER-LAYER INTERACTIONS ============
+// Pull toward (or push away from) other layers' particles. Each channel's density
+// is sampled on two rings around the particle; the weighted sum of sample
+// directions points toward where that layer's particles are.
+vec2 interactionForce(vec2 pos){
+  vec2 force = vec2(0.0);
+  for(int i = 0; i < 4; i++){
+    float strength = u_interactionStrength[i];
+    if(strength == 0.0) continue;
+    float radius = u_interactionRadius[i];
+
+    vec2 toward = vec2(0.0);
+    float total = 0.0;
+    for(int k = 0; k < 8; k++){
+      float a = float(k) * 0.785398;
+      vec2 dir = vec2(cos(a), sin(a));
+      for(int ring = 1; ring <= 2; ring++){
+        vec2 p = pos + dir * radius * float(ring) * 0.5;
+        if(any(lessThan(p, vec2(0.0))) || any(greaterThan(p, vec2(1.0)))) continue;
+        // Inner ring counts double so nearby particles dominate
+        float n = texture(u_interactionTex, p)[i] * (ring == 1 ? 1.0 : 0.5);
+        toward += dir * n;
+        total += n;
+      }
+    }
+    // Direction is normalised by the crowd, magnitude fades in for sparse sources
+    force += toward / max(total, 1.0) * strength;
+  }
+  return force;
+}
+
+// ============ SUB-EMITTERS ============
+${subEmitEventGLSL}
+// Attraction points with the despawn effect swallow particles that reach them
+bool reachedDespawnPoint(vec2 pos){
+  for(int i = 0; i < u_attractionPointCount; i++){
+    if(u_attractionEnabled[i] == 0 || u_attractionEffects[i] != 1) continue;
+    if(distance(pos, u_attractionPositions[i]) < 0.02) return true;
+  }
+  return false;
+}
+
+// True when this particle is claimed by a queued event this step; sets the
+// state it restarts with
+bool queuedSpawn(int idx, vec2 rnd, out vec2 pos, out vec2 vel){
+  pos = vec2(0.0);
+  vel = vec2(0.0);
+  if(u_spawnQueueRows == 0 || idx >= u_particleCount) return false;
+
+  int rel = idx - u_spawnQueueBase;
+  if(rel < 0) rel += u_particleCount;
+  for(int row = 0; row < 4; row++){
+    if(row >= u_spawnQueueRows) break;
+    int n = max(1, int(u_spawnCount[row]));
+    int span = n * int(u_spawnQueueSize);
+    if(rel < span){
+      vec4 q = texelFetch(u_spawnQueue, ivec2(rel / n, row), 0);
+      if(q.x < -50.0) return false;
+      float a = rnd.x * TWO_PI;
+      pos = q.xy;
+      vel = q.zw * u_spawnInherit[row] + vec2(cos(a), sin(a)) * u_spawnSpread[row] * (0.5 + 0.5 * rnd.y);
+      return true;
+    }
+    rel -= span;
+  }
+  return false;
+}
+
+// ============ GRANULAR (sand piles) ============
+// Grains occupy cells of the bin grid, which doubles as the occupancy texture.
+// A falling grain only enters the cell below if it has room; otherwise it slides
+// down a diagonal when the pile next to it is lower than the angle of repose
+// allows, or comes to rest on top. Solid cells are re-evaluated every frame, so
+// piles avalanche when the mask transform or ground plane moves from under them.
+bool granularSolid(ivec2 cell){
+  int grid = int(u_binGrid);
+  // Canvas edges only hold grains when they don't let particles out
+  bool closedEdges = u_boundaryMode == 1 || u_boundaryMode == 3 || u_boundaryMode == 5;
+  if(cell.x < 0 || cell.x >= grid || cell.y < 0) return closedEdges;
+  if(cell.y >= grid) return false;
+
+  vec2 c = (vec2(cell) + 0.5) / u_binGrid;
+  if(u_maskBehavior == 0 && u_maskMode >= 2 && isOutsideMask(maskSample(c), c)) return true;
+  if(u_groundPlaneEnabled > 0.5){
+    vec2 groundNormal = vec2(sin(u_groundTilt), cos(u_groundTilt));
+    if(dot(c - vec2(0.5, u_groundY), groundNormal) < 0.0) return true;
+  }
+  return false;
+}
+
+bool granularBlocked(ivec2 cell){
+  if(granularSolid(cell)) return true;
+  int grid = int(u_binGrid);
+  if(cell.x < 0 || cell.x >= grid || cell.y < 0 || cell.y >= grid) return false;
+  return texelFetch(u_bins, cell, 0).z >= u_granularCapacity - 0.5;
+}
+
+// Random spot inside a cell, away from its edges
+vec2 granularCellPos(ivec2 cell, vec2 rnd){
+  return (vec2(cell) + 0.3 + rnd * 0.4) / u_binGrid;
+}
+
+// Moves the grain by one step of its velocity, resolved against the occupancy
+// grid. Sets resting when the grain is held in place by the pile.
+vec2 granularStep(vec2 pos, inout vec2 vel, vec2 rnd, out bool resting){
+  resting = false;
+  vec2 next = pos + vel * (u_dt * u_speed);
+  if(u_hasBins < 0.5 || any(lessThan(pos, vec2(0.0))) || any(greaterThanEqual(pos, vec2(1.0)))) return next;
+
+  ivec2 from = ivec2(floor(pos * u_binGrid));
+  ivec2 to = ivec2(floor(next * u_binGrid));
+
+  // Overfull cell (several grains landed at once): some of them climb out
+  float own = texelFetch(u_bins, from, 0).z;
+  if(own > u_granularCapacity + 0.5 && rnd.x < 0.5){
+    ivec2 up = from + ivec2(0, 1);
+    if(!granularBlocked(up)){
+      vel = vec2(0.0);
+      return granularCellPos(up, rnd);
+    }
+  }
+  if(to == from) return next;
+
+  // Sideways into a full cell: stop horizontal motion
+  if(to.x != from.x && granularBlocked(ivec2(to.x, from.y))){
+    vel.x = 0.0;
+    next.x = pos.x;
+    to.x = from.x;
+  }
+  if(to.y >= from.y) return next;
+
+  // Falling: the cell below decides
+  ivec2 below = ivec2(to.x, from.y - 1);
+  if(!granularBlocked(below)) return next;
+
+  int dir = rnd.y < 0.5 ? -1 : 1;
+  for(int k = 0; k < 2; k++){
+    ivec2 side = from + ivec2(dir, 0);
+    if(!granularBlocked(side)){
+      // Steep enough to slide: every cell down to the repose depth is free
+      bool steep = true;
+      for(int d = 1; d <= 4; d++){
+        if(d > u_granularReposeDepth) break;
+        if(granularBlocked(side - ivec2(0, d))){ steep = false; break; }
+      }
+      if(steep){
+        vel = vec2(0.0, vel.y * 0.5);
+        return granularCellPos(side - ivec2(0, 1), rnd);
+      }
+      if(fract(rnd.x * 7.31 + rnd.y) < u_granularSpread){
+        vel = vec2(0.0);
+        return granularCellPos(side, rnd);
+      }
+    }
+    dir = -dir;
+  }
+
+  // Held by the pile
+  resting = true;
+  vel = vec2(0.0);
+  return vec2(next.x, pos.y);
+}
 
 void main(){
   vec4 s = texture(u_state, v_uv);
   vec2 pos = s.xy;
   vec2 vel = s.zw;
+  vec4 meta = texture(u_meta, v_uv);
+  vec4 life = texture(u_life, v_uv);
+  // States only persist while their boundary mode is active
+  bool destroyed = life.y > 0.5 && life.y < 1.5 && u_boundaryMode == 4;
+  bool stuck = life.y > 1.5 && u_boundaryMode == 3;
+
+  // Particle index matches the render pass mapping (x + y * width)
+  ivec2 texel = ivec2(gl_FragCoord.xy);
+  int particleIdx = texel.y * int(u_stateSize.x) + texel.x;
+  vec3 keys = clusterKeys(particleSeeds(particleIdx));
 
   // If uninitialized (pos==0 and vel==0), seed it
+  bool seeded = false;
   if(pos==vec2(0.0) && vel==vec2(0.0)){
     vec2 seed = vec2(rand(v_uv + u_time), rand(v_uv.yx + u_time*1.3));
     pos = pickSpawn(seed);
     vel = getSpawnVelocity(pos, seed, u_spawnRegion);
+    meta = vec4(0.0);
+    life = vec4(0.0);
+    destroyed = false;
+    stuck = false;
+    seeded = true;
+  }
+
+  // Neighbours are read against the binned (start of frame) position
+  Neighbours nb;
+  nb.count = 0.0;
+  if(!seeded && (u_movementPattern == 11 || u_movementPattern == 12)){
+    nb = gatherNeighbours(pos, vel, keys);
   }
 
   // Store previous position for collision detection
@@ -830,7 +1414,11 @@ void main(){
   
   // Gravity: heavier particles (higher mass) fall faster
   // Buoyancy counters gravity for light particles
-  float effectiveGravity = u_gravity * tp.mass - tp.buoyancy * 0.1;
+  // Colour regions can override gravity and add a preferred flow direction
+  int region = u_maskBehavior == 2 ? regionAt(pos) : -1;
+  vec4 regionMotion = region >= 0 ? regionParams(region, 0) : vec4(0.0);
+  float gravity = regionMotion.x > 0.5 ? regionMotion.y : u_gravity;
+  float effectiveGravity = gravity * tp.mass - tp.buoyancy * 0.1;
   vec2 g = vec2(0.0, -effectiveGravity);
   
   // LEGACY attraction toward single point with distance falloff
@@ -890,9 +1478,64 @@ void main(){
   // Calculate intrinsic movement from pattern system
   vec2 patternForce = patternMovement(pos, v_uv.x, u_time);
 
+  // Region flow: steer toward the region's flow direction
+  vec2 regionFlow = vec2(0.0);
+  if(regionMotion.z > 0.5){
+    float flowStrength = regionParams(region, 1).y;
+    regionFlow = vec2(cos(regionMotion.w), sin(regionMotion.w)) * (0.05 + flowStrength * 0.3);
+  }
+
+  // Mass jitter: heavier particles fall faster and are pushed around less
+  float massScale = 1.0 + (particleHash(particleIdx, 27.1191) * 2.0 - 1.0) * u_massJitter * 0.8;
+  g *= massScale;
+  aForce /= massScale;
+  windForce /= massScale;
+
+  // Other layers acting on this one
+  vec2 layerForce = interactionForce(pos) / massScale;
+
   // Integrate velocity - mass affects inertia (heavier = slower acceleration)
   float inertiaFactor = 1.0 / max(tp.mass, 0.1);
-  vel += (g + aForce + windForce + f + j + depthForce + groundForce + patternForce) * u_dt * inertiaFactor;
+  vel += (g + aForce + windForce + f + j + depthForce + groundForce + patternForce + regionFlow + layerForce) * u_dt * inertiaFactor;
+
+  // Damped spring toward the particle's home (morph target or seeded origin)
+  if(u_homeStrength > 0.0 && u_hasHome > 0.5){
+    vec4 home = texture(u_home, v_uv);
+    if(home.z > 0.5){
+      vel += (home.xy - pos) * u_homeStrength * 40.0 * u_dt;
+      vel *= 1.0 - clamp(u_homeDamping * 8.0 * u_dt, 0.0, 1.0);
+    }
+  }
+
+  // ============ NEIGHBOUR PATTERNS ============
+  float bond = meta.x;
+  if(u_movementPattern == 11 && nb.count > 0.5){
+    // Evade: flee from nearby particles, harder when crowded
+    vec2 flee = nb.repel / max(1.0, sqrt(nb.count));
+    vel += flee * u_evadeStrength * u_patternSpeed * 20.0 * u_dt;
+  } else if(u_movementPattern == 12){
+    if(nb.count > 0.5){
+      // Stress = motion relative to the local group; large stress snaps the bond
+      float stress = length(vel - nb.meanVel) * 10.0;
+      if(stress > u_clusterBreak){
+        bond = 0.0;
+      } else {
+        // Bonds only grow between particles that pass the size/colour/brightness filters
+        bond += (nb.similarity - 0.5) * 2.0 * u_clusterStrength * u_dt;
+      }
+      bond = clamp(bond, 0.0, 1.0);
+
+      // Unbonded particles drift weakly toward similar neighbours so clusters can form
+      float cohesion = max(bond, nb.similarity * 0.15) * u_clusterStrength;
+      vel += (nb.center - pos) * cohesion * 8.0 * u_dt;
+      // Bonded particles move together and keep a little spacing
+      vel = mix(vel, nb.meanVel, clamp(bond * u_clusterStrength * 6.0 * u_dt, 0.0, 1.0));
+      vel += nb.repel / max(1.0, nb.count) * 0.02 * u_dt;
+    } else {
+      // Isolated particles lose their bond
+      bond = max(0.0, bond - u_dt);
+    }
+  }
 
   // ============ TYPE-SPECIFIC BEHAVIORS ============
   
@@ -916,41 +1559,10 @@ void main(){
     vel.x *= (1.0 - 0.5*u_dt);
   }
   
-  // Liquid cohesion, linking, and pooling behavior
-  if(u_type == 5){
-    // Liquid tends to pool when slow (surface tension effect)
-    float slowFactor = 1.0 - clamp(length(vel) * 30.0, 0.0, 1.0);
-    
-    // Simulated linked particle behavior: 
-    // Use position-based pseudo-neighbors to create cohesion waves
-    float linkPhase = sin(pos.x * 20.0 + u_time * 3.0) * cos(pos.y * 20.0 + u_time * 2.5);
-    
-    // Energy transfer simulation: ripple effect propagates through "linked" mass
-    vec2 ripple = vec2(
-      cos(length(pos - vec2(0.5)) * 30.0 - u_time * 8.0),
-      sin(length(pos - vec2(0.5)) * 30.0 - u_time * 8.0)
-    ) * 0.002 * slowFactor;
-    
-    // Surface tension: particles at edges of pools are pulled inward
-    float surfaceTension = linkPhase * 0.003 * slowFactor;
-    vec2 tensionForce = normalize(vec2(0.5, 0.3) - pos) * surfaceTension;
-    
-    // Apply cohesion and energy transfer
-    vel += (tensionForce + ripple) * u_dt;
-    
-    // Liquid spreads horizontally when settling (mimics pooling)
-    if(slowFactor > 0.5){
-      vel.x += (rand(pos + u_time * 3.0) - 0.5) * 0.015 * slowFactor;
-      // Dampen vertical movement to encourage pooling
-      vel.y *= 0.98;
-    }
-    
-    // New particles joining pool cause displacement ripple (energy propagation)
-    float recentSpawn = step(length(vel), 0.05) * step(0.95, rand(pos + u_time * 0.1));
-    if(recentSpawn > 0.5){
-      // This particle just joined - add outward push to neighbors (simulated)
-      vel += normalize(pos - vec2(0.5)) * 0.01;
-    }
+  // Liquid: SPH pressure, viscosity and surface tension against the binned
+  // (start of frame) neighbours; freshly seeded particles sit this frame out
+  if(u_type == 5 && !seeded){
+    vel = applyLiquid(pos, vel);
   }
   
   // Crumbs tumble behavior
@@ -964,12 +1576,29 @@ void main(){
   float effectiveDrag = u_drag * tp.airResistance;
   vel *= (1.0 - clamp(effectiveDrag, 0.0, 0.95));
 
-  // Apply velocity
-  pos += vel * (u_dt * u_speed);
+  // Age, and how far through its lifetime the particle is
+  life.z += u_dt;
+  float lifetime = u_lifetime * max(0.05, 1.0 + (particleHash(particleIdx, 53.2371) * 2.0 - 1.0) * u_lifetimeJitter);
+  life.w = u_lifetime > 0.0 ? clamp(life.z / lifetime, 0.0, 1.0) : 0.0;
+  float lifeSpeed = u_hasLifeLUT > 0.5 ? textureLod(u_lifeLUT, vec2((life.w * 63.0 + 0.5) / 64.0, 0.25), 0.0).z : 1.0;
+
+  // Apply velocity; granular sand resolves the move against the occupancy grid
+  bool granularRest = false;
+  if(u_type == 0 && u_granular > 0.5 && !seeded){
+    vec2 rnd = vec2(rand(v_uv + u_time * 0.37), rand(v_uv.yx + u_time * 0.61));
+    pos = granularStep(pos, vel, rnd, granularRest);
+  } else {
+    pos += vel * (u_dt * u_speed * lifeSpeed);
+  }
 
   // "death" condition + respawn with lifecycle
   float die = 0.0;
   float speed = length(vel);
+
+  // Sub-emitter event this step, recorded where it happened (before any respawn)
+  int eventKind = 0;
+  vec2 eventAt = pos;
+  vec2 eventVel = vel;
   
   // ======== FLOW PATH DECAY ========
   // Particles in decay zones (end of paths) should die
@@ -992,8 +1621,9 @@ void main(){
     }
   }
   
-  // Accumulation phase: particles that are nearly stopped
-  bool isAccumulating = speed < 0.005;
+  // Accumulation phase: particles that are nearly stopped (grains held by a
+  // granular pile stay put instead of decaying)
+  bool isAccumulating = speed < 0.005 && !granularRest;
   
   // Apply accumulation rate damping when near surfaces or settled
   if(isAccumulating){
@@ -1010,8 +1640,8 @@ void main(){
   
   // Type-specific respawn logic (on top of lifecycle)
   if(u_type == 0){
-    // sand "dies" if it settles at bottom
-    if(pos.y < 0.01 && abs(vel.y) < 0.001 && rand(pos + u_time*0.9) < u_spawnRate) die = 1.0;
+    // sand "dies" if it settles at bottom, unless it is part of a pile
+    if(!granularRest && pos.y < 0.01 && abs(vel.y) < 0.001 && rand(pos + u_time*0.9) < u_spawnRate) die = 1.0;
   } else if(u_type == 2){
     // sparks die when they slow down (burnt out) - faster decay
     float sparkDecay = u_decayRate * 2.0;
@@ -1027,6 +1657,17 @@ void main(){
     if(rand(pos + u_time) < u_spawnRate * 0.02) die = 1.0;
   }
 
+  // End of lifetime
+  if(u_lifetime > 0.0 && life.z >= lifetime) die = 1.0;
+
+  // Attraction points with the despawn effect
+  if(reachedDespawnPoint(pos)){
+    die = 1.0;
+    eventKind = 2;
+  }
+  // Everything above that kills the particle counts as decay
+  if(die > 0.5 && eventKind == 0) eventKind = 3;
+
   // ======== MAGNETISM (applied before collision) ========
   if(u_magnetism != 0.0 && u_magnetismRadius > 0.0){
     vec2 grad = maskGradient(pos);
@@ -1053,8 +1694,9 @@ void main(){
   bool outsideMask = isOutsideMask(maskVal, posClamped);
   
   // Mask mode: 0=ignore, 1=visibility, 2=collision, 3=accumulate
-  // For ignore (0) and visibility (1), mask doesn't affect physics
-  bool maskAffectsPhysics = u_maskMode >= 2;
+  // For ignore (0) and visibility (1), mask doesn't affect physics.
+  // Legacy mask modes only drive the containment behavior.
+  bool maskAffectsPhysics = u_maskBehavior == 0 && u_maskMode >= 2;
   
   // ======== MATERIAL SYSTEM: Impact Detection ========
   bool borderCrossed = detectBorderCrossing(prevPos, pos, prevMaskVal, maskVal);
@@ -1063,6 +1705,11 @@ void main(){
   
   if(borderCrossed && maskAffectsPhysics) {
     impact = calculateImpact(posClamped, vel, tp.mass);
+    if(eventKind == 0){
+      eventKind = 1;
+      eventAt = posClamped;
+      eventVel = vel;
+    }
     
     // Apply material-based pass-through
     if(matResp.passThrough > 0.0 && rand(v_uv + u_time) < matResp.passThrough) {
@@ -1072,6 +1719,62 @@ void main(){
     }
   }
   
+  // ======== MASK BEHAVIORS: border effects / colour regions / pathing ========
+  if(u_maskBehavior == 1 || u_maskBehavior == 2){
+    vec2 grad = maskGradient(posClamped);
+    bool insideNow = !outsideMask;
+
+    // Repel acts before contact: push away from the edge on the particle's own side
+    if(u_borderEffect == 3 && length(grad) > 0.001){
+      float distToEdge = abs(maskVal - u_maskThreshold);
+      float reach = 0.05 + u_borderStrength * 0.15;
+      if(distToEdge < reach){
+        vec2 away = normalize(grad) * (insideNow ? 1.0 : -1.0);
+        vel += away * u_borderStrength * (1.0 - distToEdge / reach) * 0.5 * u_dt;
+      }
+    }
+
+    bool crossed;
+    int effect = u_borderEffect;
+    float strength = u_borderStrength;
+    if(u_maskBehavior == 1){
+      crossed = borderCrossed;
+    } else if(u_hasRegions > 0.5){
+      // Defined regions: the region being entered decides the effect,
+      // or the region being left when exiting into unassigned space
+      int fromRegion = regionAt(prevPos);
+      int toRegion = regionAt(posClamped);
+      crossed = fromRegion != toRegion;
+      int owner = toRegion >= 0 ? toRegion : fromRegion;
+      if(crossed){
+        vec4 rp = regionParams(owner, 1);
+        effect = int(rp.x + 0.5);
+        strength = rp.y;
+      }
+    } else {
+      crossed = length(maskColorSample(posClamped) - maskColorSample(prevPos)) > 0.15;
+    }
+    if(crossed && !outOfBounds){
+      vec2 n = length(grad) > 0.001 ? normalize(grad) : normalize(prevPos - pos + vec2(0.00001));
+      if(dot(n, prevPos - pos) < 0.0) n = -n;
+      applyBorderEffect(effect, strength, pos, vel, meta, prevPos, n, vec2(rand(v_uv + u_time * 3.1), rand(v_uv.yx - u_time * 2.3)));
+    }
+  } else if(u_maskBehavior == 3){
+    // Pathing: steer along mask contours and hug the threshold iso-line
+    vec2 grad = maskGradient(posClamped);
+    if(length(grad) > 0.001){
+      vec2 nrm = normalize(grad);
+      vec2 tangent = vec2(-nrm.y, nrm.x);
+      if(dot(tangent, vel) < 0.0) tangent = -tangent;
+      float follow = clamp(u_borderStrength * 4.0 * u_dt, 0.0, 1.0);
+      vel = mix(vel, tangent * max(length(vel), 0.02) * u_borderVelocityScale, follow);
+      vel -= nrm * (maskVal - u_maskThreshold) * u_borderStrength * 2.0 * u_dt;
+    }
+  }
+
+  // Smear trails fade out over time
+  meta.z = max(0.0, meta.z - u_dt * 0.5);
+
   // ======== GROUND PLANE COLLISION ========
   if(u_groundPlaneEnabled > 0.5) {
     float cosT = cos(u_groundTilt);
@@ -1120,9 +1823,29 @@ void main(){
           die = 1.0;
         }
       }
-    } else if(u_boundaryMode == 1 || maskAffectsPhysics){
+    } else if(outOfBounds && u_boundaryMode == 3){
+      // STICK: pin to the edge that was hit until the particle decays
+      pos = clamp(pos, 0.001, 0.999);
+      vel = vec2(0.0);
+      stuck = true;
+    } else if(outOfBounds && u_boundaryMode == 4){
+      // DESTROY: hide the particle; it only comes back through spawnRate
+      if(!destroyed){
+        eventKind = 4;
+        eventAt = pos;
+        eventVel = vel;
+      }
+      destroyed = true;
+    } else if(u_boundaryMode == 1 || u_boundaryMode == 5 || maskAffectsPhysics){
       // BOUNCE or mask collision
       float bounceEnergy = u_boundaryBounce * (1.0 - tp.cling * 0.5);
+
+      // SLOW BOUNCE: every hit keeps less energy than the last
+      if(u_boundaryMode == 5){
+        life.x += 1.0;
+        bounceEnergy *= pow(0.7, life.x);
+        vel *= 0.9;
+      }
       
       // Handle canvas edge bounces
       if(pos.x < 0.0){ pos.x = 0.001; vel.x = abs(vel.x) * bounceEnergy; }
@@ -1212,6 +1935,26 @@ void main(){
     }
   }
 
+  // Stuck particles stay pinned and decay at the accumulation decay rate
+  if(stuck){
+    if(life.y > 1.5) pos = prevPos;
+    vel = vec2(0.0);
+    float decayChance = u_decayRate * u_dt * 0.5 / max(u_accumulationTime, 0.1);
+    die = rand(v_uv + u_time * 0.7) < decayChance ? 1.0 : 0.0;
+    if(die > 0.5 && eventKind == 0){
+      eventKind = 3;
+      eventAt = pos;
+      eventVel = vel;
+    }
+  }
+
+  // Destroyed particles stay hidden until spawnRate replenishes them
+  if(destroyed){
+    if(life.y > 0.5) pos = prevPos;
+    vel = vec2(0.0);
+    die = rand(v_uv + u_time * 4.3) < u_spawnRate * u_dt * 6.0 ? 1.0 : 0.0;
+  }
+
   // Handle respawn
   if(die > 0.5){
     vec2 seed = vec2(rand(v_uv + u_time*2.1), rand(v_uv.yx + u_time*1.7));
@@ -1250,9 +1993,31 @@ void main(){
     float regionWeight = (u_spawnRegion >= 5 && u_spawnRegion <= 8) ? 0.8 : 0.5;
     vel = mix(typeVel, regionVel, regionWeight);
     vel *= u_spawnSpeed;
-  }
-
+    bond = 0.0;
+    meta = vec4(0.0);
+    life = vec4(0.0);
+    destroyed = false;
+    stuck = false;
+  }
+
+  // Claimed by another layer's (or our own) sub-emitter event
+  vec2 spawnPos, spawnVel;
+  vec2 spawnRnd = vec2(rand(v_uv + u_time * 3.7), rand(v_uv.yx + u_time * 2.9));
+  if(queuedSpawn(particleIdx, spawnRnd, spawnPos, spawnVel)){
+    pos = spawnPos;
+    vel = spawnVel;
+    bond = 0.0;
+    meta = vec4(0.0);
+    life = vec4(0.0);
+    destroyed = false;
+    stuck = false;
+  }
+
+  life.y = destroyed ? 1.0 : stuck ? 2.0 : 0.0;
   o_pos = vec4(pos, vel);
+  o_meta = vec4(bond, meta.yzw);
+  o_life = life;
+  o_event = encodeEvent(eventKind, eventAt, eventVel);
 }
 `;
 
@@ -1261,6 +2026,8 @@ precision highp float;
 precision highp int;
 
 uniform sampler2D u_state;
+uniform sampler2D u_meta;      // X = bond, Y = colour transform, Z = smear, W = fragment level
+uniform sampler2D u_life;      // X = boundary hits, Y = state (1 = destroyed)
 uniform vec2 u_stateSize;
 uniform vec2 u_canvasSize;
 uniform float u_pointSize;
@@ -1269,20 +2036,56 @@ uniform float u_pointSizeMax;  // Offset from base size (positive, e.g., 0 to +3
 uniform float u_sizeJitter;    // 0-1, randomness in particle size
 uniform float u_trailLength;
 uniform int u_type;
+uniform float u_fragmentShrink; // size multiplier per fragment level
+uniform float u_colorJitter;      // 0-1, per-particle hue variation
+uniform float u_brightnessJitter; // 0-2, per-particle brightness variation
 
 // Glyph jitter uniforms
 uniform float u_glyphRotationJitter; // 0-360 degrees
 uniform float u_glyphScaleJitter;    // 0-1 variation
 uniform int u_glyphCount;            // Number of shapes in palette (0 = use u_shape)
-uniform vec4 u_glyphPalette;         // Shape indices (packed into vec4, up to 4 shapes)
-uniform vec4 u_glyphWeights;         // Weights for each shape (normalized)
+uniform int u_glyphPalette[8];       // Shape indices, one per palette entry
+uniform float u_glyphWeights[8];     // Weights for each shape (normalized)
+uniform int u_spriteFrames;          // Frames in the sprite atlas (0 = none loaded)
+uniform float u_splat;               // Metaball splat radius in px (0 = draw glyphs)
+uniform sampler2D u_lifeLUT;         // over-life curves, see simFS
+uniform float u_hasLifeLUT;
+uniform int u_colorMode;             // see COLOR_MODE_MAP; 0 = single colour, else index u_colorLUT
+uniform int u_colorAxis;             // position mode: 0 = x, 1 = y, 2 = radial
+uniform float u_colorVelocityMax;    // speed at the end of the gradient (velocity mode)
+uniform sampler2D u_depthTex;        // layer depth field (depth mode)
+uniform sampler2D u_colorImage;      // image mode picture, row 0 at the top
+uniform float u_hasColorImage;
+uniform vec2 u_colorImagePan;        // image placement, same controls as the mask transform
+uniform float u_colorImageScale;
+uniform float u_colorImageRotation;
+uniform vec2 u_colorImageSkew;
+uniform int u_colorImageSpawn;       // 1 = sample where the particle spawned (u_origin)
+uniform sampler2D u_origin;          // xy = spawn position (see originFS)
+uniform int u_seedColor;             // 1 = colour from the image seed (bound as u_colorImage)
+uniform vec4 u_seedRect;             // image seed placement: xy = corner, zw = size
+
+// Age mode without a lifetime spreads the gradient over this many seconds
+const float AGE_COLOR_SPAN = 10.0;
 
 out float v_seed;
 out vec2 v_velocity;
 out float v_speed;
+out float v_transform;               // 0-1, border transform colour mix
+out float v_smear;                   // extra velocity stretch from smear effect
+out vec4 v_regionTint;               // rgb = colour region override, a = override amount
+flat out float v_hueShift;           // per-particle hue rotation (radians)
+flat out float v_brightnessScale;    // per-particle brightness multiplier
 flat out float v_glyphRotation;      // Random rotation for this particle
 flat out int v_glyphShape;           // Shape index for this particle
-
+flat out int v_spriteFrame;          // Sprite atlas frame for this particle
+out float v_lifeBrightness;          // brightness-over-life multiplier
+out vec4 v_lifeColor;                // colour-over-life, a = 1 when it replaces the layer colour
+out float v_colorT;                  // position in the layer gradient, < 0 = single colour
+out vec4 v_imageColor;               // image mode colour, a = 1 when the particle is over the image
+${particleSeedsGLSL}
+${maskTransformGLSL}
+${colorRegionsGLSL}
 void main(){
   // gl_VertexID maps into state texture
   int idx = gl_VertexID;
@@ -1294,15 +2097,23 @@ void main(){
   vec4 s = texture(u_state, uv);
   vec2 p = s.xy;
   vec2 vel = s.zw;
+  vec4 meta = texture(u_meta, uv);
+  v_transform = meta.y;
+  v_smear = meta.z;
+  int region = regionAt(p);
+  v_regionTint = region >= 0 ? regionParams(region, 2) : vec4(0.0);
 
   // map 0..1 to clip
   vec2 clip = p * 2.0 - 1.0;
   gl_Position = vec4(clip, 0.0, 1.0);
 
   // Calculate seed first (used for size variation)
-  v_seed = fract(sin(float(idx) * 12.9898) * 43758.5453);
-  float seed2 = fract(sin(float(idx) * 78.233) * 43758.5453);
-  float seed3 = fract(sin(float(idx) * 43.789) * 43758.5453);
+  vec4 seeds = particleSeeds(idx);
+  v_seed = seeds.x;
+  float seed2 = seeds.y;
+  float seed3 = seeds.z;
+  v_hueShift = (particleHash(idx, 61.3457) * 2.0 - 1.0) * u_colorJitter * 3.14159;
+  v_brightnessScale = max(0.0, 1.0 + (seeds.w * 2.0 - 1.0) * u_brightnessJitter * 0.5);
 
   // Pass velocity for motion-based effects
   v_velocity = vel;
@@ -1312,21 +2123,23 @@ void main(){
   // Compute per-particle rotation
   v_glyphRotation = (seed2 - 0.5) * 2.0 * u_glyphRotationJitter * 3.14159 / 180.0;
   
-  // Select shape from palette based on weighted random
+  // Select shape from palette based on weighted random (stable glyph seed)
   v_glyphShape = 0; // Default shape
   if(u_glyphCount > 0) {
     float r = seed3;
     float cumWeight = 0.0;
-    for(int i = 0; i < 4; i++) {
+    v_glyphShape = u_glyphPalette[0];
+    for(int i = 0; i < 8; i++) {
       if(i >= u_glyphCount) break;
       cumWeight += u_glyphWeights[i];
-      if(r < cumWeight) {
-        v_glyphShape = int(u_glyphPalette[i]);
-        break;
-      }
+      v_glyphShape = u_glyphPalette[i];
+      if(r < cumWeight) break;
     }
   }
 
+  // Sprite frame uses its own hash so it doesn't correlate with the glyph pick
+  v_spriteFrame = clamp(int(floor(particleHash(idx, 17.4373) * float(u_spriteFrames))), 0, max(u_spriteFrames - 1, 0));
+
   // Calculate size range from base size + offsets
   float minSize = max(0.5, u_pointSize + u_pointSizeMin);
   float maxSize = u_pointSize + u_pointSizeMax;
@@ -1353,8 +2166,70 @@ void main(){
     float poolGrowth = 1.0 + (1.0 - clamp(v_speed * 30.0, 0.0, 1.0)) * 0.5;
     baseSize *= sizeVar * poolGrowth;
   }
+
+  // Over-life curves, looked up at age / lifetime
+  v_lifeBrightness = 1.0;
+  v_lifeColor = vec4(0.0);
+  vec4 life = texture(u_life, uv);
+  if(u_hasLifeLUT > 0.5){
+    float lifeU = (life.w * 63.0 + 0.5) / 64.0;
+    vec4 curves = textureLod(u_lifeLUT, vec2(lifeU, 0.25), 0.0);
+    baseSize *= curves.x;
+    v_lifeBrightness = curves.y;
+    v_lifeColor = textureLod(u_lifeLUT, vec2(lifeU, 0.75), 0.0);
+  }
+
+  // Where this particle indexes the layer gradient
+  v_colorT = -1.0;
+  if(u_colorMode == 1){ // gradient: seed + velocity
+    v_colorT = fract(v_seed + v_speed * 2.0);
+  } else if(u_colorMode == 2){ // scheme: the LUT holds one band per scheme colour
+    v_colorT = fract(v_seed * 3.14159);
+  } else if(u_colorMode == 3){ // range
+    v_colorT = fract(v_seed + v_speed);
+  } else if(u_colorMode == 4){ // velocity
+    v_colorT = v_speed / max(u_colorVelocityMax, 1e-5);
+  } else if(u_colorMode == 5){ // age
+    v_colorT = life.w > 0.0 ? life.w : life.z / AGE_COLOR_SPAN;
+  } else if(u_colorMode == 6){ // position
+    v_colorT = u_colorAxis == 0 ? p.x : u_colorAxis == 1 ? p.y : length(p - 0.5) * 1.41421;
+  } else if(u_colorMode == 7){ // depth field
+    v_colorT = textureLod(u_depthTex, p, 0.0).r;
+  } else if(u_colorMode == 8){ // per-particle random
+    v_colorT = particleHash(idx, 29.1931);
+  }
+  if(v_colorT > -0.5) v_colorT = clamp(v_colorT, 0.0, 1.0);
+
+  // Image mode: the picture under the particle, or under where it spawned
+  // Image seed: the pixel the particle was seeded from
+  v_imageColor = vec4(0.0);
+  if(u_seedColor == 1){
+    vec4 origin = texture(u_origin, uv);
+    if(origin.z > 0.5){
+      vec2 t = (origin.xy - u_seedRect.xy) / u_seedRect.zw;
+      v_imageColor = vec4(textureLod(u_colorImage, vec2(t.x, 1.0 - t.y), 0.0).rgb, 1.0);
+    }
+  } else if(u_colorMode == 9 && u_hasColorImage > 0.5){
+    vec2 at = u_colorImageSpawn == 1 ? texture(u_origin, uv).xy : p;
+    vec2 t = inverseTransformUV(at, u_colorImagePan, u_colorImageScale, u_colorImageRotation, u_colorImageSkew);
+    if(all(greaterThanEqual(t, vec2(0.0))) && all(lessThanEqual(t, vec2(1.0)))){
+      v_imageColor = vec4(textureLod(u_colorImage, vec2(t.x, 1.0 - t.y), 0.0).rgb, 1.0);
+    }
+  }
+
+  // Fragmented particles shrink; smeared ones need room for the stretch
+  baseSize *= pow(u_fragmentShrink, meta.w);
+  baseSize *= 1.0 + v_smear * 2.0;
   
   gl_PointSize = clamp(baseSize, 0.5, 32.0);
+  if(u_splat > 0.0) gl_PointSize = clamp(u_splat * 2.0, 1.0, 128.0);
+
+  // Destroyed particles are not drawn until they respawn
+  float state = life.y;
+  if(state > 0.5 && state < 1.5){
+    gl_Position = vec4(2.0, 2.0, 0.0, 1.0);
+    gl_PointSize = 0.0;
+  }
 }
 `;
 
@@ -1366,8 +2241,18 @@ precision highp int;
 in float v_seed;
 in vec2 v_velocity;
 in float v_speed;
+in float v_transform;
+in float v_smear;
+in vec4 v_regionTint;
+flat in float v_hueShift;
+flat in float v_brightnessScale;
 flat in float v_glyphRotation;
 flat in int v_glyphShape;
+flat in int v_spriteFrame;
+in float v_lifeBrightness;
+in vec4 v_lifeColor;
+in float v_colorT;
+in vec4 v_imageColor;
 out vec4 o_col;
 
 uniform float u_brightness;
@@ -1375,17 +2260,29 @@ uniform float u_exposure;
 uniform float u_dither;
 uniform int u_monochrome;
 uniform int u_invert;
-uniform vec3 u_tint;
-uniform vec3 u_tintSecondary;
-uniform vec3 u_tintTertiary;
-uniform int u_colorMode; // 0=single, 1=gradient, 2=scheme, 3=range
-uniform int u_shape; // 0=dot, 1=star, 2=dash, 3=tilde, 4=square, 5=diamond, 6=ring, 7=cross
-uniform int u_type;  // 0=sand, 1=dust, 2=sparks, 3=ink
+uniform vec3 u_tint;           // single colour mode
+uniform sampler2D u_colorLUT;  // layer gradient, indexed by v_colorT (COLOR_LUT_SIZE x 1)
+uniform vec3 u_transformColor; // border "transform" effect colour
+uniform int u_shape; // 0=dot, 1=star, 2=dash, 3=tilde, 4=square, 5=diamond, 6=ring, 7=cross, 8=sprite
+uniform int u_type;  // 0=sand, 1=dust, 2=sparks, 3=ink, 4=crumbs, 5=liquid
 uniform float u_trailLength;
 uniform int u_glyphCount; // If > 0, use per-particle glyph from v_glyphShape
+uniform sampler2D u_spriteAtlas; // sprite frames in a cols x rows grid, row 0 at the top
+uniform vec2 u_spriteGrid;       // (cols, rows)
+uniform int u_spriteFrames;
+uniform int u_spriteTint;        // 1 = colour by layer color mode, 0 = keep sprite colours
+uniform int u_blendMode;         // layer blend mode (see BLEND_MODE_MAP)
+uniform float u_splat;           // > 0: write a density splat for metaballShadeFS instead
 
 float hash(float n){ return fract(sin(n)*43758.5453123); }
 
+// Rotate a colour around the grey axis (hue shift that keeps luminance roughly constant)
+vec3 hueRotate(vec3 c, float angle){
+  vec3 k = vec3(0.57735);
+  float ca = cos(angle);
+  return c * ca + cross(k, c) * sin(angle) + k * dot(k, c) * (1.0 - ca);
+}
+
 // Shape SDFs (signed distance fields)
 float sdCircle(vec2 p, float r) {
   return length(p) - r;
@@ -1440,9 +2337,10 @@ void main(){
   }
   
   // Rotate/stretch based on velocity for trail effect
-  if(u_trailLength > 0.01 && v_speed > 0.001){
+  float trail = u_trailLength + v_smear;
+  if(trail > 0.01 && v_speed > 0.001){
     vec2 dir = normalize(v_velocity);
-    float stretch = 1.0 + v_speed * u_trailLength * 20.0;
+    float stretch = 1.0 + v_speed * trail * 20.0 + v_smear * 2.0;
     // Rotate p so velocity points along x
     float c = dir.x, s = dir.y;
     p = vec2(c*p.x + s*p.y, -s*p.x + c*p.y);
@@ -1451,6 +2349,7 @@ void main(){
   }
   
   float sdf = 0.0;
+  vec4 sprite = vec4(0.0);
   
   // Shape selection (use shapeToUse which respects glyph palette)
   if(shapeToUse == 0){ // dot
@@ -1470,10 +2369,21 @@ void main(){
     sdf = sdRing(p, 0.5, 0.15);
   } else if(shapeToUse == 7){ // cross
     sdf = sdCross(p, 0.7, 0.15);
+  } else if(shapeToUse == 8 && u_spriteFrames > 0){ // sprite
+    // Point coords run top-down, matching the atlas rows
+    vec2 cellUV = p * 0.5 + 0.5;
+    if(all(greaterThanEqual(cellUV, vec2(0.0))) && all(lessThanEqual(cellUV, vec2(1.0)))){
+      vec2 cell = vec2(float(v_spriteFrame % int(u_spriteGrid.x)), float(v_spriteFrame / int(u_spriteGrid.x)));
+      sprite = textureLod(u_spriteAtlas, (cell + cellUV) / u_spriteGrid, 0.0);
+    }
+    // Pseudo-SDF so type effects (spark glow) still have an edge to work with
+    sdf = mix(0.1, -0.1, sprite.a);
   }
   
   // Convert SDF to alpha with antialiasing
   float a = 1.0 - smoothstep(-0.1, 0.1, sdf);
+  bool isSprite = shapeToUse == 8 && u_spriteFrames > 0;
+  if(isSprite) a = sprite.a;
   
   // Type-specific visual effects
   if(u_type == 2){ // sparks: hot glow effect with ember flicker
@@ -1504,40 +2414,36 @@ void main(){
     a *= 0.8 + highlight * 0.4;
   }
 
+  // Metaball splat: a smooth density kernel replaces the glyph, colour still applies
+  float splat = 0.0;
+  if(u_splat > 0.0){
+    vec2 q = gl_PointCoord * 2.0 - 1.0;
+    float r2 = dot(q, q);
+    splat = r2 < 1.0 ? (1.0 - r2) * (1.0 - r2) : 0.0;
+    a = 1.0;
+  }
+
   // dither / stipple (helps mimic the "speckle" gif look)
   float d = (hash(v_seed*1000.0 + gl_FragCoord.x*0.13 + gl_FragCoord.y*0.17) - 0.5) * u_dither;
-  float v = clamp((a + d) * u_brightness * u_exposure, 0.0, 1.0);
+  float v = clamp((a + d) * u_brightness * u_exposure * v_brightnessScale * v_lifeBrightness, 0.0, 1.0);
 
   vec3 col = vec3(v);
   
   if(u_monochrome == 0){
-    // Apply color based on mode
-    if(u_colorMode == 0){
-      // Single color
+    // Apply color based on mode: image, single colour, or a lookup into the layer gradient
+    if(v_imageColor.a > 0.5){
+      col = v_imageColor.rgb * v;
+    } else if(v_colorT < 0.0){
       col = vec3(v) * u_tint;
-    } else if(u_colorMode == 1){
-      // Gradient: interpolate between 3 colors based on seed + velocity
-      float t = fract(v_seed + v_speed * 2.0);
-      if(t < 0.5){
-        col = mix(u_tint, u_tintSecondary, t * 2.0) * v;
-      } else {
-        col = mix(u_tintSecondary, u_tintTertiary, (t - 0.5) * 2.0) * v;
-      }
-    } else if(u_colorMode == 2){
-      // Scheme: use seed to pick from the 3 colors
-      float pick = fract(v_seed * 3.14159);
-      if(pick < 0.33){
-        col = u_tint * v;
-      } else if(pick < 0.66){
-        col = u_tintSecondary * v;
-      } else {
-        col = u_tintTertiary * v;
-      }
-    } else if(u_colorMode == 3){
-      // Range: interpolate in HSL-like space using seed
-      // u_tint = rangeStart, u_tintSecondary = rangeEnd
-      float t = fract(v_seed + v_speed);
-      col = mix(u_tint, u_tintSecondary, t) * v;
+    } else {
+      float lutSize = float(textureSize(u_colorLUT, 0).x);
+      col = textureLod(u_colorLUT, vec2((v_colorT * (lutSize - 1.0) + 0.5) / lutSize, 0.5), 0.0).rgb * v;
+    }
+    if(v_lifeColor.a > 0.5){
+      col = v_lifeColor.rgb * v;
+    }
+    if(isSprite && u_spriteTint == 0){
+      col = sprite.rgb * v;
     }
     
     // Type-specific coloring adjustments
@@ -1552,15 +2458,192 @@ void main(){
     if(u_type == 5){ // liquid: slight blue tint for water
       col = mix(col, vec3(0.6, 0.8, 1.0) * v, 0.2);
     }
+
+    // Colour jitter
+    col = max(hueRotate(col, v_hueShift), 0.0);
+
+    // Colour region override, then border transform effect
+    col = mix(col, v_regionTint.rgb * v, v_regionTint.a);
+    col = mix(col, u_transformColor * v, v_transform);
+  } else {
+    // Monochrome: overrides only contribute their brightness
+    if(v_imageColor.a > 0.5){
+      col = vec3(dot(v_imageColor.rgb, vec3(0.299, 0.587, 0.114)) * v);
+    }
+    if(isSprite && u_spriteTint == 0){
+      col = vec3(dot(sprite.rgb, vec3(0.299, 0.587, 0.114)) * v);
+    }
+    col = mix(col, vec3(dot(v_regionTint.rgb, vec3(0.299, 0.587, 0.114)) * v), v_regionTint.a);
+    col = mix(col, vec3(dot(u_transformColor, vec3(0.299, 0.587, 0.114)) * v), v_transform);
   }
   
   if(u_invert==1) col = vec3(1.0) - col;
 
+  if(u_splat > 0.0){
+    // rgb = density-weighted colour, a = density; summed additively into the field
+    if(splat < 0.001) discard;
+    o_col = vec4(col * splat, splat);
+    return;
+  }
+
   if(v < 0.01) discard;
+  // Darken blends with MIN, so composite over white first or soft edges would turn black
+  if(u_blendMode == 6) col += vec3(1.0 - v);
   o_col = vec4(col, v);
 }
 `;
 
+// ============================================
+// NEIGHBOUR BINNING (evade / clusters)
+// ============================================
+
+// Scatter each particle as a single point into its grid cell. Additive
+// blending accumulates per-cell sums that simFS reads back as neighbours.
+export const binVS = `#version 300 es
+precision highp float;
+precision highp int;
+
+uniform sampler2D u_state;
+uniform vec2 u_stateSize;
+uniform float u_binGrid;
+
+out vec4 v_bin;    // in-cell offset, 1 (count), size key
+out vec4 v_binVel; // velocity, colour key, brightness key
+${particleSeedsGLSL}
+void main(){
+  int idx = gl_VertexID;
+  int w = int(u_stateSize.x);
+  vec2 uv = (vec2(float(idx % w), float(idx / w)) + 0.5) / u_stateSize;
+  vec4 s = texture(u_state, uv);
+  vec2 p = s.xy;
+
+  gl_PointSize = 1.0;
+  v_bin = vec4(0.0);
+  v_binVel = vec4(0.0);
+
+  // Off-canvas particles have no neighbours: push the point outside the viewport
+  if(any(lessThan(p, vec2(0.0))) || any(greaterThanEqual(p, vec2(1.0)))){
+    gl_Position = vec4(2.0, 2.0, 0.0, 1.0);
+    return;
+  }
+
+  vec2 cell = floor(p * u_binGrid);
+  vec3 keys = clusterKeys(particleSeeds(idx));
+  v_bin = vec4(p * u_binGrid - cell - 0.5, 1.0, keys.x);
+  v_binVel = vec4(s.zw, keys.y, keys.z);
+  gl_Position = vec4((cell + 0.5) / u_binGrid * 2.0 - 1.0, 0.0, 1.0);
+}
+`;
+
+export const binFS = `#version 300 es
+precision highp float;
+in vec4 v_bin;
+in vec4 v_binVel;
+layout(location=0) out vec4 o_bin;
+layout(location=1) out vec4 o_binVel;
+
+void main(){
+  o_bin = v_bin;
+  o_binVel = v_binVel;
+}
+`;
+
+// ============================================
+// INTER-LAYER DENSITY
+// ============================================
+
+// Rasterise a source layer's particles into one channel of the consuming
+// layer's interaction texture (additive, one count per particle)
+export const densityVS = `#version 300 es
+precision highp float;
+precision highp int;
+
+uniform sampler2D u_state;
+uniform vec2 u_stateSize;
+
+void main(){
+  int idx = gl_VertexID;
+  int w = int(u_stateSize.x);
+  vec2 uv = (vec2(float(idx % w), float(idx / w)) + 0.5) / u_stateSize;
+  vec2 p = texture(u_state, uv).xy;
+
+  gl_PointSize = 1.0;
+  gl_Position = vec4(p * 2.0 - 1.0, 0.0, 1.0);
+}
+`;
+
+export const densityFS = `#version 300 es
+precision highp float;
+uniform vec4 u_channel; // one-hot
+out vec4 o_col;
+
+void main(){
+  o_col = u_channel;
+}
+`;
+
+// ============================================
+// SUB-EMITTER QUEUE
+// ============================================
+
+// Scatter one source layer's events of one type into a row of the target
+// layer's spawn queue. No atomics: each source particle owns slot idx % size,
+// so two events landing on the same slot in one step keep only one of them.
+export const subEmitVS = `#version 300 es
+precision highp float;
+precision highp int;
+
+uniform sampler2D u_events;
+uniform vec2 u_stateSize;
+uniform int u_eventType;
+uniform vec2 u_queueSize;  // slots per row, rows
+uniform float u_queueRow;
+
+out vec4 v_event;          // pos, vel
+${subEmitEventGLSL}
+void main(){
+  int idx = gl_VertexID;
+  int w = int(u_stateSize.x);
+  vec2 uv = (vec2(float(idx % w), float(idx / w)) + 0.5) / u_stateSize;
+  vec4 e = texture(u_events, uv);
+
+  gl_PointSize = 1.0;
+  v_event = vec4(eventPos(e), e.zw);
+  if(eventType(e) != u_eventType){
+    gl_Position = vec4(2.0, 2.0, 0.0, 1.0);
+    return;
+  }
+  float slot = float(idx % int(u_queueSize.x));
+  gl_Position = vec4((vec2(slot, u_queueRow) + 0.5) / u_queueSize * 2.0 - 1.0, 0.0, 1.0);
+}
+`;
+
+export const subEmitFS = `#version 300 es
+precision highp float;
+in vec4 v_event;
+out vec4 o_col;
+
+void main(){
+  o_col = v_event;
+}
+`;
+
+// Per-particle spawn position, refreshed after each sim step: copied from the
+// state when a particle (re)spawns, kept otherwise. xy = origin, z = 1 once written
+export const originFS = `#version 300 es
+precision highp float;
+in vec2 v_uv;
+out vec4 o_origin;
+uniform sampler2D u_state;      // state after this step
+uniform sampler2D u_life;       // lifecycle after this step (z = age, 0 on the step a particle respawns)
+uniform sampler2D u_prevOrigin;
+void main(){
+  vec4 prev = texture(u_prevOrigin, v_uv);
+  float age = texture(u_life, v_uv).z;
+  o_origin = prev.z < 0.5 || age <= 0.0 ? vec4(texture(u_state, v_uv).xy, 1.0, 0.0) : prev;
+}
+`;
+
 export const blitVS = `#version 300 es
 layout(location=0) in vec2 a_pos;
 out vec2 v_uv;
@@ -1604,6 +2687,105 @@ void main(){
 }
 `;
 
+// ============================================
+// PER-LAYER TRAILS
+// ============================================
+
+// Fade a layer's own accumulation buffer, warp it for feedback, add the new frame
+export const trailUpdateFS = `#version 300 es
+precision highp float;
+in vec2 v_uv;
+out vec4 o_col;
+
+uniform sampler2D u_prev;
+uniform sampler2D u_curr;
+uniform float u_fade;       // layer clearRate
+uniform vec3 u_fadeTint;
+uniform float u_zoom;       // per frame
+uniform float u_rotation;   // radians per frame
+uniform vec2 u_drift;       // uv per frame
+
+void main(){
+  // Inverse feedback transform about the centre
+  vec2 p = v_uv - 0.5 - u_drift;
+  float c = cos(-u_rotation), s = sin(-u_rotation);
+  p = vec2(c*p.x - s*p.y, s*p.x + c*p.y) / (1.0 + u_zoom);
+  vec2 uv = p + 0.5;
+
+  vec4 prev = vec4(0.0);
+  if(all(greaterThanEqual(uv, vec2(0.0))) && all(lessThanEqual(uv, vec2(1.0)))){
+    prev = texture(u_prev, uv);
+  }
+  vec4 curr = texture(u_curr, v_uv);
+  o_col = clamp(prev * vec4(u_fadeTint, 1.0) * (1.0 - u_fade) + curr, 0.0, 1.0);
+}
+`;
+
+// Draw a layer's trail buffer into the scene scratch buffer under the layer's blend mode
+export const layerCompositeFS = `#version 300 es
+precision highp float;
+in vec2 v_uv;
+out vec4 o_col;
+
+uniform sampler2D u_tex;
+uniform int u_blendMode;
+
+void main(){
+  vec4 c = texture(u_tex, v_uv);
+  if(c.a < 0.004) discard;
+  // Same darken fix-up as renderFS
+  if(u_blendMode == 6) c.rgb += vec3(1.0 - c.a);
+  o_col = c;
+}
+`;
+
+// ============================================
+// METABALL SURFACES (liquid / ink)
+// ============================================
+
+// Threshold a layer's splatted density field into a surface. Normals come from
+// the field gradient: they shade the edge, place a specular highlight and bend
+// the colour lookup a little, which reads as refraction inside the blob.
+export const metaballShadeFS = `#version 300 es
+precision highp float;
+in vec2 v_uv;
+out vec4 o_col;
+
+uniform sampler2D u_field;    // rgb = density-weighted colour, a = density
+uniform vec2 u_texel;         // 1 / field size
+uniform float u_threshold;    // density at the surface
+uniform float u_edgeShading;  // 0-1
+uniform int u_blendMode;
+
+void main(){
+  vec4 f = texture(u_field, v_uv);
+  float w = max(fwidth(f.a), u_threshold * 0.05);
+  float a = smoothstep(u_threshold - w, u_threshold + w, f.a);
+  if(a < 0.004) discard;
+
+  // Field gradient over a couple of pixels, relative to the threshold
+  vec2 o = u_texel * 2.0;
+  float dx = texture(u_field, v_uv + vec2(o.x, 0.0)).a - texture(u_field, v_uv - vec2(o.x, 0.0)).a;
+  float dy = texture(u_field, v_uv + vec2(0.0, o.y)).a - texture(u_field, v_uv - vec2(0.0, o.y)).a;
+  vec3 n = normalize(vec3(-vec2(dx, dy) / max(u_threshold, 0.001) * 2.0, 1.0));
+
+  // Refraction: read the colour from slightly inside the surface
+  vec4 r = texture(u_field, v_uv - n.xy * u_texel * 12.0 * u_edgeShading);
+  vec3 col = r.a > 0.001 ? r.rgb / r.a : f.rgb / max(f.a, 0.001);
+
+  vec3 light = normalize(vec3(-0.4, 0.6, 0.7));
+  float diffuse = mix(1.0, 0.65 + 0.35 * max(dot(n, light), 0.0), u_edgeShading);
+  float rim = (1.0 - n.z) * u_edgeShading * 0.5;
+  float spec = pow(max(reflect(-light, n).z, 0.0), 24.0) * u_edgeShading;
+  col = col * diffuse * (1.0 - rim) + vec3(spec);
+
+  col = clamp(col, 0.0, 1.0) * a;
+  // Same darken fix-up as renderFS
+  if(u_blendMode == 6) col += vec3(1.0 - a);
+  o_col = vec4(col, a);
+}
+`;
+
 // ============================================
 // MATERIAL SYSTEM SHADERS
 // ============================================
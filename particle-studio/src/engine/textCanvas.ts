@@ -0,0 +1,102 @@
+import { must } from "./gl";
+
+// Text rasterised on a 2D canvas, by default white glyphs on a transparent background
+
+export type TextAlign = "left" | "center" | "right";
+
+export type TextRasterOptions = {
+  text: string;            // "\n" separates lines
+  fontFamily: string;
+  fontWeight: number;      // 100-900
+  fontSize: number;        // px
+  fontUrl?: string;        // uploaded font file, registered under fontFamily
+  letterSpacing?: number;  // em added between characters (default 0)
+  lineHeight?: number;     // multiple of fontSize (default 1.2)
+  align?: TextAlign;       // lines within the block (default center)
+  color?: string;          // glyphs (default white)
+  background?: string;     // default transparent
+  width?: number;          // fixed canvas size with the block centred in it;
+  height?: number;         // otherwise sized to the text plus a margin
+};
+
+// One registration per uploaded font file
+const uploadedFonts = new Map<string, Promise<void>>();
+
+function loadUploadedFont(family: string, url: string): Promise<void> {
+  const key = `${family}\n${url}`;
+  let loading = uploadedFonts.get(key);
+  if (!loading) {
+    loading = new FontFace(family, `url(${url})`).load().then((face) => {
+      document.fonts.add(face);
+    });
+    uploadedFonts.set(key, loading);
+  }
+  return loading;
+}
+
+const fontString = (o: TextRasterOptions) => `${o.fontWeight} ${o.fontSize}px ${quoteFamily(o.fontFamily)}`;
+
+// Families with spaces need quotes; generic names (serif, monospace, ...) must not have them
+function quoteFamily(family: string): string {
+  const f = family.trim() || "sans-serif";
+  return /^[\w-]+$/.test(f) || /^["']/.test(f) || f.includes(",") ? f : `"${f}"`;
+}
+
+// Waits for the font so webfonts and uploaded faces don't rasterise as the fallback
+export async function renderTextCanvas(o: TextRasterOptions): Promise<HTMLCanvasElement> {
+  const font = fontString(o);
+  try {
+    if (o.fontUrl) await loadUploadedFont(o.fontFamily.trim(), o.fontUrl);
+    await document.fonts.load(font, o.text);
+  } catch {
+    // unknown family or bad font file: the browser falls back to its default face
+  }
+
+  const lines = o.text.split("\n");
+  const canvas = document.createElement("canvas");
+  const ctx = must(canvas.getContext("2d"), "text canvas 2d context failed");
+  const spacing = (o.letterSpacing ?? 0) * o.fontSize;
+  const lineHeight = o.fontSize * (o.lineHeight ?? 1.2);
+
+  // Spaced lines are measured (and drawn) a character at a time
+  ctx.font = font;
+  const lineWidth = (line: string) =>
+    spacing === 0
+      ? ctx.measureText(line).width
+      : Array.from(line).reduce((w, ch) => w + ctx.measureText(ch).width, 0) + spacing * Math.max(0, Array.from(line).length - 1);
+  const widths = lines.map(lineWidth);
+  const blockWidth = Math.max(1, ...widths);
+  const blockHeight = lines.length * lineHeight;
+
+  const pad = Math.ceil(lineHeight * 0.25);
+  canvas.width = o.width ?? Math.ceil(blockWidth) + pad * 2;
+  canvas.height = o.height ?? Math.ceil(blockHeight) + pad * 2;
+
+  // Resizing resets the context state
+  if (o.background) {
+    ctx.fillStyle = o.background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.font = font;
+  ctx.fillStyle = o.color ?? "#ffffff";
+  ctx.textAlign = "left";
+  ctx.textBaseline = "middle";
+
+  const left = (canvas.width - blockWidth) / 2;
+  const top = (canvas.height - blockHeight) / 2;
+  const align = o.align ?? "center";
+  lines.forEach((line, i) => {
+    const slack = blockWidth - widths[i];
+    let x = left + (align === "left" ? 0 : align === "right" ? slack : slack / 2);
+    const y = top + (i + 0.5) * lineHeight;
+    if (spacing === 0) {
+      ctx.fillText(line, x, y);
+      return;
+    }
+    for (const ch of line) {
+      ctx.fillText(ch, x, y);
+      x += ctx.measureText(ch).width + spacing;
+    }
+  });
+  return canvas;
+}
@@ -1,7 +1,8 @@
 import { create } from "zustand";
 import type { 
-  GlobalConfig, LayerConfig, ParticleType, ParticleShape, LayerKind, MaskTransform, 
-  MaterialPreset, GlyphPaletteEntry, SpawnConfig, MovementConfig, BorderEffectConfig,
+  GlobalConfig, FrameStats, LayerConfig, ParticleType, ParticleShape, LayerKind, MaskTransform, 
+  MaterialPreset, GlyphPaletteEntry, SpawnConfig, MovementConfig, BorderEffectConfig, SpriteConfig,
+  LayerTrailConfig, ImageSeedConfig, MorphConfig, MaskTextConfig, LiquidConfig, GranularConfig, MetaballConfig, LifeCurves, GradientStop,
   ColorRegionEffect, AttractionPoint, BoundaryMode, WaveCardinalDirection, ResolutionPreset
 } from "./types";
 
@@ -47,6 +48,11 @@ const defaultMaterialPresets: MaterialPreset[] = [
 
 const uid = () => Math.random().toString(36).slice(2, 10);
 
+const bumpRevision = (revisions: Record<string, number>, id: string) => ({
+  ...revisions,
+  [id]: (revisions[id] ?? 0) + 1
+});
+
 // Default shape is always "dot" - user can change via Shape parameter in RightPanel
 // Shape selection is decoupled from particle type selection
 const DEFAULT_SHAPE: ParticleShape = "dot";
@@ -110,6 +116,104 @@ const defaultMovementConfig = (type: ParticleType): MovementConfig => ({
   clusterByBrightness: false
 });
 
+// Default text mask: off, one centred bold line a fifth of the scene tall
+export const defaultMaskTextConfig = (): MaskTextConfig => ({
+  enabled: false,
+  text: "TEXT",
+  fontFamily: "sans-serif",
+  fontUrl: undefined,
+  fontWeight: 700,
+  fontSize: 0.2,
+  letterSpacing: 0,
+  lineHeight: 1.2,
+  align: "center"
+});
+
+// Default image seed: off, dissolves freely once the sim starts
+export const defaultImageSeedConfig = (): ImageSeedConfig => ({
+  enabled: false,
+  url: undefined,
+  invert: false,
+  carryColor: true,
+  reform: false,
+  reformStrength: 0.3,
+  reformDamping: 0.3
+});
+
+// Default morph: off, no targets, a new target every four seconds once some are added
+export const defaultMorphConfig = (): MorphConfig => ({
+  enabled: false,
+  targets: [],
+  trigger: "time",
+  interval: 4,
+  key: "n",
+  strength: 0.4,
+  damping: 0.4
+});
+
+// Default over-life curves: all flat, layer colour kept
+export const defaultLifeCurves = (): LifeCurves => ({
+  size: [],
+  brightness: [],
+  speed: [],
+  color: []
+});
+
+// Default layer gradient; also rebuilds one from the old three-colour fields
+export const defaultColorGradient = (
+  color = "#ffffff",
+  secondary = "#888888",
+  tertiary = "#444444"
+): GradientStop[] => [
+  { t: 0, color },
+  { t: 0.5, color: secondary },
+  { t: 1, color: tertiary }
+];
+
+// Default surface rendering (off: particles draw as individual glyphs)
+export const defaultMetaballConfig = (): MetaballConfig => ({
+  enabled: false,
+  blobRadius: 12,
+  threshold: 0.8,
+  edgeShading: 0.6
+});
+
+// Default per-layer trail config (off: the layer follows the global clearRate)
+const defaultLayerTrailConfig = (): LayerTrailConfig => ({
+  enabled: false,
+  clearRate: 0.1,
+  fadeTint: "#ffffff",
+  feedbackZoom: 0,
+  feedbackRotation: 0,
+  feedbackDriftX: 0,
+  feedbackDriftY: 0
+});
+
+// Default SPH fluid settings for liquid layers
+export const defaultLiquidConfig = (): LiquidConfig => ({
+  restDensity: 3,
+  viscosity: 0.3,
+  stiffness: 1,
+  surfaceTension: 0.5
+});
+
+// Default granular settings for sand layers (off: sand flows freely)
+export const defaultGranularConfig = (): GranularConfig => ({
+  enabled: false,
+  reposeAngle: 35,
+  gridSize: 256,
+  capacity: 1
+});
+
+// Default sprite atlas config
+const defaultSpriteConfig = (): SpriteConfig => ({
+  source: "text",
+  images: [],
+  text: "✦✧❋",
+  font: "serif",
+  tint: true
+});
+
 // Default border effect config
 const defaultBorderEffectConfig = (): BorderEffectConfig => ({
   effect: "deflect",
@@ -133,12 +237,15 @@ const defaultLayer = (name: string, type: ParticleType, particleCount: number, k
   
   // === SPAWN REGION SYSTEM ===
   spawnConfig: defaultSpawnConfig(type),
+  imageSeed: defaultImageSeedConfig(),
+  morph: defaultMorphConfig(),
   
   // === MOVEMENT PATTERN SYSTEM ===
   movementConfig: defaultMovementConfig(type),
   
   // mask settings
   maskUrl: undefined,
+  maskText: defaultMaskTextConfig(),
   maskInvert: true,
   maskThreshold: 0.5,
   maskTransform: defaultMaskTransform(),
@@ -173,6 +280,10 @@ const defaultLayer = (name: string, type: ParticleType, particleCount: number, k
   massJitter: 0, // No mass jitter by default
   boundaryMode: "bounce" as BoundaryMode,
   boundaryBounce: type === "sand" ? 0.2 : type === "sparks" ? 0.6 : 0.4,
+  liquidConfig: defaultLiquidConfig(),
+  granularConfig: defaultGranularConfig(),
+  interactions: [],
+  subEmitters: [],
   
   // render
   pointSize: DEFAULT_POINT_SIZE, // 10 by default for visibility
@@ -184,6 +295,9 @@ const defaultLayer = (name: string, type: ParticleType, particleCount: number, k
   dither: 0, // 0 by default per user request
   trailLength: 0, // 0 by default per user request
   colorJitter: 0, // No color jitter by default
+  blendMode: "additive",
+  trail: defaultLayerTrailConfig(),
+  metaball: defaultMetaballConfig(),
   
   // color options
   colorMode: "single",
@@ -193,11 +307,20 @@ const defaultLayer = (name: string, type: ParticleType, particleCount: number, k
   colorScheme: undefined,
   colorRangeStart: undefined,
   colorRangeEnd: undefined,
+  colorGradient: defaultColorGradient(),
+  colorPositionAxis: "x",
+  colorVelocityMax: 0.05,
+  colorImageUrl: undefined,
+  colorImageTransform: defaultMaskTransform(),
+  colorImageSampling: "current",
   
   // particle lifecycle
   accumulationRate: type === "sand" ? 0.8 : type === "liquid" ? 0.6 : 0.3,
   accumulationTime: type === "sparks" ? 0.5 : type === "liquid" ? 3.0 : 2.0,
   decayRate: type === "sparks" ? 0.8 : type === "dust" ? 0.4 : type === "liquid" ? 0.1 : 0.3,
+  lifetime: 0,
+  lifetimeJitter: 0,
+  lifeCurves: defaultLifeCurves(),
 
   // === MATERIAL SYSTEM ===
   
@@ -231,9 +354,37 @@ const defaultLayer = (name: string, type: ParticleType, particleCount: number, k
   // Glyph/shape jitter - all 0 by default per user request
   glyphPalette: [{ shape: DEFAULT_SHAPE, weight: 1.0 }] as GlyphPaletteEntry[],
   glyphRotationJitter: 0,
-  glyphScaleJitter: 0
+  glyphScaleJitter: 0,
+  spriteConfig: defaultSpriteConfig()
 });
 
+// Per-layer particle limits. The state textures are square, so the maximum is a
+// 1024 x 1024 texture.
+export const MIN_LAYER_PARTICLES = 50;
+export const MAX_LAYER_PARTICLES = 1024 * 1024;
+
+// GPU bytes per particle: state ping-pong (RGBA32F), meta (RGBA16F), life (RGBA32F),
+// sub-emitter events (RGBA32F)
+export const BYTES_PER_PARTICLE = 2 * 16 + 2 * 8 + 2 * 16 + 2 * 16;
+
+// Particle count sliders are logarithmic so 50 and 1M are both reachable
+export function particleCountToSlider(count: number): number {
+  const t = Math.log(count / MIN_LAYER_PARTICLES) / Math.log(MAX_LAYER_PARTICLES / MIN_LAYER_PARTICLES);
+  return Math.round(Math.max(0, Math.min(1, t)) * 1000);
+}
+
+export function sliderToParticleCount(value: number): number {
+  if (value >= 1000) return MAX_LAYER_PARTICLES;
+  const count = MIN_LAYER_PARTICLES * Math.pow(MAX_LAYER_PARTICLES / MIN_LAYER_PARTICLES, value / 1000);
+  // Round to two significant digits so the readout stays tidy
+  const step = Math.pow(10, Math.max(1, Math.floor(Math.log10(count)) - 1));
+  return Math.max(MIN_LAYER_PARTICLES, Math.min(MAX_LAYER_PARTICLES, Math.round(count / step) * step));
+}
+
+export function clampParticleCount(count: number): number {
+  return Math.max(MIN_LAYER_PARTICLES, Math.min(MAX_LAYER_PARTICLES, Math.round(count) || MIN_LAYER_PARTICLES));
+}
+
 // Helper function to get current resolution dimensions based on global config
 export function getResolutionDimensions(global: GlobalConfig): { width: number; height: number } {
   if (global.resolutionPreset === "custom") {
@@ -257,6 +408,9 @@ export function getResolutionDimensions(global: GlobalConfig): { width: number;
 type StudioState = {
   global: GlobalConfig;
   layers: LayerConfig[];
+  // Per-layer change counters, bumped on every edit to that layer; the engine
+  // only re-syncs GPU resources for layers whose revision moved
+  layerRevisions: Record<string, number>;
   selectedLayerId: string;
 
   resetNonce: number;
@@ -264,12 +418,14 @@ type StudioState = {
   startRecordingNonce: number;
   stopRecordingNonce: number;
   isRecording: boolean;
+  floatBlend: boolean; // reported by the engine once it starts (EXT_float_blend)
   exportGifNonce: number;
   isGifExporting: boolean;
   exportMp4Nonce: number;
   isMp4Exporting: boolean;
   exportProgress: number;
   exportStatusMessage: string;
+  frameStats: FrameStats | null;
 
   // Wallet state
   walletConnected: boolean;
@@ -278,7 +434,7 @@ type StudioState = {
 
   setGlobal: (patch: Partial<GlobalConfig>) => void;
 
-  addLayer: (kind?: LayerKind, particleType?: ParticleType) => void;
+  addLayer: (kind?: LayerKind, particleType?: ParticleType, particleCount?: number) => void;
   importLayer: (settings: Omit<LayerConfig, "id">) => void;
   removeLayer: (id: string) => void;
   selectLayer: (id: string) => void;
@@ -293,11 +449,13 @@ type StudioState = {
   requestStartRecording: () => void;
   requestStopRecording: () => void;
   setIsRecording: (v: boolean) => void;
+  setFloatBlend: (v: boolean) => void;
   requestExportGif: () => void;
   setIsGifExporting: (v: boolean) => void;
   requestExportMp4: () => void;
   setIsMp4Exporting: (v: boolean) => void;
   setExportProgress: (progress: number, message?: string) => void;
+  setFrameStats: (stats: FrameStats | null) => void;
 
   // Wallet actions
   setWalletConnected: (connected: boolean, address: string | null, balance: number) => void;
@@ -324,6 +482,13 @@ export const useStudioStore = create<StudioState>((set, get) => ({
     // Loop mode defaults
     loopMode: false,
     loopDuration: 3, // defaults to GIF duration
+    // Determinism defaults
+    seed: 1,
+    fixedTimestep: false,
+    fixedStepRate: 60,
+    substeps: 1,
+    particleBudget: 500000,
+    benchmarkMode: false,
     audioUrl: undefined,
     audioPlaying: false,
     audioVolume: 0.8,
@@ -340,6 +505,7 @@ export const useStudioStore = create<StudioState>((set, get) => ({
     showWelcome: true // Show welcome popup on first load
   },
   layers: [],
+  layerRevisions: {},
   selectedLayerId: "",
 
   resetNonce: 0,
@@ -347,6 +513,7 @@ export const useStudioStore = create<StudioState>((set, get) => ({
   startRecordingNonce: 0,
   stopRecordingNonce: 0,
   isRecording: false,
+  floatBlend: true,
   exportGifNonce: 0,
   isGifExporting: false,
   exportMp4Nonce: 0,
@@ -359,7 +526,7 @@ export const useStudioStore = create<StudioState>((set, get) => ({
 
   setGlobal: (patch) => set((s) => ({ global: { ...s.global, ...patch } })),
 
-  addLayer: (kind: LayerKind = "foreground", particleType: ParticleType = "dust") => {
+  addLayer: (kind: LayerKind = "foreground", particleType: ParticleType = "dust", particleCount = 5000) => {
     const kindLabels: Record<LayerKind, string> = {
       mask: "Mask",
       background: "BG",
@@ -367,8 +534,12 @@ export const useStudioStore = create<StudioState>((set, get) => ({
       directedFlow: "Flow"
     };
     const label = kindLabels[kind];
-    const next = defaultLayer(`${label} ${get().layers.length + 1}`, particleType, 5000, kind);
-    set((s) => ({ layers: [next, ...s.layers], selectedLayerId: next.id }));
+    const next = defaultLayer(`${label} ${get().layers.length + 1}`, particleType, clampParticleCount(particleCount), kind);
+    set((s) => ({
+      layers: [next, ...s.layers],
+      layerRevisions: bumpRevision(s.layerRevisions, next.id),
+      selectedLayerId: next.id
+    }));
   },
 
   importLayer: (settings: Omit<LayerConfig, "id">) => {
@@ -379,21 +550,28 @@ export const useStudioStore = create<StudioState>((set, get) => ({
       // Append "(imported)" to name to indicate it was imported
       name: `${settings.name} (imported)`,
     };
-    set((s) => ({ layers: [newLayer, ...s.layers], selectedLayerId: newLayer.id }));
+    set((s) => ({
+      layers: [newLayer, ...s.layers],
+      layerRevisions: bumpRevision(s.layerRevisions, newLayer.id),
+      selectedLayerId: newLayer.id
+    }));
   },
 
   removeLayer: (id) => {
     const layers = get().layers.filter((l) => l.id !== id);
     const selectedLayerId =
       get().selectedLayerId === id ? (layers[0]?.id ?? "") : get().selectedLayerId;
-    set({ layers, selectedLayerId });
+    const layerRevisions = { ...get().layerRevisions };
+    delete layerRevisions[id];
+    set({ layers, layerRevisions, selectedLayerId });
   },
 
   selectLayer: (id) => set({ selectedLayerId: id }),
 
   setLayer: (id, patch) =>
     set((s) => ({
-      layers: s.layers.map((l) => (l.id === id ? { ...l, ...patch } : l))
+      layers: s.layers.map((l) => (l.id === id ? { ...l, ...patch } : l)),
+      layerRevisions: bumpRevision(s.layerRevisions, id)
     })),
 
   reorderLayer: (id, newIndex) => {
@@ -433,6 +611,7 @@ export const useStudioStore = create<StudioState>((set, get) => ({
   requestStopRecording: () => set((s) => ({ stopRecordingNonce: s.stopRecordingNonce + 1 })),
 
   setIsRecording: (v) => set({ isRecording: v }),
+  setFloatBlend: (v) => set({ floatBlend: v }),
 
   requestExportGif: () => set((s) => ({ exportGifNonce: s.exportGifNonce + 1 })),
 
@@ -446,6 +625,9 @@ export const useStudioStore = create<StudioState>((set, get) => ({
   exportStatusMessage: "",
   setExportProgress: (progress: number, message: string = "") => set({ exportProgress: progress, exportStatusMessage: message }),
 
+  frameStats: null,
+  setFrameStats: (stats) => set({ frameStats: stats }),
+
   // Wallet actions
   setWalletConnected: (connected, address, balance) =>
     set({ walletConnected: connected, walletAddress: address, walletBalance: balance }),
@@ -1,8 +1,24 @@
 export type ParticleType = "sand" | "dust" | "sparks" | "ink" | "crumbs" | "liquid";
-export type ParticleShape = "dot" | "star" | "dash" | "tilde" | "square" | "diamond" | "ring" | "cross";
+export type ParticleShape = "dot" | "star" | "dash" | "tilde" | "square" | "diamond" | "ring" | "cross" | "sprite";
 export type LayerKind = "mask" | "background" | "foreground" | "directedFlow";
-export type ColorMode = "single" | "gradient" | "scheme" | "range";
+// Every mode except "single" indexes the layer gradient (colorGradient, or the scheme / range colours)
+export type ColorMode =
+  | "single"
+  | "gradient"  // seed + velocity
+  | "scheme"
+  | "range"
+  | "velocity"  // speed, up to colorVelocityMax
+  | "age"       // age / lifetime
+  | "position"  // along colorPositionAxis
+  | "depth"     // layer depth field
+  | "random"    // per-particle random
+  | "image";    // sampled from colorImageUrl
+export type ColorPositionAxis = "x" | "y" | "radial";
+// Where an image-coloured particle looks up its colour
+export type ColorImageSampling = "current" | "spawn";
 export type ColorScheme = "warm" | "cool" | "earth" | "neon" | "mono";
+// How a layer combines with the layers drawn beneath it
+export type BlendMode = "additive" | "alpha" | "multiply" | "screen" | "subtract" | "lighten" | "darken";
 export type MaskMode = 
   | "ignore"       // particles pass through, no effect
   | "visibility"   // mask controls particle visibility only
@@ -69,6 +85,46 @@ export type SpawnConfig = {
   customMask?: string;       // Data URL for drawable spawn region
 };
 
+// Seeds the layer's particles from an image on reset: positions are sampled by
+// luminance and each particle remembers where it started (its origin)
+export type ImageSeedConfig = {
+  enabled: boolean;
+  url?: string;              // Data URL of the seed image
+  invert: boolean;           // sample dark pixels instead of bright ones
+  carryColor: boolean;       // particles keep the colour of their source pixel
+  reform: boolean;           // spring particles back to their origin
+  reformStrength: number;    // 0-1, spring stiffness
+  reformDamping: number;     // 0-1, velocity damping while reforming
+};
+
+// Morph targets: shapes the layer's particles travel to and hold, one after another
+export type MorphTargetKind = "image" | "text" | "svg";
+
+export type MorphTarget = {
+  id: string;
+  kind: MorphTargetKind;
+  url?: string;              // Data URL (image and svg targets)
+  invert: boolean;           // image/svg: form from dark pixels instead of bright ones
+  text: string;              // text targets, may span several lines
+  fontFamily: string;
+  fontWeight: number;        // 100-900
+};
+
+export type MorphTrigger =
+  | "time"                   // every `interval` seconds
+  | "beat"                   // on each audio beat
+  | "key";                   // when `key` is pressed
+
+export type MorphConfig = {
+  enabled: boolean;
+  targets: MorphTarget[];    // formed in order, looping back to the first
+  trigger: MorphTrigger;
+  interval: number;          // seconds per target (time trigger)
+  key: string;               // single key (key trigger)
+  strength: number;          // 0-1, spring stiffness toward the target
+  damping: number;           // 0-1, velocity damping while travelling
+};
+
 // ============================================
 // MOVEMENT PATTERN SYSTEM
 // ============================================
@@ -173,6 +229,85 @@ export type GlyphPaletteEntry = {
   weight: number;  // Selection probability weight
 };
 
+// SPH fluid tunables for "liquid" layers. Densities are in neighbour units: the
+// kernel-weighted count of particles within the smoothing radius.
+export type LiquidConfig = {
+  restDensity: number;    // 0.5-10, density the fluid relaxes towards
+  viscosity: number;      // 0-1, how strongly neighbours share velocity
+  stiffness: number;      // 0.1-5, pressure response to compression
+  surfaceTension: number; // 0-2, pull of thin (surface) regions back into the body
+};
+
+// Granular stacking for "sand" layers: grains occupy cells of an occupancy grid
+// and settle into piles by angle-of-repose rules
+export type GranularConfig = {
+  enabled: boolean;
+  reposeAngle: number; // 20-70 degrees, steepest slope a pile holds
+  gridSize: number;    // 64-512 cells per side, i.e. grain size
+  capacity: number;    // 1-4 grains per cell before it counts as full
+};
+
+// Another layer's particles acting on this one as an attractor or obstacle
+export type LayerInteraction = {
+  targetLayerId: string; // layer whose particle density exerts the force
+  strength: number;      // -1..1, > 0 attracts toward it, < 0 repels
+  radius: number;        // 0.01-0.3, normalized reach
+};
+
+// Sub-emitter: particle events on this layer spawn particles into another layer
+export type SubEmitterEvent = "maskCollision" | "attractorDespawn" | "decay" | "boundaryDestroy";
+
+export type SubEmitter = {
+  event: SubEmitterEvent;
+  targetLayerId: string;   // layer that receives the particles (may be this one)
+  count: number;           // 1-16 particles per event
+  inheritVelocity: number; // 0-1, share of the event particle's velocity
+  spread: number;          // 0-0.2, random burst speed
+};
+
+// Over-life curves: t runs from 0 at spawn to 1 at the end of the particle's lifetime
+export type CurvePoint = { t: number; value: number };
+export type GradientStop = { t: number; color: string };
+
+export type LifeCurves = {
+  size: CurvePoint[];       // size multiplier 0-2 (empty = constant 1)
+  brightness: CurvePoint[]; // brightness multiplier 0-2 (empty = constant 1)
+  speed: CurvePoint[];      // velocity multiplier 0-2 (empty = constant 1)
+  color: GradientStop[];    // replaces the layer colour (empty = keep it)
+};
+
+// Optional per-layer accumulation buffer; layers without one only persist
+// through the global clearRate
+export type LayerTrailConfig = {
+  enabled: boolean;
+  clearRate: number;        // 0..1, like GlobalConfig.clearRate but for this layer only
+  fadeTint: string;         // hex, multiplied into the trail every frame (white = neutral)
+  feedbackZoom: number;     // -0.05..0.05 per frame, > 0 pushes trails outward
+  feedbackRotation: number; // degrees per frame
+  feedbackDriftX: number;   // -0.01..0.01 canvas widths per frame
+  feedbackDriftY: number;   // -0.01..0.01 canvas heights per frame
+};
+
+// Screen-space surface rendering for "liquid" and "ink" layers: particles are
+// splatted into a density field that is thresholded and shaded as one surface
+export type MetaballConfig = {
+  enabled: boolean;
+  blobRadius: number;  // 4-48 px, splat radius per particle
+  threshold: number;   // 0.1-3, density at which the surface starts
+  edgeShading: number; // 0-1, normal-based lighting, highlights and refraction
+};
+
+// Sprite shape: frames packed into a texture atlas, one picked per particle
+export type SpriteSource = "images" | "text";
+
+export type SpriteConfig = {
+  source: SpriteSource;
+  images: string[];  // Data URLs, one frame each (source "images")
+  text: string;      // One frame per character (source "text")
+  font: string;      // CSS font family for text frames
+  tint: boolean;     // Colour frames with the layer color mode instead of their own colours
+};
+
 export type MaskTransform = {
   x: number;        // pan X (-1 to 1)
   y: number;        // pan Y (-1 to 1)
@@ -182,6 +317,22 @@ export type MaskTransform = {
   skewY: number;    // skew Y (-45 to 45)
 };
 
+// Mask rendered from text instead of an uploaded image: black glyphs on white at
+// the scene resolution, then transformed, inverted and thresholded like any mask
+export type MaskTextAlign = "left" | "center" | "right";
+
+export type MaskTextConfig = {
+  enabled: boolean;          // replaces maskUrl while on
+  text: string;              // may span several lines
+  fontFamily: string;        // installed family, or the name of the uploaded font
+  fontUrl?: string;          // Data URL of an uploaded font file
+  fontWeight: number;        // 100-900
+  fontSize: number;          // fraction of the scene height (0.02-0.5)
+  letterSpacing: number;     // em (-0.2 to 1)
+  lineHeight: number;        // multiple of the font size (0.8-2)
+  align: MaskTextAlign;
+};
+
 export type FlowPoint = { x: number; y: number };
 export type FlowPath = FlowPoint[];
 
@@ -236,7 +387,7 @@ export type LayerConfig = {
 
   enabled: boolean;
 
-  // particle count (50-20000)
+  // particle count (MIN_LAYER_PARTICLES..MAX_LAYER_PARTICLES, see store)
   particleCount: number; // direct count, GPU texture size calculated from this
   spawnRate: number; // 0..1 relative spawn per frame (used mainly for sand replenishment)
   spawnSpeed: number; // initial velocity scale on respawn
@@ -245,12 +396,15 @@ export type LayerConfig = {
 
   // === SPAWN REGION SYSTEM ===
   spawnConfig: SpawnConfig;
+  imageSeed: ImageSeedConfig;
+  morph: MorphConfig;
 
   // === MOVEMENT PATTERN SYSTEM ===
   movementConfig: MovementConfig;
 
   // mask (BW). black = inside boundary; white = outside (for mask layers)
   maskUrl?: string;
+  maskText: MaskTextConfig; // text source, used instead of maskUrl when enabled
   maskInvert: boolean;
   maskThreshold: number; // 0..1
   maskTransform: MaskTransform; // transform for mask image
@@ -285,6 +439,10 @@ export type LayerConfig = {
   massJitter: number; // 0..1 (randomness in particle mass affecting gravity/forces)
   boundaryMode: BoundaryMode;
   boundaryBounce: number; // 0..1
+  liquidConfig: LiquidConfig; // only used by "liquid" layers
+  granularConfig: GranularConfig; // only used by "sand" layers
+  interactions: LayerInteraction[]; // at most 4, other layers this one reacts to
+  subEmitters: SubEmitter[]; // at most 4
 
   // render
   pointSize: number; // px (0.5 to 64)
@@ -296,6 +454,9 @@ export type LayerConfig = {
   dither: number; // 0..1
   trailLength: number; // 0..1 (how much velocity affects shape stretch)
   colorJitter: number; // 0..1 (randomness in particle color hue)
+  blendMode: BlendMode; // layers are composited bottom-up, in reverse list order
+  trail: LayerTrailConfig;
+  metaball: MetaballConfig; // only used by "liquid" and "ink" layers
 
   // color options
   colorMode: ColorMode;
@@ -305,6 +466,12 @@ export type LayerConfig = {
   colorScheme?: ColorScheme; // preset color scheme
   colorRangeStart?: string; // range start color (HSL range mode)
   colorRangeEnd?: string; // range end color (HSL range mode)
+  colorGradient: GradientStop[]; // stops for the gradient-indexed modes
+  colorPositionAxis: ColorPositionAxis; // position mode
+  colorVelocityMax: number; // velocity mode: speed at the end of the gradient
+  colorImageUrl?: string; // image mode: reference picture (data URL so it survives exports)
+  colorImageTransform: MaskTransform; // image mode: placement, same controls as the mask
+  colorImageSampling: ColorImageSampling; // image mode
   
   // audio reactivity
   audio?: LayerAudioConfig;
@@ -313,6 +480,9 @@ export type LayerConfig = {
   accumulationRate: number;  // 0-1, how quickly particles slow down on contact
   accumulationTime: number;  // seconds before decay starts
   decayRate: number;         // 0-1, how quickly particles fade after accumulation
+  lifetime: number;          // seconds, 0 = particles live until something else kills them
+  lifetimeJitter: number;    // 0-1, per-particle variation of the lifetime
+  lifeCurves: LifeCurves;    // only applied when lifetime > 0
 
   // === MATERIAL SYSTEM ===
   
@@ -347,6 +517,7 @@ export type LayerConfig = {
   glyphPalette: GlyphPaletteEntry[];
   glyphRotationJitter: number;  // 0-360 degrees of random rotation
   glyphScaleJitter: number;     // 0-1, scale variation
+  spriteConfig: SpriteConfig;   // frames for the "sprite" shape
 };
 
 // Audio reactivity types
@@ -381,6 +552,13 @@ export type Mp4Duration = 15 | 30 | 60 | -1; // -1 = audio track length
 // Resolution presets
 export type ResolutionPreset = "512x512" | "1080x1080" | "2048x2048" | "custom";
 
+// Benchmark mode readout: moving average of the engine's CPU time per frame with
+// per-frame uniform lookups ("before") and with cached locations + UBOs ("after")
+export type FrameStats = {
+  legacyMs: number;
+  cachedMs: number;
+};
+
 export type GlobalConfig = {
   paused: boolean;
   timeScale: number; // 0..2
@@ -401,6 +579,13 @@ export type GlobalConfig = {
   // Loop mode - when enabled, particle simulation time wraps to create seamless loops
   loopMode: boolean;
   loopDuration: number; // seconds - duration of the loop (matches selected export duration)
+  // Determinism - same scene + seed reproduces the same frames
+  seed: number; // integer, feeds every random function in the simulation and render passes
+  fixedTimestep: boolean; // advance exactly 1 / fixedStepRate per frame instead of wall-clock time
+  fixedStepRate: number; // simulated frames per second in fixed-timestep mode
+  substeps: number; // 1-8, simulation steps per frame in fixed-timestep mode
+  particleBudget: number; // total particles across layers before the UI warns
+  benchmarkMode: boolean; // time step() on the legacy and cached uniform paths (see FrameStats)
   // Audio settings
   audioUrl?: string;
   audioPlaying: boolean;